@@ -1,36 +1,235 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { SubQGParams, RiemannStats, TransformationParams, ResolutionOption, MainColor, KnotMap, ImageDimensions } from './types';
-import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, RESOLUTION_OPTIONS, CATEGORY_LABELS_ORDERED } from './constants';
-import { SubQGSimulator } from './services/subqg';
+import React, { useState, useCallback, useEffect, useMemo, useRef, SetStateAction } from 'react';
+import { SubQGParams, RiemannStats, TransformationParams, ImageDimensions, PipelineProgress, PipelineStage, WaveModelId, ImageGuidanceParams, RenderSettings, RenderHistoryEntry, RgbaImage, ParameterPreset, KnotMap, AnimationParams, AnimationFormat, ImageProviderSettings, InputSource, MaskParams, RegionMask, ScalarField, ColorPalette, PaletteMapParams, PaletteMapping, RenderInputs, TargetPalette, EnsembleParams, EnsembleRequest, EnsembleStats, SweepParams, SweepCell, AutoTuneParams, AutoTuneResult, ExportParams, ArtworkMetadata, BatchItem, BatchSource, KnotMapViewParams, KnotMapExportFormat, SimulationRecording } from './types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, DEFAULT_ANIMATION_PARAMS, DEFAULT_MASK_PARAMS, DEFAULT_PALETTE_MAP_PARAMS, DEFAULT_ENSEMBLE_PARAMS, DEFAULT_SWEEP_PARAMS, DEFAULT_AUTO_TUNE_PARAMS, DEFAULT_EXPORT_PARAMS, DEFAULT_KNOT_MAP_VIEW_PARAMS, RESOLUTION_OPTIONS, FIELD_SIZE_MIN, FIELD_SIZE_MAX, FIELD_SIZE_STEP, SIM_DURATION_MAX, SIMULATION_RECORDING_BYTES_MAX } from './constants';
+import { generateSeed, normalizeSeed } from './services/random';
 import { 
   loadImageData, 
   imageDataToDataURL,
-  extractMainColors, 
-  createCategoryActivations,
-  resizeKnotMap,
-  processImageWithSubQG,
-  applyPostProcessing,
-  resizeImageData,
-  knotMapToVisualDataURL
-} from './services/imageUtils';
-import { generateImageWithGemini } from './services/geminiService';
+  imageDataToBlob,
+  blobToDataURL,
+  createThumbnailDataURL,
+  knotMapToVisualDataURL,
+  encodeArtwork,
+  isWebpEncodingSupported,
+  collectDroppedImageFiles
+} from './services/browserImageIO';
+import { fitFieldHeightToAspect, resolveTargetSize } from './services/pipeline';
+import { startTransformJob, startAnimationJob, startSweepJob, startAutoTuneJob, TransformCancelledError, WorkerJob } from './services/transformWorkerClient';
+import { isWebmRecordingSupported, recordWebm } from './services/webmRecorder';
+import { getImageProvider, loadImageProviderSettings, saveImageProviderSettings } from './services/imageProviders';
 import SliderControl from './components/SliderControl';
 import HarmonyVisualizer from './components/HarmonyVisualizer'; // Import new component
+import WaveModelControls from './components/WaveModelControls';
+import ImageGuidanceControls from './components/ImageGuidanceControls';
+import HistoryPanel from './components/HistoryPanel';
+import HistoryCompareDialog from './components/HistoryCompareDialog';
+import PresetManager from './components/PresetManager';
+import ComparisonViewer from './components/ComparisonViewer';
+import AnimationControls from './components/AnimationControls';
+import ImageProviderControls from './components/ImageProviderControls';
+import CandidatePicker from './components/CandidatePicker';
+import MaskControls from './components/MaskControls';
+import MaskEditor from './components/MaskEditor';
+import FieldResponseControls from './components/FieldResponseControls';
+import PaletteSwatches from './components/PaletteSwatches';
+import PaletteMapControls from './components/PaletteMapControls';
+import EnsembleControls from './components/EnsembleControls';
+import EnsembleStatsPanel from './components/EnsembleStatsPanel';
+import SweepControls from './components/SweepControls';
+import SweepGrid from './components/SweepGrid';
+import AutoTuneControls from './components/AutoTuneControls';
+import AutoTunePanel from './components/AutoTunePanel';
+import ExportDialog from './components/ExportDialog';
+import ArtworkImportPrompt from './components/ArtworkImportPrompt';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import KnotMapInspector from './components/KnotMapInspector';
+import SimulationTimeline from './components/SimulationTimeline';
+import { getDefaultWaveParams, getWaveModel } from './services/waveModels';
+import { MAX_HISTORY_ENTRIES, createHistoryEntryId, loadHistoryEntries, mergeHistoryEntries, saveHistoryEntry, deleteHistoryEntry, clearHistoryEntries } from './services/historyStore';
+import { loadUserPresets, saveUserPresets } from './services/presetStore';
+import { maskFromImage, maskToGrayscaleImage } from './services/regionMask';
+import { extractPalette } from './services/palette';
+import { parsePaletteFile, PaletteFileError } from './services/paletteFiles';
+import { createRgbaImage } from './services/imageUtils';
+import { ArtworkMetadataError, ArtworkRenderContext, EXPORT_FILE_EXTENSIONS, createArtworkMetadata, fitArtworkMetadata, getArtworkFileName, getArtworkRenderInputs, getArtworkRestoreWarnings, readArtworkMetadata } from './services/artworkMetadata';
+import { batchManifestToCsv, batchManifestToJson, createBatchItemId, createBatchManifest } from './services/batch';
+import { createZipArchive } from './services/zipWriter';
+import { encodeKnotMapPng16, knotMapToCsv, knotMapToJson } from './services/knotMapAnalysis';
+import { getSimulationRecordingBytes } from './services/subqg';
+import { useUndoRedo } from './hooks/useUndoRedo';
+
+const HISTORY_THUMBNAIL_SIZE = 160;
+const BATCH_THUMBNAIL_SIZE = 80;
+
+// Settings, sizes and knot map of the displayed result.
+interface RenderInfo {
+  settings: RenderSettings;
+  inputWidth: number;
+  inputHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  knotMap: KnotMap | null;
+  inputSource: InputSource | null;
+  palette: ColorPalette | null;
+  ensemble: EnsembleStats | null;
+  presetName: string | null;
+  inputs: RenderInputs | null; // Null for history entries stored before inputs were recorded
+  recording: SimulationRecording | null; // Step-by-step simulation of this render; not kept in the history
+  image: RgbaImage | null; // Rendered pixels for export; history entries only keep the encoded PNG
+}
+
+type GeneratedInputSource = Extract<InputSource, { kind: 'generated' }>;
+
+// Result of the last prompt: all candidates share the request that produced them.
+interface GeneratedCandidates {
+  images: string[];
+  request: Omit<GeneratedInputSource, 'candidateIndex' | 'candidateCount'>;
+}
+
+const describeInputSource = (source: InputSource): string => {
+  if (source.kind === 'upload') return `Uploaded file "${source.fileName}"`;
+  const details = [
+    `${source.providerId}/${source.model}`,
+    `candidate ${source.candidateIndex + 1} of ${source.candidateCount}`,
+    source.aspectRatio,
+  ].filter(Boolean).join(', ');
+  return `Generated (${details}): "${source.prompt}"${source.negativePrompt ? ` – not "${source.negativePrompt}"` : ''}`;
+};
+
+const resolveUpdate = <T,>(update: SetStateAction<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+const getArtworkRenderContext = (info: RenderInfo): ArtworkRenderContext => ({
+  preset: info.presetName ?? undefined,
+  inputs: info.inputs,
+  ensemble: info.ensemble,
+});
+
+// Undo coalesce key for a change made through one control: the single field that differs, if only one does.
+const getChangedFieldKey = <T extends object,>(prefix: string, prev: T, next: T): string | undefined => {
+  const changed = (Object.keys(next) as (keyof T)[]).filter(key => !Object.is(prev[key], next[key]));
+  return changed.length === 1 ? `${prefix}.${String(changed[0])}` : undefined;
+};
+
+interface AnimationResult {
+  url: string; // Object URL of the encoded clip
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  frameCount: number;
+  bytes: number;
+}
+
+// A loaded image that carries embedded SubQG settings, waiting for "restore" or "use as input".
+interface ArtworkImport {
+  file: File;
+  metadata: ArtworkMetadata;
+  warnings: string[];
+  restored: boolean;
+}
+
+interface SweepResult {
+  sweep: SweepParams;
+  cells: SweepCell[];
+}
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Undo/redo shortcuts stay with the browser while the user is typing into a text field.
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'file', 'button'].includes(target.type);
+};
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  simulation: 'SubQG simulation',
+  ensemble: 'SubQG ensemble',
+  analysis: 'Riemann & colour analysis',
+  transform: 'Pixel transform',
+  postprocess: 'Post-processing',
+  tiles: 'Tiled transform & post-processing',
+  frames: 'Rendering frames',
+  cells: 'Parameter sweep',
+  tuning: 'Auto-tuning',
+};
+
+const formatProgress = (progress: PipelineProgress): string => {
+  switch (progress.stage) {
+    case 'simulation': return `${STAGE_LABELS.simulation}: step ${progress.done} of ${progress.total}`;
+    case 'ensemble': return `${STAGE_LABELS.ensemble}: ${progress.done} of ${progress.total} runs`;
+    case 'transform': return `${STAGE_LABELS.transform}: ${progress.done} of ${progress.total} rows`;
+    case 'tiles': return `${STAGE_LABELS.tiles}: tile ${progress.done} of ${progress.total}`;
+    case 'frames': return `${STAGE_LABELS.frames}: ${progress.done} of ${progress.total}`;
+    case 'cells': return `${STAGE_LABELS.cells}: cell ${progress.done} of ${progress.total}`;
+    case 'tuning': return `${STAGE_LABELS.tuning}: iteration ${progress.done} of up to ${progress.total}`;
+    default: return STAGE_LABELS[progress.stage];
+  }
+};
+
+interface LoadingSpinnerProps {
+  progress?: PipelineProgress | null;
+  queueLabel?: string | null; // e.g. "Candidate 2 of 4" while a queue runs
+  onCancel?: () => void;
+}
 
 // LoadingSpinner Component
-const LoadingSpinner: React.FC = () => (
-  <div className="fixed inset-0 flex items-center justify-center bg-slate-900 bg-opacity-80 z-50" role="alert" aria-live="assertive">
-    <div className="w-16 h-16 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
-    <p className="ml-4 text-xl text-sky-300 font-semibold">Processing...</p>
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress, queueLabel, onCancel }) => (
+  <div className="fixed inset-0 flex flex-col items-center justify-center bg-slate-900 bg-opacity-80 z-50" role="alert" aria-live="assertive">
+    <div className="flex items-center">
+      <div className="w-16 h-16 border-4 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+      <p className="ml-4 text-xl text-sky-300 font-semibold">Processing...</p>
+    </div>
+    {queueLabel && <p className="mt-4 text-sm text-sky-200">{queueLabel}</p>}
+    {progress && (
+      <div className="mt-6 w-72">
+        <p className="text-sm text-slate-300 mb-1 text-center">{formatProgress(progress)}</p>
+        <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-sky-500 transition-all duration-150" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }} />
+        </div>
+      </div>
+    )}
+    {onCancel && (
+      <button onClick={onCancel} className="mt-6 bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-6 rounded-md transition duration-150 ease-in-out">
+        Cancel
+      </button>
+    )}
   </div>
 );
 
 const App: React.FC = () => {
-  const [subQGParams, setSubQGParams] = useState<SubQGParams>(DEFAULT_SUBQG_PARAMS);
-  const [transformParams, setTransformParams] = useState<TransformationParams>(DEFAULT_TRANSFORMATION_PARAMS);
-  const [resolution, setResolution] = useState<string>(RESOLUTION_OPTIONS[1].label); // Default "Test Medium"
+  const settingsHistory = useUndoRedo<RenderSettings>({
+    subQGParams: DEFAULT_SUBQG_PARAMS,
+    transformParams: DEFAULT_TRANSFORMATION_PARAMS,
+    resolution: RESOLUTION_OPTIONS[1].label, // Default "Test Medium"
+  });
+  const { subQGParams, transformParams, resolution } = settingsHistory.value;
+  const { set: setSettings, undo: undoSettings, redo: redoSettings } = settingsHistory;
+  // coalesceKey names the control a change comes from; repeated changes to it merge into one undo step.
+  const setSubQGParams = useCallback((update: SetStateAction<SubQGParams>, coalesceKey?: string) => {
+    setSettings(prev => ({ ...prev, subQGParams: resolveUpdate(update, prev.subQGParams) }), coalesceKey);
+  }, [setSettings]);
+  const setTransformParams = useCallback((update: SetStateAction<TransformationParams>, coalesceKey?: string) => {
+    setSettings(prev => ({ ...prev, transformParams: resolveUpdate(update, prev.transformParams) }), coalesceKey);
+  }, [setSettings]);
+  const setResolution = useCallback((value: string) => {
+    setSettings(prev => ({ ...prev, resolution: value }));
+  }, [setSettings]);
+  const [randomizeSeed, setRandomizeSeed] = useState<boolean>(true);
   
-  const [geminiPrompt, setGeminiPrompt] = useState<string>("photo of a surreal, vibrant nebula");
+  const [generationPrompt, setGenerationPrompt] = useState<string>("photo of a surreal, vibrant nebula");
+  const [negativePrompt, setNegativePrompt] = useState<string>("");
+  const [providerSettings, setProviderSettings] = useState<ImageProviderSettings>(loadImageProviderSettings);
+  const [candidates, setCandidates] = useState<GeneratedCandidates | null>(null);
+  const [inputSource, setInputSource] = useState<InputSource | null>(null);
+  const [queueLabel, setQueueLabel] = useState<string | null>(null);
   const [inputImageSrc, setInputImageSrc] = useState<string | null>(null);
   const [inputImageDimensions, setInputImageDimensions] = useState<ImageDimensions | null>(null);
   
@@ -39,59 +238,336 @@ const App: React.FC = () => {
   const [knotMapVisualSrc, setKnotMapVisualSrc] = useState<string | null>(null); // For knot map visualization
   
   const [riemannStatsDisplay, setRiemannStatsDisplay] = useState<RiemannStats | null>(null); // Store full stats object
+  const [renderInfo, setRenderInfo] = useState<RenderInfo | null>(null);
   const [processingTime, setProcessingTime] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string>("");
+  const [jobProgress, setJobProgress] = useState<PipelineProgress | null>(null);
+
+  const [historyEntries, setHistoryEntries] = useState<RenderHistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isViewerOpen, setIsViewerOpen] = useState<boolean>(false);
+  const [animationParams, setAnimationParams] = useState<AnimationParams>(DEFAULT_ANIMATION_PARAMS);
+  const [animationResult, setAnimationResult] = useState<AnimationResult | null>(null);
+  const [webmSupported] = useState<boolean>(isWebmRecordingSupported);
+  const [userPresets, setUserPresets] = useState<ParameterPreset[]>(loadUserPresets);
+  const [regionMask, setRegionMask] = useState<ScalarField | null>(null);
+  const [maskParams, setMaskParams] = useState<MaskParams>(DEFAULT_MASK_PARAMS);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState<boolean>(false);
+  const [targetPalette, setTargetPalette] = useState<TargetPalette | null>(null);
+  const [paletteMapParams, setPaletteMapParams] = useState<PaletteMapParams>(DEFAULT_PALETTE_MAP_PARAMS);
+  const [ensembleParams, setEnsembleParams] = useState<EnsembleParams>(DEFAULT_ENSEMBLE_PARAMS);
+  const [sweepParams, setSweepParams] = useState<SweepParams>(DEFAULT_SWEEP_PARAMS);
+  const [sweepResult, setSweepResult] = useState<SweepResult | null>(null);
+  const [activeSweepCell, setActiveSweepCell] = useState<SweepCell | null>(null);
+  const [autoTuneParams, setAutoTuneParams] = useState<AutoTuneParams>(DEFAULT_AUTO_TUNE_PARAMS);
+  const [autoTuneResult, setAutoTuneResult] = useState<AutoTuneResult | null>(null);
+  const [presetName, setPresetName] = useState<string | null>(null); // Last applied preset, for export names
+  const [exportParams, setExportParams] = useState<ExportParams>(DEFAULT_EXPORT_PARAMS);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [webpSupported] = useState<boolean>(isWebpEncodingSupported);
+  const [artworkImport, setArtworkImport] = useState<ArtworkImport | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [knotMapView, setKnotMapView] = useState<KnotMapViewParams>(DEFAULT_KNOT_MAP_VIEW_PARAMS);
+  const [isKnotInspectorOpen, setIsKnotInspectorOpen] = useState<boolean>(false);
+  const [isKnotMapExporting, setIsKnotMapExporting] = useState<boolean>(false);
+  const [knotMapExportError, setKnotMapExportError] = useState<string | null>(null);
+  const [recordSimulation, setRecordSimulation] = useState<boolean>(false);
 
+  const activeJobRef = useRef<WorkerJob<unknown> | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const maskPreviewSrc = useMemo(() => regionMask ? imageDataToDataURL(maskToGrayscaleImage(regionMask)) : null, [regionMask]);
+  const activeMask: RegionMask | null = regionMask && maskParams.enabled
+    ? { field: regionMask, invert: maskParams.invert, feather: maskParams.feather }
+    : null;
+  const isRecordingWithinBudget = getSimulationRecordingBytes(subQGParams) <= SIMULATION_RECORDING_BYTES_MAX;
+  const activePaletteMap: PaletteMapping | null = targetPalette && paletteMapParams.enabled
+    ? { target: targetPalette.colors, strength: paletteMapParams.strength, knotInfluence: paletteMapParams.knot_influence }
+    : null;
+  const activeEnsemble: EnsembleRequest | null = ensembleParams.enabled
+    ? { runs: ensembleParams.runs, selection: ensembleParams.selection, targetHarmony: ensembleParams.target_harmony }
+    : null;
+
   const handleSubQGParamChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
-    setSubQGParams(prev => ({ ...prev, [name]: parseFloat(value) }));
+    setSubQGParams(prev => ({ ...prev, [name]: parseFloat(value) }), `subQGParams.${name}`);
+  }, [setSubQGParams]);
+
+  const handleWaveModelChange = useCallback((wave_model: WaveModelId) => {
+    setSubQGParams(prev => ({ ...prev, wave_model, wave_params: getDefaultWaveParams(wave_model) }));
+  }, [setSubQGParams]);
+
+  const handleWaveParamChange = useCallback((key: string, value: number) => {
+    setSubQGParams(prev => ({ ...prev, wave_params: { ...prev.wave_params, [key]: value } }), `subQGParams.wave_params.${key}`);
+  }, [setSubQGParams]);
+
+  const handleImageGuidanceChange = useCallback((image_guidance: ImageGuidanceParams) => {
+    setSubQGParams(prev => ({ ...prev, image_guidance }), getChangedFieldKey('subQGParams.image_guidance', subQGParams.image_guidance, image_guidance));
+  }, [setSubQGParams, subQGParams.image_guidance]);
+
+  const handleMatchFieldAspect = useCallback(() => {
+    if (!inputImageDimensions) return;
+    setSubQGParams(prev => ({
+      ...prev,
+      field_h: fitFieldHeightToAspect(prev.field_w, inputImageDimensions.width, inputImageDimensions.height),
+    }));
+  }, [inputImageDimensions, setSubQGParams]);
+
+  const handleSeedChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setSubQGParams(prev => ({ ...prev, seed: normalizeSeed(parseFloat(event.target.value)) }), 'subQGParams.seed');
+  }, [setSubQGParams]);
+
+  const handleNewSeed = useCallback(() => {
+    setSubQGParams(prev => ({ ...prev, seed: generateSeed() }));
+  }, [setSubQGParams]);
+
+  const handleReuseRenderSeed = useCallback(() => {
+    if (!renderInfo) return;
+    const { seed } = renderInfo.settings.subQGParams;
+    setSubQGParams(prev => ({ ...prev, seed }));
+    setRandomizeSeed(false);
+  }, [renderInfo, setSubQGParams]);
+
+  const handleApplyPreset = useCallback((preset: ParameterPreset) => {
+    setSettings(prev => ({ ...prev, subQGParams: preset.subQGParams, transformParams: preset.transformParams }));
+    setPresetName(preset.name);
+  }, [setSettings]);
+
+  const handleUserPresetsChange = useCallback((presets: ParameterPreset[]) => {
+    setUserPresets(presets);
+    try {
+      saveUserPresets(presets);
+    } catch (err) {
+      console.warn("Could not store presets:", err);
+      setErrorMsg("Presets could not be saved in this browser; export them to keep them.");
+    }
+  }, []);
+
+  const handleApplyMask = useCallback((mask: ScalarField) => {
+    setRegionMask(mask);
+    setMaskParams(prev => ({ ...prev, enabled: true }));
+    setIsMaskEditorOpen(false);
+  }, []);
+
+  const handleMaskUpload = useCallback(async (file: File) => {
+    try {
+      const image = await loadImageData(await blobToDataURL(file));
+      setRegionMask(maskFromImage(image));
+      setMaskParams(prev => ({ ...prev, enabled: true }));
+      setErrorMsg("");
+    } catch (err) {
+      console.error("Error loading mask image:", err);
+      setErrorMsg("Could not load the mask image. Please use a PNG, JPEG or WebP file.");
+    }
   }, []);
 
+  // Restores the mask and palette mapping a render used; inputs that were off are switched off.
+  const applyRenderInputs = useCallback(({ mask, paletteMap }: RenderInputs) => {
+    if (mask) {
+      setRegionMask(mask.field);
+      setMaskParams({ enabled: true, invert: mask.invert, feather: mask.feather });
+    } else {
+      setMaskParams(prev => ({ ...prev, enabled: false }));
+    }
+    if (paletteMap) {
+      setTargetPalette({ name: 'Restored palette', colors: paletteMap.target });
+      setPaletteMapParams({ enabled: true, strength: paletteMap.strength, knot_influence: paletteMap.knotInfluence });
+    } else {
+      setPaletteMapParams(prev => ({ ...prev, enabled: false }));
+    }
+  }, []);
+
+  const handleTargetPaletteChange = useCallback((palette: TargetPalette | null) => {
+    setTargetPalette(palette);
+    if (palette) setPaletteMapParams(prev => ({ ...prev, enabled: true }));
+  }, []);
+
+  const handlePaletteFileLoad = useCallback(async (file: File) => {
+    try {
+      handleTargetPaletteChange(parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer())));
+      setErrorMsg("");
+    } catch (err) {
+      console.error("Error loading palette file:", err);
+      setErrorMsg(err instanceof PaletteFileError ? `Could not load the palette: ${err.message}` : "Could not read the palette file.");
+    }
+  }, [handleTargetPaletteChange]);
+
+  const handleReferencePaletteLoad = useCallback(async (file: File) => {
+    try {
+      const { colors } = extractPalette(await loadImageData(await blobToDataURL(file)));
+      handleTargetPaletteChange({ name: file.name, colors: colors.map(({ r, g, b }) => ({ r, g, b })) });
+      setErrorMsg("");
+    } catch (err) {
+      console.error("Error loading reference image:", err);
+      setErrorMsg("Could not load the reference image. Please use a PNG, JPEG or WebP file.");
+    }
+  }, [handleTargetPaletteChange]);
+
   const handleTransformParamChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
-    setTransformParams(prev => ({ ...prev, [name]: parseFloat(value) }));
+    setTransformParams(prev => ({ ...prev, [name]: parseFloat(value) }), `transformParams.${name}`);
+  }, [setTransformParams]);
+
+  const handleFieldResponseChange = useCallback((params: TransformationParams) => {
+    setTransformParams(params, getChangedFieldKey('transformParams', transformParams, params));
+  }, [setTransformParams, transformParams]);
+
+  const loadInputFile = useCallback((file: File) => {
+    setIsLoading(true);
+    setErrorMsg("");
+    setTransformedImageSrc(null);
+    setKnotMapVisualSrc(null);
+    setRiemannStatsDisplay(null);
+    setRenderInfo(null);
+    try {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const imgSrc = e.target?.result as string;
+        setInputImageSrc(imgSrc);
+        setOriginalImageForDisplaySrc(imgSrc); 
+        setInputSource({ kind: 'upload', fileName: file.name });
+        const img = new Image();
+        img.onload = () => {
+          setInputImageDimensions({width: img.width, height: img.height});
+          setIsLoading(false);
+        }
+        img.onerror = () => {
+          setErrorMsg("Could not load image metadata. It might be corrupted or an unsupported format.");
+          setIsLoading(false);
+        }
+        img.src = imgSrc; // This will trigger onload, Image can handle data URLs of SVGs too
+      };
+      reader.readAsDataURL(file);
+    } catch (err) {
+      console.error("Error loading image:", err);
+      setErrorMsg("Failed to load image. Please try another file.");
+      setIsLoading(false);
+    }
   }, []);
 
-  const handleImageUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setIsLoading(true);
-      setErrorMsg("");
-      setTransformedImageSrc(null);
-      setKnotMapVisualSrc(null);
-      setRiemannStatsDisplay(null);
-      try {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const imgSrc = e.target?.result as string;
-          setInputImageSrc(imgSrc);
-          setOriginalImageForDisplaySrc(imgSrc); 
-          const img = new Image();
-          img.onload = () => {
-            setInputImageDimensions({width: img.width, height: img.height});
-            setIsLoading(false);
-          }
-          img.onerror = () => {
-            setErrorMsg("Could not load image metadata. It might be corrupted or an unsupported format.");
-            setIsLoading(false);
-          }
-          img.src = imgSrc; // This will trigger onload, Image can handle data URLs of SVGs too
-        };
-        reader.readAsDataURL(file);
-      } catch (err) {
-        console.error("Error loading image:", err);
-        setErrorMsg("Failed to load image. Please try another file.");
-        setIsLoading(false);
+  // Exported artwork with embedded settings asks whether to restore them; any other image becomes the input.
+  const handleInputFile = useCallback(async (file: File) => {
+    try {
+      const metadata = readArtworkMetadata(new Uint8Array(await file.arrayBuffer()));
+      if (metadata) {
+        setArtworkImport({ file, metadata, warnings: getArtworkRestoreWarnings(metadata, subQGParams, { mask: activeMask, paletteMap: activePaletteMap }), restored: false });
+        setErrorMsg("");
+        return;
+      }
+    } catch (err) {
+      console.warn("Could not read embedded settings:", err);
+      if (err instanceof ArtworkMetadataError) {
+        setArtworkImport(null);
+        loadInputFile(file);
+        setErrorMsg(`The embedded SubQG settings could not be restored, so the image was loaded as a new input. ${err.message}`);
+        return;
       }
     }
+    setArtworkImport(null);
+    loadInputFile(file);
+  }, [loadInputFile, subQGParams, activeMask, activePaletteMap]);
+
+  const handleAddBatchSources = useCallback((sources: BatchSource[]) => {
+    setBatchItems(prev => [...prev, ...sources.map(source => ({ ...source, id: createBatchItemId(), overrides: null, status: 'queued' as const }))]);
   }, []);
 
-  const handleGeminiGenerate = async () => {
-    if (!geminiPrompt.trim()) {
-      setErrorMsg("Please enter a prompt for Gemini image generation.");
+  // Several files go to the batch queue, a single one becomes the input.
+  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 1) {
+      handleAddBatchSources(files.map(file => ({ file, path: file.name })));
+      event.target.value = "";
+    } else if (files.length === 1) {
+      handleInputFile(files[0]);
+    }
+  }, [handleInputFile, handleAddBatchSources]);
+
+  // Dropped folders and several files go to the batch queue, a single file becomes the input.
+  const handleInputDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const sources = await collectDroppedImageFiles(event.dataTransfer);
+    if (sources.length === 1 && sources[0].path === sources[0].file.name) {
+      handleInputFile(sources[0].file);
+    } else if (sources.length > 0) {
+      handleAddBatchSources(sources);
+    } else {
+      setErrorMsg("The dropped items contain no images.");
+    }
+  }, [handleInputFile, handleAddBatchSources]);
+
+  // Fills every slider, the resolution and the seed (one undo step) and restores the region mask and
+  // palette mapping the file records; the image itself is not loaded.
+  const handleRestoreArtworkSettings = useCallback(() => {
+    if (!artworkImport) return;
+    const { metadata } = artworkImport;
+    const inputs = getArtworkRenderInputs(metadata);
+    if (inputs) applyRenderInputs(inputs);
+    setSettings(prev => ({
+      subQGParams: metadata.subQGParams,
+      transformParams: metadata.transformParams,
+      resolution: RESOLUTION_OPTIONS.some(option => option.label === metadata.resolution) ? metadata.resolution : prev.resolution,
+    }));
+    setRandomizeSeed(false);
+    setPresetName(metadata.preset ?? null);
+    setArtworkImport({ ...artworkImport, restored: true });
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }, [artworkImport, setSettings, applyRenderInputs]);
+
+  const handleUseArtworkAsInput = useCallback(() => {
+    if (!artworkImport) return;
+    loadInputFile(artworkImport.file);
+    setArtworkImport(null);
+  }, [artworkImport, loadInputFile]);
+
+  const handleDismissArtworkImport = useCallback(() => {
+    if (artworkImport && !artworkImport.restored && fileInputRef.current) fileInputRef.current.value = "";
+    setArtworkImport(null);
+  }, [artworkImport]);
+
+  const handleProviderSettingsChange = (settings: ImageProviderSettings) => {
+    setProviderSettings(settings);
+    try {
+      saveImageProviderSettings(settings);
+    } catch (err) {
+      console.warn("Could not persist image provider settings:", err);
+    }
+  };
+
+  // Shows `src` as the input image; resolves once its dimensions are known.
+  const applyInputImage = (src: string, source: InputSource): Promise<void> => new Promise((resolve, reject) => {
+    setInputImageSrc(src);
+    setOriginalImageForDisplaySrc(src);
+    setInputSource(source);
+    const img = new Image();
+    img.onload = () => {
+      setInputImageDimensions({ width: img.width, height: img.height });
+      resolve();
+    };
+    img.onerror = () => reject(new Error("Could not load image metadata of the generated candidate."));
+    img.src = src;
+  });
+
+  const candidateSource = (generated: GeneratedCandidates, candidateIndex: number): InputSource => ({
+    ...generated.request,
+    candidateIndex,
+    candidateCount: generated.images.length,
+  });
+
+  const handleGenerateImage = async () => {
+    const provider = getImageProvider(providerSettings.providerId);
+    if (!generationPrompt.trim()) {
+      setErrorMsg(`Please enter a prompt for ${provider.label} image generation.`);
+      return;
+    }
+    if (provider.requiresApiKey && !providerSettings.apiKey.trim()) {
+      setErrorMsg(`${provider.label} requires an API key. Enter it in the provider settings above the prompt.`);
       return;
     }
     setIsLoading(true);
@@ -99,39 +575,61 @@ const App: React.FC = () => {
     setTransformedImageSrc(null);
     setKnotMapVisualSrc(null);
     setRiemannStatsDisplay(null);
+    setRenderInfo(null);
     try {
-      const generatedImageBase64 = await generateImageWithGemini(geminiPrompt);
-      if (generatedImageBase64) {
-        setInputImageSrc(generatedImageBase64);
-        setOriginalImageForDisplaySrc(generatedImageBase64);
-         const img = new Image();
-          img.onload = () => {
-            setInputImageDimensions({width: img.width, height: img.height});
-            setIsLoading(false);
-          }
-          img.onerror = () => {
-            setErrorMsg("Could not load image metadata from Gemini result.");
-            setIsLoading(false);
-          }
-          img.src = generatedImageBase64;
-      } else {
-        setErrorMsg("Gemini did not return an image.");
-        setIsLoading(false);
+      const model = providerSettings.model.trim() || provider.models[0];
+      const aspectRatio = provider.aspectRatios.includes(providerSettings.aspectRatio) ? providerSettings.aspectRatio : undefined;
+      const negative = provider.supportsNegativePrompt && negativePrompt.trim() ? negativePrompt.trim() : undefined;
+      const images = await provider.generate({
+        prompt: generationPrompt,
+        model,
+        apiKey: providerSettings.apiKey.trim(),
+        endpoint: providerSettings.endpoint,
+        count: Math.min(providerSettings.candidateCount, provider.maxImages),
+        aspectRatio: aspectRatio ?? '',
+        negativePrompt: negative ?? '',
+      });
+      if (images.length === 0) {
+        setErrorMsg(`${provider.label} did not return an image.`);
+        return;
       }
+      const generated: GeneratedCandidates = {
+        images,
+        request: { kind: 'generated', providerId: provider.id, model, prompt: generationPrompt, negativePrompt: negative, aspectRatio },
+      };
+      setCandidates(generated);
+      await applyInputImage(images[0], candidateSource(generated, 0));
     } catch (err) {
-      console.error("Error generating image with Gemini:", err);
+      console.error(`Error generating image with ${provider.label}:`, err);
       const error = err as Error;
-      setErrorMsg(`Gemini image generation failed: ${error.message}`);
+      setErrorMsg(`${provider.label} image generation failed: ${error.message}`);
+    } finally {
       setIsLoading(false);
     }
   };
+
+  const handleSelectCandidate = async (index: number) => {
+    if (!candidates) return;
+    setErrorMsg("");
+    setTransformedImageSrc(null);
+    setKnotMapVisualSrc(null);
+    setRiemannStatsDisplay(null);
+    setRenderInfo(null);
+    try {
+      await applyInputImage(candidates.images[index], candidateSource(candidates, index));
+    } catch (err) {
+      setErrorMsg((err as Error).message);
+    }
+  };
   
   const clearInputImage = () => {
     setInputImageSrc(null);
     setOriginalImageForDisplaySrc(null);
     setTransformedImageSrc(null);
     setInputImageDimensions(null);
+    setInputSource(null);
     setRiemannStatsDisplay(null);
+    setRenderInfo(null);
     setKnotMapVisualSrc(null);
     setProcessingTime("");
     setErrorMsg("");
@@ -140,6 +638,91 @@ const App: React.FC = () => {
     }
   };
 
+  const recordHistoryEntry = async (info: RenderInfo, stats: RiemannStats, resultImage: RgbaImage, knotMapVisual: string) => {
+    try {
+      const entry: RenderHistoryEntry = {
+        id: createHistoryEntryId(),
+        createdAt: Date.now(),
+        settings: info.settings,
+        stats,
+        thumbnail: createThumbnailDataURL(resultImage, HISTORY_THUMBNAIL_SIZE),
+        knotMapVisual,
+        knotMap: info.knotMap ?? undefined,
+        image: await imageDataToBlob(resultImage),
+        width: resultImage.width,
+        height: resultImage.height,
+        inputWidth: info.inputWidth,
+        inputHeight: info.inputHeight,
+        inputSource: info.inputSource ?? undefined,
+        palette: info.palette ?? undefined,
+        ensemble: info.ensemble ?? undefined,
+        presetName: info.presetName ?? undefined,
+        inputs: info.inputs ?? undefined,
+      };
+      setHistoryEntries(prev => [entry, ...prev].slice(0, MAX_HISTORY_ENTRIES));
+      setActiveHistoryId(entry.id);
+      await saveHistoryEntry(entry);
+    } catch (err) {
+      // The render itself succeeded; a history failure (e.g. storage quota) must not hide it.
+      console.warn("Could not store render in history:", err);
+    }
+  };
+
+  // Renders `src` with the current settings, shows the result and stores it in the history.
+  const renderInput = async (src: string, source: InputSource | null, seed: number) => {
+    const originalImageData = await loadImageData(src);
+    const currentSubQGParams = { ...subQGParams, seed };
+
+    const selectedResOption = RESOLUTION_OPTIONS.find(opt => opt.label === resolution);
+    const { targetWidth, targetHeight } = resolveTargetSize(selectedResOption, originalImageData.width, originalImageData.height);
+
+    setJobProgress(activeEnsemble
+      ? { stage: 'ensemble', done: 0, total: activeEnsemble.runs }
+      : { stage: 'simulation', done: 0, total: currentSubQGParams.sim_duration });
+    const job = startTransformJob(
+      {
+        image: { width: originalImageData.width, height: originalImageData.height, buffer: originalImageData.data.buffer as ArrayBuffer },
+        subQGParams: currentSubQGParams,
+        transformParams,
+        targetWidth,
+        targetHeight,
+        mask: activeMask,
+        paletteMap: activePaletteMap,
+        ensemble: activeEnsemble,
+        record_simulation: recordSimulation && isRecordingWithinBudget,
+      },
+      setJobProgress
+    );
+    activeJobRef.current = job;
+    const { image, knot_map, stats, palette, ensemble, recording } = await job.promise;
+    activeJobRef.current = null;
+
+    // An ensemble render shows the selected run, which is exactly the single render of that run's seed
+    const renderedSubQGParams = ensemble ? { ...currentSubQGParams, seed: ensemble.seeds[ensemble.selected_run] } : currentSubQGParams;
+    const resultImage: RgbaImage = { width: image.width, height: image.height, data: new Uint8ClampedArray(image.buffer) };
+    const info: RenderInfo = {
+      settings: { subQGParams: renderedSubQGParams, transformParams, resolution },
+      inputWidth: originalImageData.width,
+      inputHeight: originalImageData.height,
+      outputWidth: image.width,
+      outputHeight: image.height,
+      knotMap: knot_map,
+      inputSource: source,
+      palette,
+      ensemble,
+      presetName,
+      inputs: { mask: activeMask, paletteMap: activePaletteMap },
+      recording,
+      image: resultImage,
+    };
+    const knotMapVisual = knotMapToVisualDataURL(knot_map);
+    setRiemannStatsDisplay(stats); // Store raw stats
+    setRenderInfo(info);
+    setKnotMapVisualSrc(knotMapVisual);
+    setTransformedImageSrc(imageDataToDataURL(resultImage));
+    await recordHistoryEntry(info, stats, resultImage, knotMapVisual);
+  };
+
   const handleTransform = async () => {
     if (!inputImageSrc || !inputImageDimensions) {
       setErrorMsg("Please upload or generate an input image first.");
@@ -150,83 +733,567 @@ const App: React.FC = () => {
     setErrorMsg("");
     const startTime = performance.now();
 
+    try {
+      const seed = randomizeSeed ? generateSeed() : subQGParams.seed;
+      if (seed !== subQGParams.seed) {
+        setSubQGParams(prev => ({ ...prev, seed }));
+      }
+      await renderInput(inputImageSrc, inputSource, seed);
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Transformation cancelled.");
+      } else {
+        console.error("Transformation error:", err);
+        const error = err as Error;
+        setErrorMsg(`Transformation failed: ${error.message}`);
+      }
+    } finally {
+      const endTime = performance.now();
+      setProcessingTime(`Processing Time: ${( (endTime - startTime) / 1000).toFixed(2)}s`);
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setIsLoading(false);
+    }
+  };
+
+  // Transforms every generated candidate in turn; each render lands in the history.
+  // With "new random seed" on, each candidate gets its own seed, otherwise all share the current one.
+  const handleTransformAllCandidates = async () => {
+    if (!candidates) return;
+
+    setIsLoading(true);
+    setErrorMsg("");
+    const startTime = performance.now();
+    let seed = subQGParams.seed;
+
+    try {
+      for (let index = 0; index < candidates.images.length; index++) {
+        setQueueLabel(`Candidate ${index + 1} of ${candidates.images.length}`);
+        if (randomizeSeed) seed = generateSeed();
+        const source = candidateSource(candidates, index);
+        await applyInputImage(candidates.images[index], source);
+        await renderInput(candidates.images[index], source, seed);
+      }
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Transformation queue cancelled; finished candidates are in the history.");
+      } else {
+        console.error("Transformation error:", err);
+        setErrorMsg(`Transformation failed: ${(err as Error).message}`);
+      }
+    } finally {
+      if (seed !== subQGParams.seed) {
+        setSubQGParams(prev => ({ ...prev, seed }));
+      }
+      setProcessingTime(`Processing Time: ${((performance.now() - startTime) / 1000).toFixed(2)}s (${candidates.images.length} candidates)`);
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setQueueLabel(null);
+      setIsLoading(false);
+    }
+  };
+
+  const handleRenderAnimation = async () => {
+    if (!inputImageSrc) {
+      setErrorMsg("Please upload or generate an input image first.");
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMsg("");
+    const startTime = performance.now();
+
     try {
       const originalImageData = await loadImageData(inputImageSrc);
+      const selectedResOption = RESOLUTION_OPTIONS.find(opt => opt.label === resolution);
+      const { targetWidth, targetHeight } = resolveTargetSize(selectedResOption, originalImageData.width, originalImageData.height);
+      const animation = animationParams.format === 'webm' && !webmSupported ? { ...animationParams, format: 'gif' as const } : animationParams;
 
-      const field_w = Math.max(32, Math.min(128, Math.floor(originalImageData.width / 8)));
-      const field_h = Math.max(32, Math.min(128, Math.floor(originalImageData.height / 8)));
-      const currentSubQGParams = { ...subQGParams, field_w, field_h };
-      
-      const simulator = new SubQGSimulator(currentSubQGParams);
-      const { knot_map, total_knots } = simulator.runSimulation();
-      const riemannStatsRaw = simulator.analyzeRiemannProjection();
-      
-      setRiemannStatsDisplay(riemannStatsRaw); // Store raw stats
-      setKnotMapVisualSrc(knotMapToVisualDataURL(knot_map));
-
-
-      const mainColors = extractMainColors(originalImageData, CATEGORY_LABELS_ORDERED.length);
-      const categoryActivations = createCategoryActivations(mainColors);
-
-      const resizedKnotMap = resizeKnotMap(knot_map, originalImageData.width, originalImageData.height);
-      
-      let processedImageData = processImageWithSubQG(
-        originalImageData,
-        categoryActivations,
-        transformParams.brightness_factor,
-        transformParams.contrast_factor,
-        resizedKnotMap,
-        riemannStatsRaw.harmony_score
+      const frames: RgbaImage[] = [];
+      setJobProgress({ stage: 'simulation', done: 0, total: subQGParams.sim_duration });
+      const job = startAnimationJob(
+        {
+          image: { width: originalImageData.width, height: originalImageData.height, buffer: originalImageData.data.buffer as ArrayBuffer },
+          subQGParams,
+          transformParams,
+          targetWidth,
+          targetHeight,
+          animation,
+          mask: activeMask,
+          paletteMap: activePaletteMap,
+        },
+        setJobProgress,
+        (frame) => frames.push({ width: frame.width, height: frame.height, data: new Uint8ClampedArray(frame.buffer) })
       );
+      activeJobRef.current = job;
+      const result = await job.promise;
+      activeJobRef.current = null;
+      setJobProgress(null);
+
+      const blob = result.gif
+        ? new Blob([result.gif], { type: 'image/gif' })
+        : await recordWebm(frames, animation.fps); // Plays the frames in real time
+      setAnimationResult(prev => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return {
+          url: URL.createObjectURL(blob),
+          format: result.gif ? 'gif' : 'webm',
+          width: result.width,
+          height: result.height,
+          frameCount: result.frame_count,
+          bytes: blob.size,
+        };
+      });
+      setProcessingTime(`Animation Time: ${((performance.now() - startTime) / 1000).toFixed(2)}s`);
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Animation cancelled.");
+      } else {
+        console.error("Animation error:", err);
+        setErrorMsg(`Animation failed: ${(err as Error).message}`);
+      }
+    } finally {
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setIsLoading(false);
+    }
+  };
 
+  // Renders every sweep cell with the current settings and seed; cells stream in from the worker.
+  const handleRenderSweep = async () => {
+    if (!inputImageSrc) {
+      setErrorMsg("Please upload or generate an input image first.");
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMsg("");
+    const startTime = performance.now();
+
+    try {
+      const originalImageData = await loadImageData(inputImageSrc);
       const selectedResOption = RESOLUTION_OPTIONS.find(opt => opt.label === resolution);
-      let targetWidth = originalImageData.width;
-      let targetHeight = originalImageData.height;
+      const { targetWidth, targetHeight } = resolveTargetSize(selectedResOption, originalImageData.width, originalImageData.height);
+      const sweep = sweepParams;
+
+      const cells: SweepCell[] = [];
+      setJobProgress({ stage: 'cells', done: 0, total: sweep.x.steps * (sweep.y?.steps ?? 1) });
+      const job = startSweepJob(
+        {
+          image: { width: originalImageData.width, height: originalImageData.height, buffer: originalImageData.data.buffer as ArrayBuffer },
+          subQGParams,
+          transformParams,
+          targetWidth,
+          targetHeight,
+          sweep,
+          mask: activeMask,
+          paletteMap: activePaletteMap,
+        },
+        setJobProgress,
+        (cell) => cells.push({ ...cell, image: { width: cell.image.width, height: cell.image.height, data: new Uint8ClampedArray(cell.image.buffer) } })
+      );
+      activeJobRef.current = job;
+      await job.promise;
+      activeJobRef.current = null;
 
-      if (selectedResOption && selectedResOption.width && selectedResOption.height) {
-        targetWidth = selectedResOption.width;
-        targetHeight = selectedResOption.height;
+      setSweepResult({ sweep, cells });
+      setActiveSweepCell(null);
+      setProcessingTime(`Sweep Time: ${((performance.now() - startTime) / 1000).toFixed(2)}s`);
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Parameter sweep cancelled.");
+      } else {
+        console.error("Sweep error:", err);
+        setErrorMsg(`Parameter sweep failed: ${(err as Error).message}`);
       }
-      
-      processedImageData = await applyPostProcessing(processedImageData, riemannStatsRaw.harmony_score, targetWidth, targetHeight);
-      
-      if (processedImageData.width !== targetWidth || processedImageData.height !== targetHeight) {
-         processedImageData = await resizeImageData(processedImageData, targetWidth, targetHeight);
+    } finally {
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setIsLoading(false);
+    }
+  };
+
+  // Loads a sweep cell's parameters; the seed stays fixed so a transform reproduces the cell.
+  const handleApplySweepCell = useCallback((cell: SweepCell) => {
+    setSettings(prev => ({ ...prev, subQGParams: cell.subQGParams, transformParams: cell.transformParams }));
+    setRandomizeSeed(false);
+    setActiveSweepCell(cell);
+  }, [setSettings]);
+
+  // Searches in the worker, then applies the best parameters (one undo step) and keeps the seed they were tuned for.
+  const handleAutoTune = async () => {
+    setIsLoading(true);
+    setErrorMsg("");
+    const startTime = performance.now();
+
+    try {
+      // The image is only read for image guidance
+      const image: RgbaImage = inputImageSrc ? await loadImageData(inputImageSrc) : createRgbaImage(1, 1);
+      setJobProgress({ stage: 'tuning', done: 0, total: autoTuneParams.max_iterations });
+      const job = startAutoTuneJob(
+        {
+          image: { width: image.width, height: image.height, buffer: image.data.buffer as ArrayBuffer },
+          subQGParams,
+          tune: autoTuneParams,
+        },
+        setJobProgress
+      );
+      activeJobRef.current = job;
+      const result = await job.promise;
+      activeJobRef.current = null;
+
+      setAutoTuneResult(result);
+      setSubQGParams(result.best);
+      setRandomizeSeed(false);
+      setProcessingTime(`Auto-Tune Time: ${((performance.now() - startTime) / 1000).toFixed(2)}s`);
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Auto-tuning cancelled.");
+      } else {
+        console.error("Auto-tune error:", err);
+        setErrorMsg(`Auto-tuning failed: ${(err as Error).message}`);
       }
+    } finally {
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setIsLoading(false);
+    }
+  };
 
-      setTransformedImageSrc(imageDataToDataURL(processedImageData));
+  // Metadata of the displayed render as the chosen export format will hold it, for the export dialog.
+  const exportMetadata = useMemo(() => isExportOpen && renderInfo && riemannStatsDisplay
+    ? fitArtworkMetadata(
+        createArtworkMetadata(renderInfo.settings, riemannStatsDisplay, renderInfo.outputWidth, renderInfo.outputHeight, getArtworkRenderContext(renderInfo)),
+        exportParams.format
+      )
+    : null, [isExportOpen, renderInfo, riemannStatsDisplay, exportParams.format]);
 
+  // Re-encodes the displayed artwork in the chosen format; the metadata describes its render.
+  const handleExport = async (fileName: string) => {
+    if (!transformedImageSrc || !renderInfo || !riemannStatsDisplay) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const image = renderInfo.image ?? await loadImageData(transformedImageSrc);
+      const metadata = exportParams.embed_metadata
+        ? createArtworkMetadata(renderInfo.settings, riemannStatsDisplay, image.width, image.height, getArtworkRenderContext(renderInfo))
+        : null;
+      downloadBlob(fileName, await encodeArtwork(image, exportParams, metadata));
+      setIsExportOpen(false);
     } catch (err) {
-      console.error("Transformation error:", err);
-      const error = err as Error;
-      setErrorMsg(`Transformation failed: ${error.message}`);
+      console.error("Export error:", err);
+      setExportError(`Export failed: ${(err as Error).message}`);
     } finally {
-      const endTime = performance.now();
-      setProcessingTime(`Processing Time: ${( (endTime - startTime) / 1000).toFixed(2)}s`);
+      setIsExporting(false);
+    }
+  };
+
+  // Raw knot counts of the displayed render for external analysis tools.
+  const handleExportKnotMap = async (format: KnotMapExportFormat) => {
+    const knotMap = renderInfo?.knotMap;
+    if (!renderInfo || !knotMap) return;
+    const { subQGParams } = renderInfo.settings;
+    const baseName = `subqg_knot-map_seed-${subQGParams.seed}`;
+    setIsKnotMapExporting(true);
+    setKnotMapExportError(null);
+    try {
+      if (format === 'csv') {
+        downloadBlob(`${baseName}.csv`, new Blob([knotMapToCsv(knotMap)], { type: 'text/csv' }));
+      } else if (format === 'json') {
+        downloadBlob(`${baseName}.json`, new Blob([knotMapToJson(knotMap, subQGParams)], { type: 'application/json' }));
+      } else {
+        downloadBlob(`${baseName}.png`, new Blob([await encodeKnotMapPng16(knotMap, subQGParams)], { type: 'image/png' }));
+      }
+    } catch (err) {
+      console.error("Knot map export error:", err);
+      setKnotMapExportError(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setIsKnotMapExporting(false);
+    }
+  };
+
+  // Pins the current settings (incl. seed) to one batch item, or returns it to the batch settings.
+  const handlePinBatchItem = useCallback((id: string) => {
+    const current = settingsHistory.value;
+    setBatchItems(prev => prev.map(item => item.id === id
+      ? { ...item, overrides: item.overrides ? null : current, overridesPreset: item.overrides ? undefined : presetName ?? undefined }
+      : item));
+  }, [settingsHistory.value, presetName]);
+
+  const handleRemoveBatchItem = useCallback((id: string) => {
+    setBatchItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // Renders every queued (or failed) item in order. Items without pinned settings use the settings at
+  // batch start; with "new random seed" on, each of them gets its own seed. The region mask is drawn for
+  // the single input image, so batch items render without it; the palette mapping applies to all. A failing
+  // item does not stop the batch; cancelling returns the running item to the queue.
+  const handleRunBatch = async () => {
+    const pending = batchItems.filter(item => item.status === 'queued' || item.status === 'failed');
+    if (pending.length === 0) return;
+
+    setIsLoading(true);
+    setErrorMsg("");
+    const startTime = performance.now();
+    const batchSettings = settingsHistory.value;
+    const batchPreset = presetName ?? undefined;
+    const exportSettings = exportParams;
+    let finished = 0;
+
+    try {
+      for (const [index, item] of pending.entries()) {
+        setQueueLabel(`Batch item ${index + 1} of ${pending.length}: ${item.path}`);
+        const preset = item.overrides ? item.overridesPreset : batchPreset;
+        const settings = item.overrides ?? {
+          ...batchSettings,
+          subQGParams: { ...batchSettings.subQGParams, seed: randomizeSeed ? generateSeed() : batchSettings.subQGParams.seed },
+        };
+        updateBatchItem(item.id, { status: 'running', error: undefined });
+        try {
+          const originalImageData = await loadImageData(await blobToDataURL(item.file));
+          const selectedResOption = RESOLUTION_OPTIONS.find(opt => opt.label === settings.resolution);
+          const { targetWidth, targetHeight } = resolveTargetSize(selectedResOption, originalImageData.width, originalImageData.height);
+          setJobProgress(activeEnsemble
+            ? { stage: 'ensemble', done: 0, total: activeEnsemble.runs }
+            : { stage: 'simulation', done: 0, total: settings.subQGParams.sim_duration });
+          const job = startTransformJob(
+            {
+              image: { width: originalImageData.width, height: originalImageData.height, buffer: originalImageData.data.buffer as ArrayBuffer },
+              subQGParams: settings.subQGParams,
+              transformParams: settings.transformParams,
+              targetWidth,
+              targetHeight,
+              mask: null,
+              paletteMap: activePaletteMap,
+              ensemble: activeEnsemble,
+            },
+            setJobProgress
+          );
+          activeJobRef.current = job;
+          const { image, stats, ensemble } = await job.promise;
+          activeJobRef.current = null;
+
+          const rendered = ensemble ? { ...settings, subQGParams: { ...settings.subQGParams, seed: ensemble.seeds[ensemble.selected_run] } } : settings;
+          const resultImage: RgbaImage = { width: image.width, height: image.height, data: new Uint8ClampedArray(image.buffer) };
+          const metadata = exportSettings.embed_metadata
+            ? createArtworkMetadata(rendered, stats, image.width, image.height, { preset, inputs: { mask: null, paletteMap: activePaletteMap }, ensemble })
+            : null;
+          updateBatchItem(item.id, {
+            status: 'done',
+            settings: rendered,
+            preset,
+            stats,
+            thumbnail: createThumbnailDataURL(resultImage, BATCH_THUMBNAIL_SIZE),
+            output: await encodeArtwork(resultImage, exportSettings, metadata),
+            outputExtension: EXPORT_FILE_EXTENSIONS[exportSettings.format],
+            width: image.width,
+            height: image.height,
+          });
+          finished++;
+        } catch (err) {
+          if (err instanceof TransformCancelledError) {
+            updateBatchItem(item.id, { status: 'queued' });
+            throw err;
+          }
+          console.error(`Batch item ${item.path} failed:`, err);
+          updateBatchItem(item.id, { status: 'failed', error: (err as Error).message || "Could not load the image." });
+        }
+      }
+    } catch (err) {
+      if (err instanceof TransformCancelledError) {
+        setErrorMsg("Batch cancelled; finished items stay in the queue and can be downloaded.");
+      } else {
+        console.error("Batch error:", err);
+        setErrorMsg(`Batch failed: ${(err as Error).message}`);
+      }
+    } finally {
+      setProcessingTime(`Batch Time: ${((performance.now() - startTime) / 1000).toFixed(2)}s (${finished} of ${pending.length} items)`);
+      activeJobRef.current = null;
+      setJobProgress(null);
+      setQueueLabel(null);
       setIsLoading(false);
     }
   };
 
-  useEffect(() => {
-    if (!process.env.API_KEY) {
-      console.warn("process.env.API_KEY is not set. Gemini features will not work. Ensure your bundler (Vite, Webpack, etc.) is configured to replace this environment variable.");
+  // All finished outputs plus manifest.csv / manifest.json (every item, with its RiemannStats).
+  const handleDownloadBatch = async () => {
+    try {
+      const manifest = createBatchManifest(batchItems);
+      const outputs = await Promise.all(manifest.map(async (entry, index) => {
+        const output = batchItems[index].output;
+        return entry.output && output ? { name: entry.output, data: new Uint8Array(await output.arrayBuffer()) } : null;
+      }));
+      const encoder = new TextEncoder();
+      const zip = createZipArchive([
+        ...outputs.filter((entry): entry is { name: string; data: Uint8Array } => entry !== null),
+        { name: 'manifest.csv', data: encoder.encode(batchManifestToCsv(manifest)) },
+        { name: 'manifest.json', data: encoder.encode(batchManifestToJson(manifest)) },
+      ]);
+      downloadBlob('subqg_batch.zip', zip);
+    } catch (err) {
+      console.error("Batch download error:", err);
+      setErrorMsg(`Could not build the ZIP archive: ${(err as Error).message}`);
     }
+  };
+
+  const handleCancelTransform = useCallback(() => {
+    activeJobRef.current?.cancel();
   }, []);
 
+  const handleRestoreHistoryEntry = useCallback(async (entry: RenderHistoryEntry) => {
+    setSettings(entry.settings);
+    setRandomizeSeed(false); // Restoring means re-rendering with the stored seed
+    setRenderInfo({
+      settings: entry.settings,
+      inputWidth: entry.inputWidth,
+      inputHeight: entry.inputHeight,
+      outputWidth: entry.width,
+      outputHeight: entry.height,
+      knotMap: entry.knotMap ?? null,
+      inputSource: entry.inputSource ?? null,
+      palette: entry.palette ?? null,
+      ensemble: entry.ensemble ?? null,
+      presetName: entry.presetName ?? null,
+      inputs: entry.inputs ?? null,
+      recording: null,
+      image: null,
+    });
+    setRiemannStatsDisplay(entry.stats);
+    setKnotMapVisualSrc(entry.knotMapVisual);
+    setActiveHistoryId(entry.id);
+    setIsComparing(false);
+    if (entry.inputs) {
+      applyRenderInputs(entry.inputs);
+      setErrorMsg("");
+    } else {
+      setErrorMsg("This history entry was stored without its region mask and palette mapping; the current ones were kept, so a re-render may differ.");
+    }
+    try {
+      setTransformedImageSrc(await blobToDataURL(entry.image));
+    } catch (err) {
+      console.error("Could not restore history image:", err);
+      setErrorMsg("Could not load the stored image of this history entry.");
+    }
+  }, [setSettings, applyRenderInputs]);
+
+  const handleDeleteHistoryEntry = useCallback((id: string) => {
+    setHistoryEntries(prev => prev.filter(entry => entry.id !== id));
+    setCompareIds(prev => prev.filter(compareId => compareId !== id));
+    deleteHistoryEntry(id).catch(err => console.warn("Could not delete history entry:", err));
+  }, []);
+
+  const handleClearHistory = useCallback(() => {
+    if (!window.confirm("Delete all stored renders from the history?")) return;
+    setHistoryEntries([]);
+    setCompareIds([]);
+    setActiveHistoryId(null);
+    clearHistoryEntries().catch(err => console.warn("Could not clear history:", err));
+  }, []);
+
+  const handleToggleCompare = useCallback((id: string) => {
+    // Keeps at most two selections; picking a third replaces the older one.
+    setCompareIds(prev => prev.includes(id) ? prev.filter(compareId => compareId !== id) : [...prev, id].slice(-2));
+  }, []);
+
+  useEffect(() => {
+    loadHistoryEntries()
+      .then(entries => setHistoryEntries(prev => mergeHistoryEntries(prev, entries)))
+      .catch(err => console.warn("Could not load render history:", err));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextEditingTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoSettings();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoSettings();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoSettings, redoSettings]);
+
   const getStatsString = (stats: RiemannStats | null): string => {
-    if (!stats) return "No data yet.";
+    if (!stats || !renderInfo) return "No data yet.";
+    const rendered = renderInfo.settings.subQGParams;
     return (
-      `Input Res: ${inputImageDimensions?.width || 'N/A'}x${inputImageDimensions?.height || 'N/A'}\n` +
-      `SubQG Field: ${subQGParams.field_w}x${subQGParams.field_h} (W,H)\n` + // Use current params for display
+      (renderInfo.inputSource ? `Input: ${describeInputSource(renderInfo.inputSource)}\n` : '') +
+      `Input Res: ${renderInfo.inputWidth}x${renderInfo.inputHeight}\n` +
+      `Seed: ${rendered.seed}\n` +
+      (renderInfo.ensemble ? `Ensemble: run ${renderInfo.ensemble.selected_run + 1} of ${renderInfo.ensemble.seeds.length}\n` : '') +
+      `SubQG Field: ${rendered.field_w}x${rendered.field_h} (W,H), ${getWaveModel(rendered.wave_model).label}\n` +
       `Total Knots: ${stats.total_projected_knots}\n` + // total_knots from runSimulation might be more accurate raw count
       `Proj. Re(s) Mean: ${stats.mean_re_s.toFixed(3)}, StdDev: ${stats.std_dev_re_s.toFixed(3)}\n` +
       `Harmony Score: ${stats.harmony_score.toFixed(3)}`
     );
   };
 
+  const comparedPair = compareIds
+    .map(id => historyEntries.find(entry => entry.id === id))
+    .filter((entry): entry is RenderHistoryEntry => entry !== undefined);
+  const comparedEntries = comparedPair.length === 2 ? [comparedPair[0], comparedPair[1]] as [RenderHistoryEntry, RenderHistoryEntry] : null;
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8 flex flex-col">
-      {isLoading && <LoadingSpinner />}
+      {isLoading && <LoadingSpinner progress={jobProgress} queueLabel={queueLabel} onCancel={jobProgress ? handleCancelTransform : undefined} />}
+      {isViewerOpen && originalImageForDisplaySrc && transformedImageSrc && renderInfo && (
+        <ComparisonViewer
+          originalSrc={originalImageForDisplaySrc}
+          transformedSrc={transformedImageSrc}
+          width={renderInfo.outputWidth}
+          height={renderInfo.outputHeight}
+          knotMap={renderInfo.knotMap}
+          onClose={() => setIsViewerOpen(false)}
+        />
+      )}
+      {isExportOpen && renderInfo && riemannStatsDisplay && (
+        <ExportDialog
+          params={exportParams}
+          defaultFileName={getArtworkFileName(exportMetadata ?? createArtworkMetadata(renderInfo.settings, riemannStatsDisplay, renderInfo.outputWidth, renderInfo.outputHeight))}
+          missingInputs={exportMetadata?.missing_inputs ?? []}
+          width={renderInfo.outputWidth}
+          height={renderInfo.outputHeight}
+          webpSupported={webpSupported}
+          isExporting={isExporting}
+          error={exportError}
+          onChange={setExportParams}
+          onExport={handleExport}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {isKnotInspectorOpen && renderInfo?.knotMap && (
+        <KnotMapInspector
+          knotMap={renderInfo.knotMap}
+          seed={renderInfo.settings.subQGParams.seed}
+          params={knotMapView}
+          isExporting={isKnotMapExporting}
+          error={knotMapExportError}
+          onChange={setKnotMapView}
+          onExport={handleExportKnotMap}
+          onClose={() => setIsKnotInspectorOpen(false)}
+        />
+      )}
+      {isMaskEditorOpen && originalImageForDisplaySrc && inputImageDimensions && (
+        <MaskEditor
+          imageSrc={originalImageForDisplaySrc}
+          imageWidth={inputImageDimensions.width}
+          imageHeight={inputImageDimensions.height}
+          initialMask={regionMask}
+          onApply={handleApplyMask}
+          onClose={() => setIsMaskEditorOpen(false)}
+        />
+      )}
+      {isComparing && comparedEntries && (
+        <HistoryCompareDialog entries={comparedEntries} onRestore={handleRestoreHistoryEntry} onClose={() => setIsComparing(false)} />
+      )}
       <header className="mb-6 text-center">
         <h1 className="text-3xl md:text-4xl font-bold text-sky-400">Subquanten-Resonanz Bildtransformation</h1>
         <p className="text-slate-400 mt-2 text-sm md:text-base">Transformiert Bilder tiefgreifend basierend auf SubQG-Simulationen und Farbcharakteristik.</p>
@@ -242,30 +1309,74 @@ const App: React.FC = () => {
         {/* Controls Column */}
         <div className="lg:col-span-1 bg-slate-800 p-4 md:p-6 rounded-lg shadow-xl self-stretch">
           <div className="overflow-y-auto max-h-[calc(100vh-220px)] pr-2"> {/* Added pr-2 for scrollbar space */}
-            <h2 className="text-xl md:text-2xl font-semibold text-sky-500 mb-4 border-b-2 border-slate-700 pb-2">Controls</h2>
+            <div className="flex items-center justify-between mb-4 border-b-2 border-slate-700 pb-2">
+              <h2 className="text-xl md:text-2xl font-semibold text-sky-500">Controls</h2>
+              <div className="flex gap-2">
+                <button onClick={undoSettings} disabled={!settingsHistory.canUndo} title="Undo (Ctrl+Z)" aria-label="Undo parameter change" className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed">↶</button>
+                <button onClick={redoSettings} disabled={!settingsHistory.canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo parameter change" className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed">↷</button>
+              </div>
+            </div>
             
-            <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
+            <div
+              className={`mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md ${isDraggingFile ? 'ring-2 ring-sky-500' : ''}`}
+              onDragOver={(e) => { e.preventDefault(); setIsDraggingFile(true); }}
+              onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+              onDrop={handleInputDrop}
+            >
               <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">1. Input Image</h3>
               <input 
                 type="file" 
                 accept="image/png, image/jpeg, image/gif, image/webp, image/svg+xml, .svg" 
+                multiple
                 onChange={handleImageUpload} 
                 ref={fileInputRef}
                 aria-label="Upload image"
                 className="block w-full text-sm text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-sky-600 file:text-white hover:file:bg-sky-500 cursor-pointer mb-2" 
               />
+              <p className="text-xs text-slate-400 mb-2">Or drop an image here. Exported artwork can restore the settings it was made with; several files or a folder go to the batch queue.</p>
+              {artworkImport && (
+                <ArtworkImportPrompt
+                  fileName={artworkImport.file.name}
+                  metadata={artworkImport.metadata}
+                  warnings={artworkImport.warnings}
+                  restored={artworkImport.restored}
+                  onRestore={handleRestoreArtworkSettings}
+                  onUseAsInput={handleUseArtworkAsInput}
+                  onDismiss={handleDismissArtworkImport}
+                />
+              )}
               <div className="my-2 text-center text-xs text-slate-400">- OR -</div>
+              <ImageProviderControls settings={providerSettings} onChange={handleProviderSettingsChange} />
               <input 
                 type="text" 
-                value={geminiPrompt} 
-                onChange={(e) => setGeminiPrompt(e.target.value)} 
-                placeholder="Enter Gemini prompt" 
-                aria-label="Gemini image prompt"
+                value={generationPrompt} 
+                onChange={(e) => setGenerationPrompt(e.target.value)} 
+                placeholder="Enter image prompt" 
+                aria-label="Image generation prompt"
                 className="w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 mb-2"
               />
-              <button onClick={handleGeminiGenerate} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-semibold py-2 px-3 md:px-4 rounded-md transition duration-150 ease-in-out mb-2 text-sm md:text-base">
-                🖼️ Generate with Gemini
+              {getImageProvider(providerSettings.providerId).supportsNegativePrompt && (
+                <input
+                  type="text"
+                  value={negativePrompt}
+                  onChange={(e) => setNegativePrompt(e.target.value)}
+                  placeholder="Negative prompt (optional)"
+                  aria-label="Negative prompt"
+                  className="w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 mb-2"
+                />
+              )}
+              <button onClick={handleGenerateImage} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-semibold py-2 px-3 md:px-4 rounded-md transition duration-150 ease-in-out mb-2 text-sm md:text-base">
+                🖼️ Generate with {getImageProvider(providerSettings.providerId).label}
               </button>
+              {candidates && (
+                <CandidatePicker
+                  candidates={candidates.images}
+                  selectedIndex={inputSource?.kind === 'generated' && inputImageSrc === candidates.images[inputSource.candidateIndex] ? inputSource.candidateIndex : null}
+                  canTransformAll={!isLoading}
+                  onSelect={handleSelectCandidate}
+                  onTransformAll={handleTransformAllCandidates}
+                />
+              )}
               {inputImageSrc && (
                 <button onClick={clearInputImage} className="w-full bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-3 md:px-4 rounded-md transition duration-150 ease-in-out text-sm md:text-base">
                   Clear Input Image
@@ -273,6 +1384,14 @@ const App: React.FC = () => {
               )}
             </div>
 
+            <PresetManager
+              userPresets={userPresets}
+              subQGParams={subQGParams}
+              transformParams={transformParams}
+              onApply={handleApplyPreset}
+              onUserPresetsChange={handleUserPresetsChange}
+            />
+
             <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
               <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">2. Global Transformation</h3>
               <SliderControl label="Brightness Shift" id="brightness_factor" value={transformParams.brightness_factor} min={-0.6} max={0.6} step={0.02} onChange={handleTransformParamChange} />
@@ -283,19 +1402,86 @@ const App: React.FC = () => {
                   {RESOLUTION_OPTIONS.map(opt => <option key={opt.label} value={opt.label}>{opt.label}</option>)}
                 </select>
               </div>
+              <MaskControls
+                params={maskParams}
+                previewSrc={maskPreviewSrc}
+                canPaint={!!originalImageForDisplaySrc && !!inputImageDimensions}
+                onChange={setMaskParams}
+                onPaint={() => setIsMaskEditorOpen(true)}
+                onUpload={handleMaskUpload}
+                onClear={() => setRegionMask(null)}
+              />
+              <PaletteMapControls
+                params={paletteMapParams}
+                palette={targetPalette}
+                onChange={setPaletteMapParams}
+                onPaletteChange={handleTargetPaletteChange}
+                onLoadFile={handlePaletteFileLoad}
+                onLoadReference={handleReferencePaletteLoad}
+              />
+              <FieldResponseControls params={transformParams} onChange={handleFieldResponseChange} />
             </div>
             
             <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
               <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">3. SubQG Simulator & Riemann</h3>
-              <SliderControl label="Sim Duration" id="sim_duration" value={subQGParams.sim_duration} min={10} max={100} step={5} onChange={handleSubQGParamChange} />
+              <SliderControl label="Field Width" id="field_w" value={subQGParams.field_w} min={FIELD_SIZE_MIN} max={FIELD_SIZE_MAX} step={FIELD_SIZE_STEP} decimals={0} onChange={handleSubQGParamChange} />
+              <SliderControl label="Field Height" id="field_h" value={subQGParams.field_h} min={FIELD_SIZE_MIN} max={FIELD_SIZE_MAX} step={FIELD_SIZE_STEP} decimals={0} onChange={handleSubQGParamChange} />
+              <button onClick={handleMatchFieldAspect} disabled={!inputImageDimensions} className="w-full mb-4 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed">
+                Match field height to image aspect
+              </button>
+              <WaveModelControls
+                modelId={subQGParams.wave_model}
+                params={subQGParams.wave_params}
+                onModelChange={handleWaveModelChange}
+                onParamChange={handleWaveParamChange}
+              />
+              <SliderControl label="Sim Duration" id="sim_duration" value={subQGParams.sim_duration} min={10} max={SIM_DURATION_MAX} step={5} onChange={handleSubQGParamChange} />
               <SliderControl label="Noise Factor" id="noise_factor" value={subQGParams.noise_factor} min={0.0} max={0.25} step={0.01} onChange={handleSubQGParamChange} />
               <SliderControl label="Knot Threshold S" id="threshold_s" value={subQGParams.threshold_s} min={0.60} max={0.90} step={0.01} onChange={handleSubQGParamChange} />
               <SliderControl label="Decimal Precision" id="decimal_precision" value={subQGParams.decimal_precision} min={2} max={4} step={1} onChange={handleSubQGParamChange} />
               <SliderControl label="F_ENERGY" id="f_energy" value={subQGParams.f_energy} min={0.05} max={0.35} step={0.01} onChange={handleSubQGParamChange} />
               <SliderControl label="F_PHASE" id="f_phase" value={subQGParams.f_phase} min={0.05} max={0.35} step={0.001} onChange={handleSubQGParamChange} />
               <SliderControl label="Re(s) Scaling C" id="re_s_scaling_c" value={subQGParams.re_s_scaling_c} min={0.05} max={0.20} step={0.01} onChange={handleSubQGParamChange} />
+              <ImageGuidanceControls guidance={subQGParams.image_guidance} onChange={handleImageGuidanceChange} />
+              <EnsembleControls params={ensembleParams} onChange={setEnsembleParams} />
+              <AutoTuneControls
+                params={autoTuneParams}
+                canRun={!isLoading && (!!inputImageSrc || !subQGParams.image_guidance.enabled)}
+                onChange={setAutoTuneParams}
+                onRun={handleAutoTune}
+              />
+              <div className="mb-4">
+                <label htmlFor="seed" className="block text-sm font-medium text-slate-300 mb-1">Seed</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    id="seed"
+                    min={0}
+                    step={1}
+                    value={subQGParams.seed}
+                    onChange={handleSeedChange}
+                    disabled={randomizeSeed}
+                    className="flex-grow min-w-0 p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50"
+                  />
+                  <button onClick={handleNewSeed} disabled={randomizeSeed} title="Pick a new random seed" aria-label="Pick a new random seed" className="bg-slate-600 hover:bg-slate-500 text-white px-3 rounded-md disabled:opacity-50">🎲</button>
+                </div>
+                <label className="flex items-center mt-2 text-xs text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={randomizeSeed} onChange={(e) => setRandomizeSeed(e.target.checked)} className="mr-2 accent-sky-500" />
+                  New random seed on every transform
+                </label>
+              </div>
             </div>
 
+            <label className="flex items-center mb-3 text-xs text-slate-300 cursor-pointer" title="Keeps the energy and phase fields and the new knots of every simulation step for the timeline below the results">
+              <input type="checkbox" checked={recordSimulation} onChange={(e) => setRecordSimulation(e.target.checked)} className="mr-2 accent-sky-500" />
+              Record simulation steps (timeline)
+            </label>
+            {recordSimulation && !isRecordingWithinBudget && (
+              <p className="text-xs text-amber-300 -mt-2 mb-3">
+                Not recorded: {subQGParams.sim_duration} steps of a {subQGParams.field_w}×{subQGParams.field_h} field would need {(getSimulationRecordingBytes(subQGParams) / 1024 / 1024).toFixed(0)} MB, more than the {SIMULATION_RECORDING_BYTES_MAX / 1024 / 1024} MB limit. Lower Sim Duration or the field size.
+              </p>
+            )}
+
             <button 
               onClick={handleTransform} 
               disabled={isLoading || !inputImageSrc}
@@ -303,6 +1489,35 @@ const App: React.FC = () => {
             >
               🌌 Transform Image 🌌
             </button>
+
+            <div className="mt-6">
+              <AnimationControls
+                animation={animationParams}
+                simDuration={subQGParams.sim_duration}
+                webmSupported={webmSupported}
+                canRender={!isLoading && !!inputImageSrc}
+                onChange={setAnimationParams}
+                onRender={handleRenderAnimation}
+              />
+            </div>
+
+            <SweepControls
+              sweep={sweepParams}
+              params={{ subQGParams, transformParams }}
+              canRender={!isLoading && !!inputImageSrc}
+              onChange={setSweepParams}
+              onRender={handleRenderSweep}
+            />
+            <BatchQueuePanel
+              items={batchItems}
+              canRun={!isLoading}
+              onAdd={handleAddBatchSources}
+              onRun={handleRunBatch}
+              onPin={handlePinBatchItem}
+              onRemove={handleRemoveBatchItem}
+              onClear={() => setBatchItems([])}
+              onDownload={handleDownloadBatch}
+            />
           </div>
         </div>
 
@@ -314,7 +1529,10 @@ const App: React.FC = () => {
               <div className="flex flex-col items-center p-3 bg-slate-700/50 rounded-md">
                 <h3 className="text-md font-semibold text-sky-400 mb-2">Original Input</h3>
                 {originalImageForDisplaySrc ? (
-                  <img src={originalImageForDisplaySrc} alt="Original Input" className="max-w-full max-h-60 md:max-h-72 object-contain rounded-md shadow-md" />
+                  <>
+                    <img src={originalImageForDisplaySrc} alt="Original Input" className="max-w-full max-h-60 md:max-h-72 object-contain rounded-md shadow-md" />
+                    {inputSource && <p className="text-xs text-slate-400 mt-2 text-center break-words">{describeInputSource(inputSource)}</p>}
+                  </>
                 ) : (
                   <div className="w-full h-60 md:h-72 bg-slate-600 rounded-md flex items-center justify-center text-slate-400 text-sm p-2">Upload or generate an image</div>
                 )}
@@ -324,13 +1542,22 @@ const App: React.FC = () => {
                 {transformedImageSrc ? (
                   <>
                     <img src={transformedImageSrc} alt="Transformed Art" className="max-w-full max-h-60 md:max-h-72 object-contain rounded-md shadow-md" />
-                    <a 
-                      href={transformedImageSrc} 
-                      download="transformed_art.png" 
-                      className="mt-3 inline-block bg-green-600 hover:bg-green-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs md:text-sm transition duration-150 ease-in-out"
-                    >
-                      Download Artwork
-                    </a>
+                    <div className="mt-3 flex gap-2">
+                      <button
+                        onClick={() => { setExportError(null); setIsExportOpen(true); }}
+                        disabled={!renderInfo || !riemannStatsDisplay}
+                        className="bg-green-600 hover:bg-green-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs md:text-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Export Artwork…
+                      </button>
+                      <button
+                        onClick={() => setIsViewerOpen(true)}
+                        disabled={!originalImageForDisplaySrc || !renderInfo}
+                        className="bg-sky-600 hover:bg-sky-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs md:text-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        🔍 Compare in Detail
+                      </button>
+                    </div>
                   </>
                 ) : (
                   <div className="w-full h-60 md:h-72 bg-slate-600 rounded-md flex items-center justify-center text-slate-400 text-sm p-2">Result will appear here</div>
@@ -350,17 +1577,90 @@ const App: React.FC = () => {
                   ) : (
                     <div className="w-28 h-28 md:w-32 md:h-32 bg-slate-600 rounded-sm flex items-center justify-center text-slate-400 text-xs p-1">No map data</div>
                   )}
+                  {renderInfo?.knotMap && (
+                    <button
+                      onClick={() => { setKnotMapExportError(null); setIsKnotInspectorOpen(true); }}
+                      className="mt-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out"
+                    >
+                      🔬 Inspect
+                    </button>
+                  )}
               </div>
               <div className="md:col-span-2 p-3 bg-slate-700/50 rounded-md">
                 <h3 className="text-md font-semibold text-sky-400 mb-1">Simulation & Riemann Stats</h3>
                 <HarmonyVisualizer harmonyScore={riemannStatsDisplay?.harmony_score ?? null} />
                 <pre className="text-xs text-slate-300 bg-slate-600 p-2 rounded-md whitespace-pre-wrap h-24 md:h-[calc(theme(space.32)-theme(space.8))] overflow-y-auto">{getStatsString(riemannStatsDisplay)}</pre>
+                {renderInfo && (
+                  <button onClick={handleReuseRenderSeed} className="mt-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out">
+                    Reuse seed {renderInfo.settings.subQGParams.seed}
+                  </button>
+                )}
               </div>
             </div>
+            {renderInfo?.recording && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+                <h3 className="text-md font-semibold text-sky-400 mb-2">Simulation Timeline</h3>
+                <SimulationTimeline recording={renderInfo.recording} />
+              </div>
+            )}
+            {renderInfo?.ensemble && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+                <h3 className="text-md font-semibold text-sky-400 mb-2">Ensemble Statistics</h3>
+                <EnsembleStatsPanel ensemble={renderInfo.ensemble} />
+              </div>
+            )}
+            {renderInfo?.palette && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+                <h3 className="text-md font-semibold text-sky-400 mb-2">Colour Palette</h3>
+                <PaletteSwatches palette={renderInfo.palette} />
+              </div>
+            )}
              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
                 <h3 className="text-md font-semibold text-sky-400 mb-2">Processing Time</h3>
                 <pre className="text-sm text-slate-300 bg-slate-600 p-3 rounded-md whitespace-pre-wrap text-center">{processingTime || "N/A"}</pre>
             </div>
+            {animationResult && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md flex flex-col items-center">
+                <h3 className="text-md font-semibold text-sky-400 mb-2 self-start">Animation</h3>
+                {animationResult.format === 'gif' ? (
+                  <img src={animationResult.url} alt="SubQG animation" className="max-w-full max-h-72 object-contain rounded-md shadow-md" />
+                ) : (
+                  <video src={animationResult.url} autoPlay loop={animationParams.loop} muted playsInline controls className="max-w-full max-h-72 rounded-md shadow-md" />
+                )}
+                <p className="text-xs text-slate-400 mt-2">
+                  {animationResult.width}×{animationResult.height}, {animationResult.frameCount} frames, {(animationResult.bytes / 1024 / 1024).toFixed(2)} MB
+                </p>
+                <a
+                  href={animationResult.url}
+                  download={`subqg_animation.${animationResult.format}`}
+                  className="mt-2 inline-block bg-green-600 hover:bg-green-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs md:text-sm transition duration-150 ease-in-out"
+                >
+                  Download {animationResult.format.toUpperCase()}
+                </a>
+              </div>
+            )}
+            {autoTuneResult && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+                <h3 className="text-md font-semibold text-sky-400 mb-2">Auto-Tune</h3>
+                <AutoTunePanel result={autoTuneResult} />
+              </div>
+            )}
+            {sweepResult && (
+              <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+                <h3 className="text-md font-semibold text-sky-400 mb-2">Parameter Sweep</h3>
+                <SweepGrid sweep={sweepResult.sweep} cells={sweepResult.cells} activeCell={activeSweepCell} onSelect={handleApplySweepCell} />
+              </div>
+            )}
+            <HistoryPanel
+              entries={historyEntries}
+              activeId={activeHistoryId}
+              compareIds={compareIds}
+              onRestore={handleRestoreHistoryEntry}
+              onDelete={handleDeleteHistoryEntry}
+              onToggleCompare={handleToggleCompare}
+              onCompare={() => setIsComparing(true)}
+              onClear={handleClearHistory}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,35 @@
+// Node-side PNG/JPEG decoding and encoding for the CLI. Produces/consumes the same RgbaImage
+// buffers as the browser pipeline.
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { ArtworkMetadata, RgbaImage } from '../types';
+import { embedArtworkMetadata } from '../services/artworkMetadata';
+
+export const SUPPORTED_INPUT_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+export const isSupportedImagePath = (path: string): boolean =>
+  SUPPORTED_INPUT_EXTENSIONS.includes(extname(path).toLowerCase());
+
+export const readImageFile = async (path: string): Promise<RgbaImage> => {
+  const buffer = await readFile(path);
+  const ext = extname(path).toLowerCase();
+  if (ext === '.png') {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length) };
+  }
+  if (ext === '.jpg' || ext === '.jpeg') {
+    const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: new Uint8ClampedArray(decoded.data.buffer, decoded.data.byteOffset, decoded.data.length) };
+  }
+  throw new Error(`Unsupported image format "${ext}" (expected PNG or JPEG): ${path}`);
+};
+
+// With `metadata`, the PNG carries the same provenance text chunks as a browser export.
+export const writePngFile = async (path: string, image: RgbaImage, metadata?: ArtworkMetadata): Promise<void> => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length);
+  const bytes = PNG.sync.write(png);
+  await writeFile(path, metadata ? embedArtworkMetadata(bytes, 'png', metadata) : bytes);
+};
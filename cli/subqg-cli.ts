@@ -0,0 +1,414 @@
+// Headless SubQG transformer: applies the same pipeline as the web UI to PNG/JPEG files or folders.
+//
+//   npm run cli -- <file-or-dir...> [--out dir] [--config params.json] [--resolution preset] [--<param> value]
+//
+import { parseArgs } from 'node:util';
+import { readFile, readdir, stat, mkdir, writeFile } from 'node:fs/promises';
+import { basename, extname, join, resolve } from 'node:path';
+import { SubQGParams, TransformationParams, ParameterPreset, ResolutionOption, WaveModelId, GuidanceChannel, AnimationMode, AnimationParams, RiemannStats, RegionMask, ColorPalette, PaletteMapping, TargetPalette, EnsembleRequest, EnsembleSelection, EnsembleStats } from '../types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, DEFAULT_ANIMATION_PARAMS, ANIMATION_FRAME_COUNT_MAX, RESOLUTION_OPTIONS, FIELD_SIZE_MIN, FIELD_SIZE_MAX, DEFAULT_MASK_PARAMS, MASK_FEATHER_MAX, DEFAULT_PALETTE_MAP_PARAMS, DEFAULT_ENSEMBLE_PARAMS, ENSEMBLE_RUNS_MAX, ENSEMBLE_SELECTIONS } from '../constants';
+import { runTransformPipeline, runAnimationPipeline, resolveTargetSize, resolveAnimationSize } from '../services/pipeline';
+import { createGifEncoder } from '../services/gifEncoder';
+import { normalizeSeed } from '../services/random';
+import { WAVE_MODELS, getDefaultWaveParams } from '../services/waveModels';
+import { GUIDANCE_CHANNEL_LABELS } from '../services/imageGuidance';
+import { maskFromImage } from '../services/regionMask';
+import { extractPalette } from '../services/palette';
+import { parsePaletteFile, PaletteFileError } from '../services/paletteFiles';
+import { createArtworkMetadata } from '../services/artworkMetadata';
+import { validatePreset, PresetValidationError } from '../services/presets';
+import { isSupportedImagePath, readImageFile, writePngFile } from './nodeImageIO';
+
+interface CliConfig {
+  subQGParams: Partial<SubQGParams>;
+  transformParams: Partial<TransformationParams>;
+  resolution?: string;
+}
+
+type NumericSubQGKey = { [K in keyof SubQGParams]: SubQGParams[K] extends number ? K : never }[keyof SubQGParams];
+
+const SUBQG_KEYS = (Object.keys(DEFAULT_SUBQG_PARAMS) as (keyof SubQGParams)[])
+  .filter((key): key is NumericSubQGKey => typeof DEFAULT_SUBQG_PARAMS[key] === 'number');
+const TRANSFORM_KEYS = Object.keys(DEFAULT_TRANSFORMATION_PARAMS) as (keyof TransformationParams)[];
+
+const GUIDANCE_CHANNELS = Object.keys(GUIDANCE_CHANNEL_LABELS) as GuidanceChannel[];
+const ANIMATION_MODES: AnimationMode[] = ['phase_cycle', 'time_steps'];
+
+const USAGE = `Usage: npm run cli -- <file-or-dir...> [options]
+
+Transforms PNG/JPEG images with the SubQG pipeline and writes <name>.subqg.png plus a
+<name>.subqg.json sidecar (parameters, RiemannStats, colour palette and ensemble statistics) for each input.
+Inputs that differ only by extension keep it in the output name (a.png, a.jpg -> a.png.subqg.png, a.jpg.subqg.png).
+The PNG also embeds the parameters and RiemannStats as text chunks, like an export from the web UI.
+
+Options:
+  -o, --out <dir>           Output directory (default: ./subqg-output)
+  -c, --config <file>       JSON file: { "subQGParams": {...}, "transformParams": {...}, "resolution": "..." }
+  -r, --resolution <name>   Resolution preset label (e.g. "Full HD (Landscape, 1080p)"), "original" or WIDTHxHEIGHT
+  -w, --wave_model <id>     Wave model: ${WAVE_MODELS.map(model => model.id).join(', ')}
+  -p, --wave_param <k=v>    Wave model parameter, repeatable (e.g. -p rings=6 -p falloff=0.5)
+      --guide_energy <ch>   Seed the energy field from the image: ${GUIDANCE_CHANNELS.join(', ')}
+      --guide_phase <ch>    Seed the phase field from the image (same channels)
+      --guide_strength <n>  Image guidance strength 0-1 (any --guide_* flag enables guidance)
+  -a, --animate <mode>      Write an animated <name>.subqg.gif instead of a PNG: ${ANIMATION_MODES.join(', ')}
+      --frames <n>          Animation frame count (default ${DEFAULT_ANIMATION_PARAMS.frame_count}, max ${ANIMATION_FRAME_COUNT_MAX})
+      --fps <n>             Animation frame rate (default ${DEFAULT_ANIMATION_PARAMS.fps})
+      --anim_size <px>      Longest animation frame side (default ${DEFAULT_ANIMATION_PARAMS.max_size})
+      --once                Play the GIF once instead of looping
+  -m, --mask <file>         Grayscale region mask (white = transform, black = keep), stretched over every input
+      --mask_invert         Transform the black areas of the mask instead
+      --mask_feather <pct>  Mask softening, % of its shorter side (default ${DEFAULT_MASK_PARAMS.feather}, max ${MASK_FEATHER_MAX})
+      --palette <file>      Palette mapping mode: recolour towards a .gpl/.ase/.json palette or the main colours of a PNG/JPEG
+      --palette_strength <n>        Mapping strength 0-1 (default ${DEFAULT_PALETTE_MAP_PARAMS.strength})
+      --palette_knot_influence <n>  How much the knot field modulates the mapping, 0-1 (default ${DEFAULT_PALETTE_MAP_PARAMS.knot_influence})
+  -e, --ensemble <runs>     Simulate with 2-${ENSEMBLE_RUNS_MAX} seeds, report mean/std-dev/95% CI of the stats and render one run
+      --ensemble_select <s> Run to render: ${ENSEMBLE_SELECTIONS.join(', ')} (default ${DEFAULT_ENSEMBLE_PARAMS.selection})
+      --ensemble_target <n> Target harmony 0-1 for --ensemble_select target (default ${DEFAULT_ENSEMBLE_PARAMS.target_harmony})
+  -h, --help                Show this help
+
+Parameter flags (override the config file):
+${[...SUBQG_KEYS, ...TRANSFORM_KEYS].map(key => `  --${key} <number>`).join('\n')}
+
+field_w/field_h set the simulation grid size (${FIELD_SIZE_MIN}-${FIELD_SIZE_MAX} cells).
+Resolution presets:
+${RESOLUTION_OPTIONS.map(opt => `  "${opt.label}"`).join('\n')}
+`;
+
+class CliError extends Error {}
+
+const parseGuidanceChannel = (flag: string, raw: string): GuidanceChannel => {
+  if (!(GUIDANCE_CHANNELS as string[]).includes(raw)) {
+    throw new CliError(`--${flag} expects one of ${GUIDANCE_CHANNELS.join(', ')}, got "${raw}".`);
+  }
+  return raw as GuidanceChannel;
+};
+
+const parseNumberFlag = (key: string, raw: string): number => {
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new CliError(`--${key} expects a number, got "${raw}".`);
+  }
+  return value;
+};
+
+const resolveResolution = (name: string | undefined): ResolutionOption | undefined => {
+  if (!name || name.toLowerCase() === 'original') return undefined;
+  const preset = RESOLUTION_OPTIONS.find(opt => opt.label.toLowerCase() === name.toLowerCase());
+  if (preset) return preset;
+  const match = /^(\d+)x(\d+)$/i.exec(name.trim());
+  if (match) {
+    const [width, height] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+    if (width < 1 || height < 1) throw new CliError(`Resolution "${name}" needs a width and height of at least 1 pixel.`);
+    return { label: name, width, height };
+  }
+  throw new CliError(`Unknown resolution "${name}". Use a preset label, "original" or WIDTHxHEIGHT.`);
+};
+
+const loadConfigFile = async (path: string): Promise<CliConfig> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'));
+  } catch (err) {
+    throw new CliError(`Could not read config file ${path}: ${(err as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new CliError(`Config file ${path} must contain a JSON object.`);
+  }
+  const { subQGParams = {}, transformParams = {}, resolution } = parsed as Partial<CliConfig>;
+  for (const [key, value] of Object.entries({ subQGParams, transformParams })) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new CliError(`Config file ${path}: "${key}" must be a JSON object.`);
+    }
+  }
+  if (resolution !== undefined && typeof resolution !== 'string') {
+    throw new CliError(`Config file ${path}: "resolution" must be a string.`);
+  }
+  return { subQGParams, transformParams, resolution };
+};
+
+// The merged config and flag values get the same checks as a preset import, so a string or
+// out-of-range value stops the run with a message instead of producing NaN fields.
+const validateParams = (subQGParams: SubQGParams, transformParams: TransformationParams, source: string): ParameterPreset => {
+  try {
+    return validatePreset({ name: source, subQGParams, transformParams }, 'Parameters');
+  } catch (err) {
+    if (err instanceof PresetValidationError) throw new CliError(err.message);
+    throw err;
+  }
+};
+
+const collectInputFiles = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const path = resolve(input);
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new CliError(`Input not found: ${input}`);
+    if (info.isDirectory()) {
+      const entries = (await readdir(path)).sort();
+      files.push(...entries.filter(isSupportedImagePath).map(entry => join(path, entry)));
+    } else if (isSupportedImagePath(path)) {
+      files.push(path);
+    } else {
+      throw new CliError(`Unsupported input file (expected PNG or JPEG): ${input}`);
+    }
+  }
+  return [...new Set(files)];
+};
+
+// Output base name per input: the file name without extension, or with it where two inputs would
+// otherwise share a name. Inputs that still clash (same file name in two folders) are rejected.
+const getOutputNames = (files: string[]): string[] => {
+  const stems = files.map(file => basename(file, extname(file)));
+  const names = files.map((file, index) =>
+    stems.filter(stem => stem.toLowerCase() === stems[index].toLowerCase()).length > 1 ? basename(file) : stems[index]);
+  const taken = new Map<string, string>();
+  names.forEach((name, index) => {
+    const other = taken.get(name.toLowerCase());
+    if (other) {
+      throw new CliError(`${other} and ${files[index]} would both be written as ${name}.subqg.*; rename one of them or process them separately.`);
+    }
+    taken.set(name.toLowerCase(), files[index]);
+  });
+  return names;
+};
+
+const main = async (): Promise<void> => {
+  const paramOptions = Object.fromEntries(
+    [...SUBQG_KEYS, ...TRANSFORM_KEYS].map(key => [key, { type: 'string' as const }])
+  );
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      config: { type: 'string', short: 'c' },
+      resolution: { type: 'string', short: 'r' },
+      wave_model: { type: 'string', short: 'w' },
+      wave_param: { type: 'string', short: 'p', multiple: true },
+      guide_energy: { type: 'string' },
+      guide_phase: { type: 'string' },
+      guide_strength: { type: 'string' },
+      animate: { type: 'string', short: 'a' },
+      frames: { type: 'string' },
+      fps: { type: 'string' },
+      anim_size: { type: 'string' },
+      once: { type: 'boolean' },
+      mask: { type: 'string', short: 'm' },
+      mask_invert: { type: 'boolean' },
+      mask_feather: { type: 'string' },
+      palette: { type: 'string' },
+      palette_strength: { type: 'string' },
+      palette_knot_influence: { type: 'string' },
+      ensemble: { type: 'string', short: 'e' },
+      ensemble_select: { type: 'string' },
+      ensemble_target: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      ...paramOptions,
+    },
+  });
+  const flags = values as Record<string, string | boolean | string[] | undefined>;
+
+  if (flags.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config: CliConfig = flags.config
+    ? await loadConfigFile(flags.config as string)
+    : { subQGParams: {}, transformParams: {} };
+
+  const subQGOverrides: Partial<SubQGParams> = { ...config.subQGParams };
+  for (const key of SUBQG_KEYS) {
+    const raw = flags[key];
+    if (typeof raw === 'string') subQGOverrides[key] = parseNumberFlag(key, raw);
+  }
+  if (typeof flags.wave_model === 'string') {
+    const model = WAVE_MODELS.find(m => m.id === flags.wave_model);
+    if (!model) {
+      throw new CliError(`Unknown wave model "${flags.wave_model}". Available: ${WAVE_MODELS.map(m => m.id).join(', ')}.`);
+    }
+    if (model.id !== (subQGOverrides.wave_model ?? DEFAULT_SUBQG_PARAMS.wave_model)) {
+      subQGOverrides.wave_params = {}; // Parameters of another model don't carry over
+    }
+    subQGOverrides.wave_model = model.id;
+  }
+  const waveModelId: WaveModelId = subQGOverrides.wave_model ?? DEFAULT_SUBQG_PARAMS.wave_model;
+  const waveParams = { ...getDefaultWaveParams(waveModelId), ...subQGOverrides.wave_params };
+  for (const entry of (flags.wave_param as string[] | undefined) ?? []) {
+    const [key, raw] = entry.split('=');
+    if (!(key in waveParams) || raw === undefined) {
+      throw new CliError(`Invalid --wave_param "${entry}" for model ${waveModelId}. Keys: ${Object.keys(waveParams).join(', ')}.`);
+    }
+    waveParams[key] = parseNumberFlag(`wave_param ${key}`, raw);
+  }
+  subQGOverrides.wave_model = waveModelId;
+  subQGOverrides.wave_params = waveParams;
+
+  const imageGuidance = { ...DEFAULT_SUBQG_PARAMS.image_guidance, ...subQGOverrides.image_guidance };
+  if (typeof flags.guide_energy === 'string') {
+    imageGuidance.energy_channel = parseGuidanceChannel('guide_energy', flags.guide_energy);
+    imageGuidance.enabled = true;
+  }
+  if (typeof flags.guide_phase === 'string') {
+    imageGuidance.phase_channel = parseGuidanceChannel('guide_phase', flags.guide_phase);
+    imageGuidance.enabled = true;
+  }
+  if (typeof flags.guide_strength === 'string') {
+    imageGuidance.strength = parseNumberFlag('guide_strength', flags.guide_strength);
+    imageGuidance.enabled = true;
+  }
+  subQGOverrides.image_guidance = imageGuidance;
+
+  if (typeof subQGOverrides.seed === 'number') subQGOverrides.seed = normalizeSeed(subQGOverrides.seed);
+  const mergedTransformParams: TransformationParams = { ...DEFAULT_TRANSFORMATION_PARAMS, ...config.transformParams };
+  for (const key of TRANSFORM_KEYS) {
+    const raw = flags[key];
+    if (typeof raw === 'string') mergedTransformParams[key] = parseNumberFlag(key, raw);
+  }
+  const validated = validateParams(
+    { ...DEFAULT_SUBQG_PARAMS, ...subQGOverrides },
+    mergedTransformParams,
+    flags.config ? basename(flags.config as string) : 'command line'
+  );
+  const transformParams = validated.transformParams;
+  let animation: AnimationParams | null = null;
+  if (typeof flags.animate === 'string') {
+    if (!(ANIMATION_MODES as string[]).includes(flags.animate)) {
+      throw new CliError(`--animate expects one of ${ANIMATION_MODES.join(', ')}, got "${flags.animate}".`);
+    }
+    const positiveInt = (key: string, fallback: number, max = Infinity): number => {
+      const raw = flags[key];
+      if (typeof raw !== 'string') return fallback;
+      const value = parseNumberFlag(key, raw);
+      if (!Number.isInteger(value) || value < 1 || value > max) {
+        throw new CliError(`--${key} must be an integer between 1 and ${max}, got ${raw}.`);
+      }
+      return value;
+    };
+    animation = {
+      ...DEFAULT_ANIMATION_PARAMS,
+      mode: flags.animate as AnimationMode,
+      frame_count: positiveInt('frames', DEFAULT_ANIMATION_PARAMS.frame_count, ANIMATION_FRAME_COUNT_MAX),
+      fps: positiveInt('fps', DEFAULT_ANIMATION_PARAMS.fps, 100),
+      max_size: positiveInt('anim_size', DEFAULT_ANIMATION_PARAMS.max_size, 4096),
+      loop: !flags.once,
+    };
+  }
+  let mask: RegionMask | null = null;
+  if (typeof flags.mask === 'string') {
+    const feather = typeof flags.mask_feather === 'string' ? parseNumberFlag('mask_feather', flags.mask_feather) : DEFAULT_MASK_PARAMS.feather;
+    if (feather < 0 || feather > MASK_FEATHER_MAX) {
+      throw new CliError(`--mask_feather must be between 0 and ${MASK_FEATHER_MAX}, got ${feather}.`);
+    }
+    mask = { field: maskFromImage(await readImageFile(resolve(flags.mask))), invert: !!flags.mask_invert, feather };
+  }
+  let targetPalette: TargetPalette | null = null;
+  let paletteMap: PaletteMapping | null = null;
+  if (typeof flags.palette === 'string') {
+    const unitFlag = (key: 'palette_strength' | 'palette_knot_influence', fallback: number): number => {
+      const raw = flags[key];
+      const value = typeof raw === 'string' ? parseNumberFlag(key, raw) : fallback;
+      if (value < 0 || value > 1) throw new CliError(`--${key} must be between 0 and 1, got ${value}.`);
+      return value;
+    };
+    const strength = unitFlag('palette_strength', DEFAULT_PALETTE_MAP_PARAMS.strength);
+    const knotInfluence = unitFlag('palette_knot_influence', DEFAULT_PALETTE_MAP_PARAMS.knot_influence);
+    const palettePath = resolve(flags.palette);
+    try {
+      targetPalette = isSupportedImagePath(palettePath)
+        ? { name: basename(palettePath), colors: extractPalette(await readImageFile(palettePath)).colors.map(({ r, g, b }) => ({ r, g, b })) }
+        : parsePaletteFile(palettePath, await readFile(palettePath));
+    } catch (err) {
+      if (err instanceof PaletteFileError) throw new CliError(`--palette ${flags.palette}: ${err.message}`);
+      throw err;
+    }
+    paletteMap = { target: targetPalette.colors, strength, knotInfluence };
+  }
+  let ensemble: EnsembleRequest | null = null;
+  if (typeof flags.ensemble === 'string') {
+    if (animation) throw new CliError("--ensemble cannot be combined with --animate.");
+    const runs = parseNumberFlag('ensemble', flags.ensemble);
+    if (!Number.isInteger(runs) || runs < 2 || runs > ENSEMBLE_RUNS_MAX) {
+      throw new CliError(`--ensemble must be an integer between 2 and ${ENSEMBLE_RUNS_MAX}, got ${flags.ensemble}.`);
+    }
+    const selection = (flags.ensemble_select as string | undefined) ?? DEFAULT_ENSEMBLE_PARAMS.selection;
+    if (!(ENSEMBLE_SELECTIONS as string[]).includes(selection)) {
+      throw new CliError(`--ensemble_select expects one of ${ENSEMBLE_SELECTIONS.join(', ')}, got "${selection}".`);
+    }
+    const targetHarmony = typeof flags.ensemble_target === 'string'
+      ? parseNumberFlag('ensemble_target', flags.ensemble_target)
+      : DEFAULT_ENSEMBLE_PARAMS.target_harmony;
+    if (targetHarmony < 0 || targetHarmony > 1) {
+      throw new CliError(`--ensemble_target must be between 0 and 1, got ${targetHarmony}.`);
+    }
+    ensemble = { runs, selection: selection as EnsembleSelection, targetHarmony };
+  }
+  const resolutionOption = resolveResolution((flags.resolution as string | undefined) ?? config.resolution);
+
+  const files = await collectInputFiles(positionals);
+  if (files.length === 0) {
+    throw new CliError("No PNG or JPEG files found in the given inputs.");
+  }
+  const outputNames = getOutputNames(files);
+  const outDir = resolve((flags.out as string | undefined) ?? 'subqg-output');
+  await mkdir(outDir, { recursive: true });
+
+  for (const [index, file] of files.entries()) {
+    const startTime = performance.now();
+    const image = await readImageFile(file);
+    const subQGParams: SubQGParams = { ...validated.subQGParams };
+    const { targetWidth, targetHeight } = resolveTargetSize(resolutionOption, image.width, image.height);
+
+    const name = outputNames[index];
+    const sidecarPath = join(outDir, `${name}.subqg.json`);
+    let imagePath: string;
+    let output: { width: number; height: number; stats: RiemannStats; palette: ColorPalette; ensemble: EnsembleStats | null };
+    if (animation) {
+      const frameSize = resolveAnimationSize(targetWidth, targetHeight, animation.max_size);
+      const encoder = createGifEncoder(frameSize.width, frameSize.height, { delayMs: 1000 / animation.fps, loop: animation.loop });
+      const result = await runAnimationPipeline(image, subQGParams, transformParams, targetWidth, targetHeight, animation, (frame) => encoder.addFrame(frame), undefined, mask, paletteMap);
+      output = { ...result, ensemble: null };
+      imagePath = join(outDir, `${name}.subqg.gif`);
+      await writeFile(imagePath, encoder.finish());
+    } else {
+      const { imageData, stats, palette, ensemble: ensembleStats } = await runTransformPipeline(image, subQGParams, transformParams, targetWidth, targetHeight, undefined, mask, paletteMap, ensemble);
+      if (ensembleStats) subQGParams.seed = ensembleStats.seeds[ensembleStats.selected_run]; // The seed that reproduces the output
+      imagePath = join(outDir, `${name}.subqg.png`);
+      const settings = { subQGParams, transformParams, resolution: resolutionOption?.label ?? 'Original' };
+      await writePngFile(imagePath, imageData, createArtworkMetadata(settings, stats, imageData.width, imageData.height, { inputs: { mask, paletteMap }, ensemble: ensembleStats }));
+      output = { width: imageData.width, height: imageData.height, stats, palette, ensemble: ensembleStats };
+    }
+    const { stats, palette, ensemble: ensembleStats } = output;
+    const sidecar = {
+      source: file,
+      output: imagePath,
+      resolution: resolutionOption?.label ?? 'Original',
+      width: output.width,
+      height: output.height,
+      seed: subQGParams.seed,
+      subQGParams,
+      transformParams,
+      ...(animation ? { animation } : {}),
+      ...(mask ? { mask: { file: resolve(flags.mask as string), invert: mask.invert, feather: mask.feather } } : {}),
+      ...(paletteMap && targetPalette ? { paletteMap: { file: resolve(flags.palette as string), ...targetPalette, strength: paletteMap.strength, knotInfluence: paletteMap.knotInfluence } } : {}),
+      stats,
+      palette,
+      ...(ensembleStats ? { ensemble: ensembleStats } : {}),
+    };
+    await writeFile(sidecarPath, JSON.stringify(sidecar, null, 2) + '\n');
+
+    const seconds = ((performance.now() - startTime) / 1000).toFixed(2);
+    const ensembleNote = ensembleStats
+      ? `, ensemble mean ${ensembleStats.summary.harmony_score.mean.toFixed(3)} ± ${ensembleStats.summary.harmony_score.std_dev.toFixed(3)}`
+      : '';
+    console.log(`[${index + 1}/${files.length}] ${basename(file)} -> ${basename(imagePath)} (harmony ${stats.harmony_score.toFixed(3)}${ensembleNote}, ${seconds}s)`);
+  }
+};
+
+main().catch((err) => {
+  if (err instanceof CliError || (err instanceof TypeError && 'code' in err)) {
+    console.error(`Error: ${err.message}`);
+  } else {
+    console.error(err);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AnimationFormat, AnimationMode, AnimationParams } from '../types';
+import { ANIMATION_FRAME_COUNT_MAX, ANIMATION_SIZE_OPTIONS } from '../constants';
+import SliderControl from './SliderControl';
+
+interface AnimationControlsProps {
+  animation: AnimationParams;
+  simDuration: number;
+  webmSupported: boolean;
+  canRender: boolean;
+  onChange: (animation: AnimationParams) => void;
+  onRender: () => void;
+}
+
+const MODE_LABELS: Record<AnimationMode, string> = {
+  phase_cycle: 'Phase cycle (seamless loop)',
+  time_steps: 'Simulation time steps',
+};
+
+const selectClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+// Settings for rendering the SubQG evolution as a looping GIF or WebM clip.
+const AnimationControls: React.FC<AnimationControlsProps> = ({ animation, simDuration, webmSupported, canRender, onChange, onRender }) => {
+  const update = (patch: Partial<AnimationParams>) => onChange({ ...animation, ...patch });
+  const frameCount = animation.mode === 'time_steps' ? Math.min(animation.frame_count, simDuration) : animation.frame_count;
+  const isGif = animation.format === 'gif';
+
+  return (
+    <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
+      <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">4. Animation</h3>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <label htmlFor="animation_mode" className="block text-xs font-medium text-slate-300 mb-1">Mode</label>
+          <select id="animation_mode" value={animation.mode} onChange={(e) => update({ mode: e.target.value as AnimationMode })} className={selectClassName}>
+            {(Object.keys(MODE_LABELS) as AnimationMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="animation_format" className="block text-xs font-medium text-slate-300 mb-1">Format</label>
+          <select id="animation_format" value={animation.format} onChange={(e) => update({ format: e.target.value as AnimationFormat })} className={selectClassName}>
+            <option value="gif">Animated GIF</option>
+            <option value="webm" disabled={!webmSupported}>WebM video{webmSupported ? '' : ' (unsupported)'}</option>
+          </select>
+        </div>
+      </div>
+      <SliderControl label="Frames" id="animation_frame_count" value={animation.frame_count} min={2} max={ANIMATION_FRAME_COUNT_MAX} step={1} decimals={0} onChange={(e) => update({ frame_count: parseInt(e.target.value, 10) })} />
+      {frameCount < animation.frame_count && (
+        <p className="text-xs text-amber-300 -mt-3 mb-3">Limited to {frameCount} frames by the simulation duration.</p>
+      )}
+      <SliderControl label="FPS" id="animation_fps" value={animation.fps} min={1} max={30} step={1} decimals={0} onChange={(e) => update({ fps: parseInt(e.target.value, 10) })} />
+      <div className="grid grid-cols-2 gap-2 mb-3 items-end">
+        <div>
+          <label htmlFor="animation_size" className="block text-xs font-medium text-slate-300 mb-1">Frame Size (longest side)</label>
+          <select id="animation_size" value={animation.max_size} onChange={(e) => update({ max_size: parseInt(e.target.value, 10) })} className={selectClassName}>
+            {ANIMATION_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </div>
+        {/* WebM has no loop flag; looping is up to the player */}
+        <label className={`flex items-center text-sm text-slate-300 pb-2 ${isGif ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+          <input type="checkbox" checked={animation.loop} disabled={!isGif} onChange={(e) => update({ loop: e.target.checked })} className="mr-2 accent-sky-500" />
+          Loop (GIF only)
+        </label>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        {frameCount} frames at {animation.fps} fps = {(frameCount / animation.fps).toFixed(1)}s. Uses the current seed, so the clip matches the last render.
+      </p>
+      <button
+        onClick={onRender}
+        disabled={!canRender}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        🎞️ Render Animation
+      </button>
+    </div>
+  );
+};
+
+export default AnimationControls;
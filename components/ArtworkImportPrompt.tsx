@@ -0,0 +1,51 @@
+import React from 'react';
+import { ArtworkMetadata } from '../types';
+import { getWaveModel } from '../services/waveModels';
+
+interface ArtworkImportPromptProps {
+  fileName: string;
+  metadata: ArtworkMetadata;
+  warnings: string[];
+  restored: boolean;
+  onRestore: () => void;
+  onUseAsInput: () => void;
+  onDismiss: () => void;
+}
+
+const buttonClassName = "flex-1 text-white font-semibold py-1.5 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+
+// Shown when an image with embedded SubQG settings is loaded: restore its settings or transform it as a new input.
+const ArtworkImportPrompt: React.FC<ArtworkImportPromptProps> = ({ fileName, metadata, warnings, restored, onRestore, onUseAsInput, onDismiss }) => {
+  const { subQGParams, stats } = metadata;
+  const created = metadata.created_at ? new Date(metadata.created_at) : null;
+
+  return (
+    <div className="mb-2 p-3 border border-sky-600 rounded-md bg-slate-800/60" role="status">
+      <p className="text-sm text-slate-200 mb-1">
+        {restored ? <>Settings restored from <span className="font-semibold">{fileName}</span>.</> : <><span className="font-semibold">{fileName}</span> is an exported SubQG artwork.</>}
+      </p>
+      <p className="text-xs text-slate-400 mb-2">
+        Seed {subQGParams.seed} · harmony {stats.harmony_score.toFixed(3)} · {getWaveModel(subQGParams.wave_model).label}
+        {metadata.preset && <> · preset "{metadata.preset}"</>}
+        {metadata.resolution && <> · {metadata.resolution}</>}
+        {created && !Number.isNaN(created.getTime()) && <> · {created.toLocaleString()}</>}
+      </p>
+      {warnings.length > 0 && (
+        <ul className="text-xs text-amber-300 mb-2 list-disc list-inside">
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+      {restored ? (
+        <button onClick={onDismiss} className={`${buttonClassName} w-full bg-slate-600 hover:bg-slate-500`}>Dismiss</button>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={onRestore} className={`${buttonClassName} bg-sky-600 hover:bg-sky-500`} title="Fill every slider, the resolution and the seed from the file">Restore Settings</button>
+          <button onClick={onUseAsInput} className={`${buttonClassName} bg-slate-600 hover:bg-slate-500`}>Use as New Input</button>
+          <button onClick={onDismiss} className={`${buttonClassName} flex-none bg-slate-700 hover:bg-slate-600`} aria-label="Cancel">✕</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtworkImportPrompt;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AutoTuneKey, AutoTuneParams, AutoTuneTarget } from '../types';
+import { AUTO_TUNE_BOUNDS, AUTO_TUNE_ITERATIONS_MAX } from '../constants';
+import SliderControl from './SliderControl';
+
+interface AutoTuneControlsProps {
+  params: AutoTuneParams;
+  canRun: boolean;
+  onChange: (params: AutoTuneParams) => void;
+  onRun: () => void;
+}
+
+const TARGET_LABELS: Record<AutoTuneTarget, string> = {
+  harmony_score: 'Harmony Score',
+  mean_re_s: 'Proj. Re(s) Mean',
+};
+
+const KEY_LABELS: Record<AutoTuneKey, string> = {
+  f_energy: 'F_ENERGY',
+  f_phase: 'F_PHASE',
+  threshold_s: 'Knot Threshold S',
+  noise_factor: 'Noise Factor',
+  re_s_scaling_c: 'Re(s) Scaling C',
+};
+
+const inputClassName = "w-full p-1.5 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-xs";
+
+// Auto-tuner setup: target statistic and value, which fields to search and the iteration/time budget.
+const AutoTuneControls: React.FC<AutoTuneControlsProps> = ({ params, canRun, onChange, onRun }) => {
+  const update = (patch: Partial<AutoTuneParams>) => onChange({ ...params, ...patch });
+  const toggleKey = (key: AutoTuneKey, checked: boolean) => {
+    const keys = checked ? [...params.keys, key] : params.keys.filter(k => k !== key);
+    update({ keys: (Object.keys(AUTO_TUNE_BOUNDS) as AutoTuneKey[]).filter(k => keys.includes(k)) });
+  };
+  const handleBudget = (key: 'max_iterations' | 'time_budget_s', max: number) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(event.target.value, 10);
+    if (Number.isFinite(value)) update({ [key]: Math.min(max, Math.max(1, value)) });
+  };
+
+  return (
+    <div className="mb-4 p-2 border border-slate-600 rounded-md">
+      <p className="text-sm font-medium text-slate-300">Auto-tune</p>
+      <p className="text-xs text-slate-400 mt-1 mb-2">Searches the selected parameters for a simulation that hits the target at the current seed, then applies the best ones.</p>
+      <label htmlFor="auto_tune_target" className="block text-xs font-medium text-slate-300 mb-1">Target</label>
+      <select
+        id="auto_tune_target"
+        value={params.target}
+        onChange={(e) => update({ target: e.target.value as AutoTuneTarget })}
+        className={`${inputClassName} mb-3`}
+      >
+        {(Object.keys(TARGET_LABELS) as AutoTuneTarget[]).map(target => <option key={target} value={target}>{TARGET_LABELS[target]}</option>)}
+      </select>
+      <SliderControl label={`Target ${TARGET_LABELS[params.target]}`} id="auto_tune_target_value" value={params.target_value} min={0} max={1} step={0.01} onChange={(e) => update({ target_value: parseFloat(e.target.value) })} />
+      <div className="grid grid-cols-2 gap-1 mb-3">
+        {(Object.keys(KEY_LABELS) as AutoTuneKey[]).map(key => (
+          <label key={key} className="flex items-center text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={params.keys.includes(key)} onChange={(e) => toggleKey(key, e.target.checked)} className="mr-2 accent-sky-500" />
+            {KEY_LABELS[key]}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="text-xs text-slate-300">
+          Max iterations
+          <input type="number" min={1} max={AUTO_TUNE_ITERATIONS_MAX} value={params.max_iterations} onChange={handleBudget('max_iterations', AUTO_TUNE_ITERATIONS_MAX)} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="text-xs text-slate-300">
+          Time budget (s)
+          <input type="number" min={1} max={600} value={params.time_budget_s} onChange={handleBudget('time_budget_s', 600)} className={`${inputClassName} mt-1`} />
+        </label>
+      </div>
+      <button
+        onClick={onRun}
+        disabled={!canRun || params.keys.length === 0}
+        className="w-full bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1.5 px-3 rounded-md text-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        🎯 Tune Parameters
+      </button>
+    </div>
+  );
+};
+
+export default AutoTuneControls;
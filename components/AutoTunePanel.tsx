@@ -0,0 +1,68 @@
+import React from 'react';
+import { AutoTuneResult, AutoTuneStopReason } from '../types';
+import { AUTO_TUNE_TOLERANCE } from '../constants';
+
+interface AutoTunePanelProps {
+  result: AutoTuneResult;
+}
+
+const STOP_LABELS: Record<AutoTuneStopReason, string> = {
+  converged: 'target reached',
+  iterations: 'iteration budget used up',
+  time: 'time budget used up',
+};
+
+const PLOT_WIDTH = 400;
+const PLOT_HEIGHT = 120;
+
+// Convergence plot (every candidate's value, the best value so far and the target) plus the tuned parameters.
+const AutoTunePanel: React.FC<AutoTunePanelProps> = ({ result }) => {
+  const { params, steps, start, best } = result;
+  const last = steps[steps.length - 1];
+  const values = steps.flatMap(step => [step.value, step.best_value]);
+  const low = Math.min(params.target_value, ...values);
+  const high = Math.max(params.target_value, ...values);
+  const padding = Math.max(0.01, (high - low) * 0.05);
+  const toX = (iteration: number) => iteration / Math.max(1, last.iteration) * PLOT_WIDTH;
+  const toY = (value: number) => PLOT_HEIGHT - (value - low + padding) / (high - low + 2 * padding) * PLOT_HEIGHT;
+  const bestLine = steps.map(step => `${toX(step.iteration)},${toY(step.best_value)}`).join(' ');
+
+  return (
+    <div>
+      <p className="text-xs text-slate-300 mb-2">
+        {params.target} {last.best_value.toFixed(3)} (target {params.target_value.toFixed(2)}, error {last.best_error.toFixed(3)}) after {last.iteration} iterations in {(result.elapsed_ms / 1000).toFixed(1)}s – {STOP_LABELS[result.stop_reason]}.
+        {result.stop_reason !== 'converged' && ` Tolerance is ±${AUTO_TUNE_TOLERANCE}.`}
+      </p>
+      <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32 bg-slate-600 rounded-md" role="img" aria-label="Auto-tune convergence plot">
+        <line x1={0} x2={PLOT_WIDTH} y1={toY(params.target_value)} y2={toY(params.target_value)} className="stroke-amber-300" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        {steps.map(step => <circle key={step.iteration} cx={toX(step.iteration)} cy={toY(step.value)} r={1.5} className="fill-sky-300/60" />)}
+        <polyline points={bestLine} fill="none" className="stroke-emerald-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5">
+        <span>iteration 0</span>
+        <span><span className="text-emerald-400">best</span> · <span className="text-sky-300">candidate</span> · <span className="text-amber-300">target</span></span>
+        <span>{last.iteration}</span>
+      </div>
+      <table className="w-full text-xs text-slate-300 mt-3">
+        <thead>
+          <tr className="text-slate-400 border-b border-slate-600">
+            <th className="text-left font-medium py-1">Parameter</th>
+            <th className="text-right font-medium py-1">Before</th>
+            <th className="text-right font-medium py-1">Tuned</th>
+          </tr>
+        </thead>
+        <tbody>
+          {params.keys.map(key => (
+            <tr key={key} className="border-b border-slate-700">
+              <td className="py-1">{key}</td>
+              <td className="py-1 text-right font-mono">{start[key].toFixed(4)}</td>
+              <td className="py-1 text-right font-mono">{best[key].toFixed(4)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AutoTunePanel;
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import { BatchItem, BatchItemStatus, BatchSource } from '../types';
+import { getWaveModel } from '../services/waveModels';
+import { isImageFile } from '../services/browserImageIO';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  canRun: boolean;
+  onAdd: (sources: BatchSource[]) => void;
+  onRun: () => void;
+  onPin: (id: string) => void; // Pins the current settings to the item, or unpins them
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onDownload: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-slate-400' },
+  running: { label: 'Running…', className: 'text-sky-300' },
+  done: { label: 'Done', className: 'text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+const buttonClassName = "flex-1 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Harmony score as a colour from red (0) to green (1).
+const harmonyColor = (score: number): string => `hsl(${Math.round(score * 120)}, 70%, 65%)`;
+
+// Queue of input images rendered one after another; finished items are downloaded together as a ZIP.
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ items, canRun, onAdd, onRun, onPin, onRemove, onClear, onDownload }) => {
+  const filesRef = useRef<HTMLInputElement>(null);
+  const pending = items.filter(item => item.status === 'queued' || item.status === 'failed').length;
+  const done = items.filter(item => item.status === 'done').length;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter(isImageFile);
+    // Folder picks carry the path below the chosen folder
+    onAdd(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    event.target.value = "";
+  };
+
+  return (
+    <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
+      <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">6. Batch Queue</h3>
+      <p className="text-xs text-slate-400 mb-2">
+        Renders many images with the current settings, or with settings pinned to an item (📌). Select several files or drop a folder onto "1. Input Image". Outputs use the export format. The region mask belongs to the single input image and is not applied to batch items; the palette mapping is.
+      </p>
+      <div className="flex gap-2 mb-2">
+        <button onClick={() => filesRef.current?.click()} className={buttonClassName}>Add Files</button>
+        <label className={`${buttonClassName} text-center cursor-pointer`}>
+          Add Folder
+          <input
+            type="file"
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            onChange={handleFileChange}
+            className="hidden"
+            aria-label="Add a folder of images to the batch"
+          />
+        </label>
+        <button onClick={onClear} disabled={items.length === 0} className={buttonClassName}>Clear</button>
+        <input ref={filesRef} type="file" multiple accept="image/*" onChange={handleFileChange} className="hidden" aria-label="Add images to the batch" />
+      </div>
+      {items.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto mb-2 divide-y divide-slate-600 border border-slate-600 rounded-md">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-2 p-1.5 text-xs">
+              {item.thumbnail ? (
+                <img src={item.thumbnail} alt="" className="w-10 h-10 object-cover rounded-sm flex-shrink-0" />
+              ) : (
+                <div className="w-10 h-10 bg-slate-600 rounded-sm flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-200 truncate" title={item.path}>{item.path}</p>
+                <p>
+                  <span className={STATUS_STYLES[item.status].className}>{STATUS_STYLES[item.status].label}</span>
+                  {item.stats && <span style={{ color: harmonyColor(item.stats.harmony_score) }}> · harmony {item.stats.harmony_score.toFixed(3)}</span>}
+                  {item.error && <span className="text-red-400"> · {item.error}</span>}
+                </p>
+              </div>
+              <button
+                onClick={() => onPin(item.id)}
+                disabled={item.status === 'running'}
+                title={item.overrides
+                  ? `Own settings: seed ${item.overrides.subQGParams.seed}, ${getWaveModel(item.overrides.subQGParams.wave_model).label}, ${item.overrides.resolution}. Click to use the batch settings again.`
+                  : 'Pin the current settings to this item'}
+                className={`px-1.5 py-1 rounded-md ${item.overrides ? 'bg-sky-700 hover:bg-sky-600' : 'bg-slate-600 hover:bg-slate-500 opacity-60'} disabled:cursor-not-allowed`}
+                aria-label={item.overrides ? 'Unpin settings' : 'Pin current settings'}
+              >
+                📌
+              </button>
+              <button onClick={() => onRemove(item.id)} disabled={item.status === 'running'} className="px-1.5 py-1 rounded-md bg-slate-600 hover:bg-red-600 disabled:cursor-not-allowed" aria-label="Remove from batch">✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onRun}
+          disabled={!canRun || pending === 0}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Run Batch ({pending})
+        </button>
+        <button
+          onClick={onDownload}
+          disabled={done === 0}
+          className="flex-1 bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Download ZIP ({done})
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
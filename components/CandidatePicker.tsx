@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface CandidatePickerProps {
+  candidates: string[]; // Data URLs from the last generation
+  selectedIndex: number | null;
+  canTransformAll: boolean;
+  onSelect: (index: number) => void;
+  onTransformAll: () => void;
+}
+
+// Grid of generated candidates: click one to use it as the input image, or transform them all.
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, selectedIndex, canTransformAll, onSelect, onTransformAll }) => (
+  <div className="mb-2">
+    <p className="text-xs text-slate-400 mb-1">Generated candidates – click one to use it as input:</p>
+    <div className="grid grid-cols-2 gap-2">
+      {candidates.map((src, index) => (
+        <button
+          key={index}
+          onClick={() => onSelect(index)}
+          title={`Use candidate ${index + 1} as input`}
+          aria-pressed={selectedIndex === index}
+          className={`relative rounded-md overflow-hidden border-2 ${selectedIndex === index ? 'border-sky-400' : 'border-transparent hover:border-slate-400'}`}
+        >
+          <img src={src} alt={`Candidate ${index + 1}`} className="w-full h-24 object-cover" />
+          <span className="absolute top-1 left-1 bg-slate-900/80 text-slate-100 text-xs px-1.5 rounded">{index + 1}</span>
+        </button>
+      ))}
+    </div>
+    {candidates.length > 1 && (
+      <button
+        onClick={onTransformAll}
+        disabled={!canTransformAll}
+        className="w-full mt-2 bg-sky-700 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-md text-xs md:text-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Transform all {candidates.length} candidates
+      </button>
+    )}
+  </div>
+);
+
+export default CandidatePicker;
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { KnotMap } from '../types';
+import { resizeKnotMap } from '../services/imageUtils';
+import { clamp } from '../services/mathHelpers';
+import SliderControl from './SliderControl';
+
+interface ComparisonViewerProps {
+  originalSrc: string;
+  transformedSrc: string;
+  width: number;  // Output resolution; the original is stretched onto the same pixel grid
+  height: number;
+  knotMap: KnotMap | null;
+  onClose: () => void;
+}
+
+type ViewerMode = 'split' | 'flip';
+
+interface ViewTransform {
+  zoom: number; // Screen (CSS) pixels per image pixel
+  x: number;    // Offset of the image's top-left corner inside the viewport
+  y: number;
+}
+
+const MAX_ZOOM = 32;
+const WHEEL_ZOOM_STEP = 1.15;
+const OVERLAY_COLOR = [255, 64, 200]; // Magenta stands out against most artwork
+
+// Knot density as a coloured alpha mask, so it can be blended over either image.
+const drawKnotOverlay = (canvas: HTMLCanvasElement, knotMap: KnotMap, width: number, height: number) => {
+  const field = resizeKnotMap(knotMap, width, height);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const overlay = ctx.createImageData(width, height);
+  for (let i = 0; i < field.data.length; i++) {
+    const idx = i * 4;
+    overlay.data[idx] = OVERLAY_COLOR[0];
+    overlay.data[idx + 1] = OVERLAY_COLOR[1];
+    overlay.data[idx + 2] = OVERLAY_COLOR[2];
+    overlay.data[idx + 3] = Math.round(field.data[i] * 255);
+  }
+  ctx.putImageData(overlay, 0, 0);
+};
+
+// Full-screen before/after viewer: draggable split line or flip toggle, synchronized zoom/pan
+// down to device pixels, and an optional knot map overlay.
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ originalSrc, transformedSrc, width, height, knotMap, onClose }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, x: 0, y: 0 });
+  const [mode, setMode] = useState<ViewerMode>('split');
+  const [split, setSplit] = useState(0.5); // Fraction of the viewport width
+  const [showTransformed, setShowTransformed] = useState(true); // Flip mode
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.6);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; startView: ViewTransform } | null>(null);
+
+  const fitZoom = viewportSize.width > 0 ? Math.min(viewportSize.width / width, viewportSize.height / height) : 1;
+  const minZoom = Math.min(fitZoom, 1) / 2;
+  const pixelZoom = 1 / (window.devicePixelRatio || 1); // One image pixel per device pixel
+
+  const fitToView = useCallback(() => {
+    setView({ zoom: fitZoom, x: (viewportSize.width - width * fitZoom) / 2, y: (viewportSize.height - height * fitZoom) / 2 });
+  }, [fitZoom, viewportSize, width, height]);
+
+  // Zooms about a point in viewport coordinates (defaults to the centre), keeping that point fixed.
+  const zoomTo = useCallback((zoom: number, anchorX = viewportSize.width / 2, anchorY = viewportSize.height / 2) => {
+    setView(prev => {
+      const next = clamp(zoom, minZoom, MAX_ZOOM);
+      const ratio = next / prev.zoom;
+      return { zoom: next, x: anchorX - (anchorX - prev.x) * ratio, y: anchorY - (anchorY - prev.y) * ratio };
+    });
+  }, [minZoom, viewportSize]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit once the viewport has been measured.
+  const hasFittedRef = useRef(false);
+  useEffect(() => {
+    if (!hasFittedRef.current && viewportSize.width > 0) {
+      hasFittedRef.current = true;
+      fitToView();
+    }
+  }, [viewportSize, fitToView]);
+
+  // Registered natively: React's wheel listener is passive and cannot prevent page scrolling.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      setView(prev => {
+        const anchorX = event.clientX - rect.left;
+        const anchorY = event.clientY - rect.top;
+        const next = clamp(prev.zoom * factor, minZoom, MAX_ZOOM);
+        const ratio = next / prev.zoom;
+        return { zoom: next, x: anchorX - (anchorX - prev.x) * ratio, y: anchorY - (anchorY - prev.y) * ratio };
+      });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [minZoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'Escape': onClose(); break;
+        case 'f': case 'F': setMode('flip'); setShowTransformed(prev => !prev); break;
+        case 's': case 'S': setMode('split'); break;
+        case 'k': case 'K': setShowOverlay(prev => !prev); break;
+        case '0': fitToView(); break;
+        case '1': zoomTo(pixelZoom); break;
+        case '+': case '=': zoomTo(view.zoom * WHEEL_ZOOM_STEP); break;
+        case '-': zoomTo(view.zoom / WHEEL_ZOOM_STEP); break;
+        default: return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, fitToView, zoomTo, pixelZoom, view.zoom]);
+
+  const canOverlay = knotMap !== null && knotMap.width > 0 && knotMap.height > 0;
+  useEffect(() => {
+    if (showOverlay && knotMap && canOverlay && overlayCanvasRef.current) {
+      drawKnotOverlay(overlayCanvasRef.current, knotMap, width, height);
+    }
+  }, [showOverlay, canOverlay, knotMap, width, height]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const isSplitHandle = (event.target as HTMLElement).dataset.splitHandle !== undefined;
+    dragRef.current = { kind: isSplitHandle ? 'split' : 'pan', startX: event.clientX, startY: event.clientY, startView: view };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setSplit(clamp((event.clientX - rect.left) / rect.width, 0, 1));
+    } else {
+      setView({ ...drag.startView, x: drag.startView.x + event.clientX - drag.startX, y: drag.startView.y + event.clientY - drag.startY });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  // Both layers share one transform, so zoom and pan stay synchronized.
+  const stageStyle: React.CSSProperties = useMemo(() => ({
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width,
+    height,
+    transformOrigin: '0 0',
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+    imageRendering: view.zoom >= 1 ? 'pixelated' : 'auto',
+  }), [view, width, height]);
+
+  const renderStage = (src: string, alt: string) => (
+    <div style={stageStyle}>
+      <img src={src} alt={alt} draggable={false} className="block w-full h-full select-none" style={{ imageRendering: 'inherit' }} />
+    </div>
+  );
+
+  const splitX = split * viewportSize.width;
+  const zoomPercent = Math.round(view.zoom * (window.devicePixelRatio || 1) * 100);
+  const buttonClassName = "bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+  const activeClassName = "bg-sky-600 hover:bg-sky-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-slate-900" role="dialog" aria-modal="true" aria-label="Before/after comparison">
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-800 border-b border-slate-700">
+        <h2 className="text-lg font-semibold text-sky-500 mr-2">Compare</h2>
+        <button onClick={() => setMode('split')} className={mode === 'split' ? activeClassName : buttonClassName} title="Split view (S)">Split</button>
+        <button
+          onClick={() => { setMode('flip'); setShowTransformed(prev => mode === 'flip' ? !prev : prev); }}
+          className={mode === 'flip' ? activeClassName : buttonClassName}
+          title="Flip between the images (F)"
+        >
+          Flip{mode === 'flip' ? `: ${showTransformed ? 'Transformed' : 'Original'}` : ''}
+        </button>
+        <span className="w-px h-5 bg-slate-600 mx-1" />
+        <button onClick={fitToView} className={buttonClassName} title="Fit to window (0)">Fit</button>
+        <button onClick={() => zoomTo(pixelZoom)} className={buttonClassName} title="One image pixel per screen pixel (1)">1:1</button>
+        <button onClick={() => zoomTo(view.zoom / WHEEL_ZOOM_STEP)} className={buttonClassName} aria-label="Zoom out">−</button>
+        <button onClick={() => zoomTo(view.zoom * WHEEL_ZOOM_STEP)} className={buttonClassName} aria-label="Zoom in">+</button>
+        <span className="text-xs text-slate-300 w-14 text-right">{zoomPercent}%</span>
+        <span className="w-px h-5 bg-slate-600 mx-1" />
+        <label className={`flex items-center text-xs text-slate-300 ${canOverlay ? 'cursor-pointer' : 'opacity-50'}`} title="Blend the upscaled knot map on top (K)">
+          <input type="checkbox" checked={showOverlay} disabled={!canOverlay} onChange={(e) => setShowOverlay(e.target.checked)} className="mr-2 accent-sky-500" />
+          Knot map overlay
+        </label>
+        {showOverlay && canOverlay && (
+          <div className="w-40 -mb-4">
+            <SliderControl label="Opacity" id="overlay_opacity" value={overlayOpacity} min={0.1} max={1} step={0.05} onChange={(e) => setOverlayOpacity(parseFloat(e.target.value))} />
+          </div>
+        )}
+        <button onClick={onClose} className="ml-auto bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-sm">Close</button>
+      </div>
+      <div
+        ref={viewportRef}
+        className="relative flex-grow overflow-hidden cursor-grab active:cursor-grabbing touch-none bg-[repeating-conic-gradient(#1e293b_0%_25%,#0f172a_0%_50%)] bg-[length:24px_24px]"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={fitToView}
+      >
+        {mode === 'split' ? (
+          <>
+            {renderStage(originalSrc, "Original input")}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${splitX}px)` }}>
+              {renderStage(transformedSrc, "Transformed artwork")}
+            </div>
+            <div
+              data-split-handle=""
+              className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+              style={{ left: splitX }}
+              role="separator"
+              aria-label="Split position"
+              aria-valuenow={Math.round(split * 100)}
+            >
+              <div data-split-handle="" className="w-0.5 h-full bg-sky-400 shadow-[0_0_4px_rgba(0,0,0,0.8)]" />
+            </div>
+            <span className="absolute top-2 left-2 text-xs bg-slate-900/70 text-slate-200 px-2 py-0.5 rounded pointer-events-none">Original</span>
+            <span className="absolute top-2 right-2 text-xs bg-slate-900/70 text-slate-200 px-2 py-0.5 rounded pointer-events-none">Transformed</span>
+          </>
+        ) : (
+          <>
+            {renderStage(showTransformed ? transformedSrc : originalSrc, showTransformed ? "Transformed artwork" : "Original input")}
+            <span className="absolute top-2 left-2 text-xs bg-slate-900/70 text-slate-200 px-2 py-0.5 rounded pointer-events-none">
+              {showTransformed ? 'Transformed' : 'Original'}
+            </span>
+          </>
+        )}
+        {showOverlay && canOverlay && (
+          <div style={stageStyle} className="pointer-events-none">
+            <canvas
+              ref={overlayCanvasRef}
+              className="block w-full h-full"
+              style={{ opacity: overlayOpacity, imageRendering: 'inherit' }}
+            />
+          </div>
+        )}
+      </div>
+      <p className="px-3 py-1 text-[11px] text-slate-500 bg-slate-800">
+        Drag to pan · wheel to zoom · drag the blue line to move the split · double-click to fit · F flip · K overlay · Esc close
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { EnsembleParams, EnsembleSelection } from '../types';
+import { ENSEMBLE_RUNS_MAX, ENSEMBLE_RUNS_MIN } from '../constants';
+import SliderControl from './SliderControl';
+
+interface EnsembleControlsProps {
+  params: EnsembleParams;
+  onChange: (params: EnsembleParams) => void;
+}
+
+const SELECTION_LABELS: Record<EnsembleSelection, string> = {
+  median: 'Median run',
+  target: 'Closest to target harmony',
+};
+
+// Ensemble mode: simulate with several seeds, report the spread and render one chosen run.
+const EnsembleControls: React.FC<EnsembleControlsProps> = ({ params, onChange }) => {
+  const update = (patch: Partial<EnsembleParams>) => onChange({ ...params, ...patch });
+
+  return (
+    <div className="mt-4 mb-4 p-2 border border-slate-600 rounded-md">
+      <label className="flex items-center text-sm font-medium text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={params.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="mr-2 accent-sky-500" />
+        Ensemble mode
+      </label>
+      <p className="text-xs text-slate-400 mt-1 mb-2">Runs the simulation with several seeds and reports mean, spread and confidence interval of every statistic. Transform only.</p>
+      {params.enabled && (
+        <>
+          <SliderControl label="Runs" id="ensemble_runs" value={params.runs} min={ENSEMBLE_RUNS_MIN} max={ENSEMBLE_RUNS_MAX} step={1} decimals={0} onChange={(e) => update({ runs: parseInt(e.target.value, 10) })} />
+          <label htmlFor="ensemble_selection" className="block text-xs font-medium text-slate-300 mb-1">Render</label>
+          <select
+            id="ensemble_selection"
+            value={params.selection}
+            onChange={(e) => update({ selection: e.target.value as EnsembleSelection })}
+            className="w-full mb-3 p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          >
+            {(Object.keys(SELECTION_LABELS) as EnsembleSelection[]).map(selection => <option key={selection} value={selection}>{SELECTION_LABELS[selection]}</option>)}
+          </select>
+          {params.selection === 'target' && (
+            <SliderControl label="Target Harmony" id="ensemble_target_harmony" value={params.target_harmony} min={0} max={1} step={0.01} onChange={(e) => update({ target_harmony: parseFloat(e.target.value) })} />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EnsembleControls;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { EnsembleStats, RiemannStatKey } from '../types';
+import { RE_S_TARGET, RE_S_TARGET_RADIUS } from '../constants';
+import { RIEMANN_STAT_KEYS } from '../services/ensemble';
+
+interface EnsembleStatsPanelProps {
+  ensemble: EnsembleStats;
+}
+
+const STAT_LABELS: Record<RiemannStatKey, string> = {
+  harmony_score: 'Harmony Score',
+  mean_re_s: 'Proj. Re(s) Mean',
+  median_re_s: 'Proj. Re(s) Median',
+  std_dev_re_s: 'Proj. Re(s) StdDev',
+  count_near_0_5: `Knots near ${RE_S_TARGET}`,
+  total_projected_knots: 'Total Knots',
+  internal_prescale_factor_used: 'Prescale Factor',
+};
+
+const COUNT_KEYS: RiemannStatKey[] = ['count_near_0_5', 'total_projected_knots'];
+
+const HISTOGRAM_HEIGHT = 100;
+
+// Ensemble summary: per-statistic mean / std-dev / 95% CI, the pooled Re(s) histogram with the target
+// band, and the harmony score of every run with the rendered one highlighted.
+const EnsembleStatsPanel: React.FC<EnsembleStatsPanelProps> = ({ ensemble }) => {
+  const { summary, histogram, harmony_scores, seeds, selected_run } = ensemble;
+  const bins = histogram.counts.length;
+  const peak = Math.max(1, ...histogram.counts);
+  const toBinX = (value: number) => (value - histogram.min) / (histogram.max - histogram.min) * bins;
+  const bandStart = toBinX(RE_S_TARGET - RE_S_TARGET_RADIUS);
+  const bandEnd = toBinX(RE_S_TARGET + RE_S_TARGET_RADIUS);
+
+  return (
+    <div>
+      <p className="text-xs text-slate-400 mb-2">
+        {harmony_scores.length} runs · rendered run {selected_run + 1} (seed {seeds[selected_run]}),{' '}
+        {ensemble.selection === 'median' ? 'median harmony' : `closest to harmony ${ensemble.target_harmony.toFixed(2)}`}
+      </p>
+      <table className="w-full text-xs text-slate-300 mb-3">
+        <thead>
+          <tr className="text-slate-400 border-b border-slate-600">
+            <th className="text-left font-medium py-1">Statistic</th>
+            <th className="text-right font-medium py-1">Mean</th>
+            <th className="text-right font-medium py-1">Std-Dev</th>
+            <th className="text-right font-medium py-1">95% CI</th>
+          </tr>
+        </thead>
+        <tbody>
+          {RIEMANN_STAT_KEYS.map(key => {
+            const { mean, std_dev, ci_low, ci_high } = summary[key];
+            const decimals = COUNT_KEYS.includes(key) ? 1 : 3;
+            return (
+              <tr key={key} className="border-b border-slate-700">
+                <td className="py-1">{STAT_LABELS[key]}</td>
+                <td className="py-1 text-right font-mono">{mean.toFixed(decimals)}</td>
+                <td className="py-1 text-right font-mono">{std_dev.toFixed(decimals)}</td>
+                <td className="py-1 text-right font-mono">{ci_low.toFixed(decimals)} – {ci_high.toFixed(decimals)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h4 className="text-xs font-semibold text-slate-300 mb-1">Projected Re(s), all runs</h4>
+      <svg viewBox={`0 0 ${bins} ${HISTOGRAM_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-slate-600 rounded-md" role="img" aria-label="Histogram of projected Re(s) values">
+        <rect x={bandStart} y={0} width={bandEnd - bandStart} height={HISTOGRAM_HEIGHT} className="fill-amber-400/25" />
+        {histogram.counts.map((count, bin) => {
+          const height = count / peak * HISTOGRAM_HEIGHT;
+          return <rect key={bin} x={bin + 0.1} y={HISTOGRAM_HEIGHT - height} width={0.8} height={height} className="fill-sky-400" />;
+        })}
+        <line x1={toBinX(RE_S_TARGET)} x2={toBinX(RE_S_TARGET)} y1={0} y2={HISTOGRAM_HEIGHT} className="stroke-amber-300" strokeWidth={0.15} />
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5">
+        <span>{histogram.min.toFixed(3)}</span>
+        <span className="text-amber-300">{RE_S_TARGET} ± {RE_S_TARGET_RADIUS}</span>
+        <span>{histogram.max.toFixed(3)}</span>
+      </div>
+
+      <h4 className="text-xs font-semibold text-slate-300 mt-3 mb-1">Harmony score per run</h4>
+      <div className="relative h-6 bg-slate-600 rounded-md">
+        {ensemble.selection === 'target' && (
+          <div className="absolute top-0 bottom-0 w-px bg-amber-300" style={{ left: `${ensemble.target_harmony * 100}%` }} title={`Target ${ensemble.target_harmony.toFixed(2)}`} />
+        )}
+        {harmony_scores.map((score, run) => (
+          <div
+            key={run}
+            className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full ${run === selected_run ? 'w-3 h-3 bg-emerald-400 ring-2 ring-emerald-200' : 'w-2 h-2 bg-sky-300/70'}`}
+            style={{ left: `${score * 100}%` }}
+            title={`Run ${run + 1} (seed ${seeds[run]}): ${score.toFixed(3)}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5">
+        <span>0</span>
+        <span>1</span>
+      </div>
+    </div>
+  );
+};
+
+export default EnsembleStatsPanel;
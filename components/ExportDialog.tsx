@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportParams } from '../types';
+import { EXPORT_FILE_EXTENSIONS } from '../services/artworkMetadata';
+import SliderControl from './SliderControl';
+
+interface ExportDialogProps {
+  params: ExportParams;
+  defaultFileName: string; // Without extension
+  missingInputs: string[]; // Render inputs the embedded metadata cannot hold
+  width: number;
+  height: number;
+  webpSupported: boolean;
+  isExporting: boolean;
+  error: string | null;
+  onChange: (params: ExportParams) => void;
+  onExport: (fileName: string) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG (8 bit, lossless)',
+  png16: 'PNG (8-bit data in a 16-bit file)',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+const selectClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+// Format, quality, file name and metadata options for downloading the displayed artwork.
+const ExportDialog: React.FC<ExportDialogProps> = ({ params, defaultFileName, missingInputs, width, height, webpSupported, isExporting, error, onChange, onExport, onClose }) => {
+  const [fileName, setFileName] = useState(defaultFileName);
+  const update = (patch: Partial<ExportParams>) => onChange({ ...params, ...patch });
+  const isLossy = params.format === 'jpeg' || params.format === 'webp';
+  const extension = EXPORT_FILE_EXTENSIONS[params.format];
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/90 p-4" role="dialog" aria-modal="true" aria-label="Export artwork">
+      <div className="bg-slate-800 rounded-lg shadow-xl w-full max-w-md max-h-full overflow-y-auto p-4 md:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-sky-500">Export Artwork</h2>
+          <button onClick={onClose} className="bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-sm">Close</button>
+        </div>
+        <p className="text-xs text-slate-400 mb-3">{width}×{height} pixels</p>
+        <div className="mb-3">
+          <label htmlFor="export_format" className="block text-xs font-medium text-slate-300 mb-1">Format</label>
+          <select id="export_format" value={params.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} className={selectClassName}>
+            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <option key={format} value={format} disabled={format === 'webp' && !webpSupported}>
+                {FORMAT_LABELS[format]}{format === 'webp' && !webpSupported ? ' (unsupported)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        {params.format === 'png16' && (
+          <p className="text-xs text-slate-400 -mt-1 mb-3">The image is rendered with 8 bit per channel; this file only stores the same values scaled to 16 bit, so it is larger without adding precision. Use it for tools that require 16-bit input.</p>
+        )}
+        {params.format === 'jpeg' && (
+          <p className="text-xs text-slate-400 -mt-1 mb-3">JPEG has no transparency; transparent areas become black.</p>
+        )}
+        {isLossy && (
+          <SliderControl label="Quality" id="export_quality" value={params.quality} min={0.5} max={1} step={0.01} onChange={(e) => update({ quality: parseFloat(e.target.value) })} />
+        )}
+        <div className="mb-3">
+          <label htmlFor="export_file_name" className="block text-xs font-medium text-slate-300 mb-1">File Name</label>
+          <div className="flex items-center gap-1">
+            <input
+              id="export_file_name"
+              type="text"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              className="flex-1 min-w-0 p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-sm"
+            />
+            <span className="text-sm text-slate-400">.{extension}</span>
+          </div>
+        </div>
+        <label className="flex items-center text-sm text-slate-300 cursor-pointer mb-1">
+          <input type="checkbox" checked={params.embed_metadata} onChange={(e) => update({ embed_metadata: e.target.checked })} className="mr-2 accent-sky-500" />
+          Embed settings and stats
+        </label>
+        <p className="text-xs text-slate-400 mb-4">
+          Stores the SubQG and transformation parameters (incl. seed), the region mask, palette mapping and the Riemann stats in the file ({params.format.startsWith('png') ? 'PNG text chunks and XMP' : 'XMP'}), so the artwork can be reproduced.
+        </p>
+        {params.embed_metadata && missingInputs.length > 0 && (
+          <p className="text-xs text-amber-300 -mt-3 mb-4">
+            The file cannot reproduce this render: it will not hold the {missingInputs.join(' and ')}.
+          </p>
+        )}
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+        <button
+          onClick={() => onExport(`${fileName.trim() || defaultFileName}.${extension}`)}
+          disabled={isExporting}
+          className="w-full bg-green-600 hover:bg-green-500 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? 'Encoding…' : 'Download'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { TransformationParams } from '../types';
+import { DEFAULT_TRANSFORMATION_PARAMS } from '../constants';
+import SliderControl from './SliderControl';
+
+type ProfileKey = Exclude<keyof TransformationParams, 'brightness_factor' | 'contrast_factor'>;
+
+interface ProfileControl {
+  key: ProfileKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface FieldResponseControlsProps {
+  params: TransformationParams;
+  onChange: (params: TransformationParams) => void;
+}
+
+const PROFILE_GROUPS: { title: string; controls: ProfileControl[] }[] = [
+  {
+    title: 'Colour category activations',
+    controls: [
+      { key: 'activation_brightness', label: 'Brightness per Activation', min: 0, max: 0.5, step: 0.01 },
+      { key: 'activation_contrast', label: 'Contrast per Activation', min: 0, max: 0.5, step: 0.01 },
+    ],
+  },
+  {
+    title: 'Wave field',
+    controls: [
+      { key: 'wave_freq_x_base', label: 'Frequency X Base', min: 0, max: 12, step: 0.1 },
+      { key: 'wave_freq_x_harmony', label: 'Frequency X per Harmony', min: 0, max: 12, step: 0.1 },
+      { key: 'wave_freq_y_base', label: 'Frequency Y Base', min: 0, max: 12, step: 0.1 },
+      { key: 'wave_freq_y_harmony', label: 'Frequency Y per Harmony', min: 0, max: 12, step: 0.1 },
+      { key: 'knot_phase_influence', label: 'Knot Phase Influence', min: 0, max: 2 * Math.PI, step: 0.01 },
+      { key: 'field_color_modulation', label: 'Colour Modulation', min: 0, max: 0.6, step: 0.01 },
+      { key: 'field_saturation_ratio', label: 'Saturation Share', min: 0, max: 2, step: 0.05 },
+      { key: 'field_brightness_variation', label: 'Brightness Variation', min: 0, max: 0.4, step: 0.01 },
+    ],
+  },
+  {
+    title: 'Colour mood',
+    controls: [
+      { key: 'color_temp_range', label: 'Temperature Range', min: 0, max: 1, step: 0.01 },
+      { key: 'saturation_range', label: 'Saturation Range', min: 0, max: 1, step: 0.01 },
+      { key: 'warm_shift_r', label: 'Warm Shift R', min: 0, max: 0.6, step: 0.01 },
+      { key: 'warm_shift_g', label: 'Warm Shift G', min: 0, max: 0.6, step: 0.01 },
+      { key: 'warm_shift_b', label: 'Warm Shift B (−)', min: 0, max: 0.6, step: 0.01 },
+      { key: 'cool_shift_r', label: 'Cool Shift R', min: 0, max: 0.6, step: 0.01 },
+      { key: 'cool_shift_b', label: 'Cool Shift B (+)', min: 0, max: 0.6, step: 0.01 },
+    ],
+  },
+  {
+    title: 'Post-processing',
+    controls: [
+      { key: 'post_enhance_threshold', label: 'Enhance above Harmony', min: 0, max: 1, step: 0.01 },
+      { key: 'post_enhance_contrast', label: 'Enhance Contrast', min: 0.8, max: 1.5, step: 0.01 },
+      { key: 'post_enhance_saturation', label: 'Enhance Saturation', min: 0.8, max: 1.5, step: 0.01 },
+      { key: 'post_soften_threshold', label: 'Soften below Harmony', min: 0, max: 1, step: 0.01 },
+      { key: 'post_blur_scale', label: 'Blur Scale', min: 0, max: 5, step: 0.1 },
+      { key: 'post_blur_max', label: 'Blur Max', min: 0, max: 8, step: 0.1 },
+    ],
+  },
+];
+
+const PROFILE_KEYS = PROFILE_GROUPS.flatMap(group => group.controls.map(control => control.key));
+
+// Collapsible "advanced" panel exposing every tunable of the pixel transform and post-processing.
+// The defaults reproduce the original look.
+const FieldResponseControls: React.FC<FieldResponseControlsProps> = ({ params, onChange }) => {
+  const changedCount = PROFILE_KEYS.filter(key => params[key] !== DEFAULT_TRANSFORMATION_PARAMS[key]).length;
+
+  const handleReset = () => {
+    const defaults = Object.fromEntries(PROFILE_KEYS.map(key => [key, DEFAULT_TRANSFORMATION_PARAMS[key]]));
+    onChange({ ...params, ...defaults });
+  };
+
+  return (
+    <details className="mt-4 p-2 border border-slate-600 rounded-md">
+      <summary className="text-sm font-medium text-slate-300 cursor-pointer select-none">
+        Advanced: Field Response{changedCount > 0 ? ` (${changedCount} changed)` : ''}
+      </summary>
+      <p className="text-xs text-slate-400 mt-2 mb-3">Fine-tunes how the wave field and harmony score act on the pixels. The defaults reproduce the standard look.</p>
+      {PROFILE_GROUPS.map(group => (
+        <div key={group.title} className="mb-2">
+          <h4 className="text-xs font-semibold text-sky-300 uppercase tracking-wide mb-2">{group.title}</h4>
+          {group.controls.map(control => (
+            <SliderControl
+              key={control.key}
+              label={control.label}
+              id={control.key}
+              value={params[control.key]}
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              onChange={(e) => onChange({ ...params, [control.key]: parseFloat(e.target.value) })}
+            />
+          ))}
+        </div>
+      ))}
+      <button
+        onClick={handleReset}
+        disabled={changedCount === 0}
+        className="w-full bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Reset field response to defaults
+      </button>
+    </details>
+  );
+};
+
+export default FieldResponseControls;
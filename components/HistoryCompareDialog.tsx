@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RenderHistoryEntry } from '../types';
+
+interface HistoryCompareDialogProps {
+  entries: [RenderHistoryEntry, RenderHistoryEntry];
+  onRestore: (entry: RenderHistoryEntry) => void;
+  onClose: () => void;
+}
+
+type FlatValue = string | number | boolean;
+
+// Flattens nested settings into dotted paths, e.g. "subQGParams.wave_params.rings".
+const flattenSettings = (value: unknown, prefix = '', out: Record<string, FlatValue> = {}): Record<string, FlatValue> => {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flattenSettings(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    out[prefix] = value;
+  }
+  return out;
+};
+
+const formatValue = (value: FlatValue | undefined): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(4);
+  return String(value);
+};
+
+const useObjectUrl = (blob: Blob): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+const STAT_ROWS: { key: keyof RenderHistoryEntry['stats']; label: string }[] = [
+  { key: 'harmony_score', label: 'Harmony Score' },
+  { key: 'mean_re_s', label: 'Proj. Re(s) Mean' },
+  { key: 'std_dev_re_s', label: 'Proj. Re(s) StdDev' },
+  { key: 'total_projected_knots', label: 'Total Knots' },
+];
+
+// Side-by-side view of two history entries with their stats and every differing setting.
+const HistoryCompareDialog: React.FC<HistoryCompareDialogProps> = ({ entries, onRestore, onClose }) => {
+  const [left, right] = entries;
+  const leftUrl = useObjectUrl(left.image);
+  const rightUrl = useObjectUrl(right.image);
+
+  const differences = useMemo(() => {
+    const a = flattenSettings(left.settings);
+    const b = flattenSettings(right.settings);
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+    return keys.filter(key => a[key] !== b[key]).map(key => ({ key, left: a[key], right: b[key] }));
+  }, [left, right]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/90 p-4" role="dialog" aria-modal="true" aria-label="Compare renders">
+      <div className="bg-slate-800 rounded-lg shadow-xl w-full max-w-5xl max-h-full overflow-y-auto p-4 md:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-sky-500">Compare Renders</h2>
+          <button onClick={onClose} className="bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-sm">Close</button>
+        </div>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          {[{ entry: left, url: leftUrl }, { entry: right, url: rightUrl }].map(({ entry, url }) => (
+            <div key={entry.id} className="flex flex-col items-center p-3 bg-slate-700/50 rounded-md">
+              {url && <img src={url} alt="History render" className="max-w-full max-h-80 object-contain rounded-md shadow-md" />}
+              <p className="text-xs text-slate-400 mt-2">{new Date(entry.createdAt).toLocaleString()} · {entry.width}×{entry.height}</p>
+              <button onClick={() => onRestore(entry)} className="mt-2 bg-sky-600 hover:bg-sky-500 text-white font-semibold py-1 px-3 rounded-md text-xs">
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+        <table className="w-full text-xs text-slate-300 mb-4">
+          <tbody>
+            {STAT_ROWS.map(({ key, label }) => (
+              <tr key={key} className="border-b border-slate-700">
+                <td className="py-1 pr-2 text-slate-400">{label}</td>
+                <td className="py-1 pr-2">{formatValue(left.stats[key] as number)}</td>
+                <td className="py-1">{formatValue(right.stats[key] as number)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <h3 className="text-md font-semibold text-sky-400 mb-2">Differing Settings</h3>
+        {differences.length === 0 ? (
+          <p className="text-xs text-slate-400">Both renders used identical settings.</p>
+        ) : (
+          <table className="w-full text-xs text-slate-300">
+            <tbody>
+              {differences.map(diff => (
+                <tr key={diff.key} className="border-b border-slate-700">
+                  <td className="py-1 pr-2 text-slate-400 font-mono">{diff.key}</td>
+                  <td className="py-1 pr-2">{formatValue(diff.left)}</td>
+                  <td className="py-1">{formatValue(diff.right)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryCompareDialog;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { RenderHistoryEntry } from '../types';
+
+interface HistoryPanelProps {
+  entries: RenderHistoryEntry[];
+  activeId: string | null;
+  compareIds: string[];
+  onRestore: (entry: RenderHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  onCompare: () => void;
+  onClear: () => void;
+}
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Thumbnail strip of past renders (newest first).
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, activeId, compareIds, onRestore, onDelete, onToggleCompare, onCompare, onClear }) => (
+  <div className="mt-4 w-full p-3 bg-slate-700/50 rounded-md">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-md font-semibold text-sky-400">History <span className="text-xs text-slate-400 font-normal">({entries.length})</span></h3>
+      <div className="flex gap-2">
+        <button
+          onClick={onCompare}
+          disabled={compareIds.length !== 2}
+          className="bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Compare ({compareIds.length}/2)
+        </button>
+        <button
+          onClick={onClear}
+          disabled={entries.length === 0}
+          className="bg-red-700 hover:bg-red-600 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+    {entries.length === 0 ? (
+      <p className="text-xs text-slate-400">Every transform is stored here, including after a page reload.</p>
+    ) : (
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {entries.map(entry => {
+          const isActive = entry.id === activeId;
+          const isCompared = compareIds.includes(entry.id);
+          return (
+            <div
+              key={entry.id}
+              className={`flex-shrink-0 w-32 p-1.5 rounded-md bg-slate-800 border-2 ${isActive ? 'border-sky-500' : isCompared ? 'border-amber-400' : 'border-transparent'}`}
+            >
+              <button onClick={() => onRestore(entry)} title="Restore this render and its settings" className="block w-full">
+                <img src={entry.thumbnail} alt={`Render from ${formatTime(entry.createdAt)}`} className="w-full h-20 object-cover rounded-sm" />
+              </button>
+              <div className="mt-1 text-[10px] leading-tight text-slate-300">
+                <div>{formatTime(entry.createdAt)} · {entry.width}×{entry.height}</div>
+                <div>Harmony {entry.stats.harmony_score.toFixed(3)}</div>
+                <div className="truncate" title={`Seed ${entry.settings.subQGParams.seed}`}>Seed {entry.settings.subQGParams.seed}</div>
+              </div>
+              <div className="mt-1 flex items-center justify-between">
+                <label className="flex items-center text-[10px] text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={isCompared} onChange={() => onToggleCompare(entry.id)} className="mr-1 accent-amber-400" />
+                  Compare
+                </label>
+                <button onClick={() => onDelete(entry.id)} aria-label="Delete history entry" className="text-[10px] text-red-300 hover:text-red-200">✕</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export default HistoryPanel;
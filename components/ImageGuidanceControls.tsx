@@ -0,0 +1,72 @@
+import React from 'react';
+import { GuidanceChannel, ImageGuidanceParams } from '../types';
+import { GUIDANCE_CHANNEL_LABELS } from '../services/imageGuidance';
+import SliderControl from './SliderControl';
+
+interface ImageGuidanceControlsProps {
+  guidance: ImageGuidanceParams;
+  onChange: (guidance: ImageGuidanceParams) => void;
+}
+
+const CHANNELS = Object.keys(GUIDANCE_CHANNEL_LABELS) as GuidanceChannel[];
+
+const selectClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50";
+
+// Toggle and channel mapping for seeding the SubQG fields from the input image.
+const ImageGuidanceControls: React.FC<ImageGuidanceControlsProps> = ({ guidance, onChange }) => {
+  const update = (patch: Partial<ImageGuidanceParams>) => onChange({ ...guidance, ...patch });
+
+  return (
+    <div className="mb-4 p-2 border border-slate-600 rounded-md">
+      <label className="flex items-center text-sm font-medium text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={guidance.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2 accent-sky-500"
+        />
+        Image-driven fields
+      </label>
+      <p className="text-xs text-slate-400 mt-1 mb-2">Seeds the energy and phase fields from the downsampled input image.</p>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <label htmlFor="guidance_energy_channel" className="block text-xs font-medium text-slate-300 mb-1">Energy ←</label>
+          <select
+            id="guidance_energy_channel"
+            value={guidance.energy_channel}
+            disabled={!guidance.enabled}
+            onChange={(e) => update({ energy_channel: e.target.value as GuidanceChannel })}
+            className={selectClassName}
+          >
+            {CHANNELS.map(ch => <option key={ch} value={ch}>{GUIDANCE_CHANNEL_LABELS[ch]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="guidance_phase_channel" className="block text-xs font-medium text-slate-300 mb-1">Phase ←</label>
+          <select
+            id="guidance_phase_channel"
+            value={guidance.phase_channel}
+            disabled={!guidance.enabled}
+            onChange={(e) => update({ phase_channel: e.target.value as GuidanceChannel })}
+            className={selectClassName}
+          >
+            {CHANNELS.map(ch => <option key={ch} value={ch}>{GUIDANCE_CHANNEL_LABELS[ch]}</option>)}
+          </select>
+        </div>
+      </div>
+      {guidance.enabled && (
+        <SliderControl
+          label="Guidance Strength"
+          id="guidance_strength"
+          value={guidance.strength}
+          min={0}
+          max={1}
+          step={0.05}
+          onChange={(e) => update({ strength: parseFloat(e.target.value) })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageGuidanceControls;
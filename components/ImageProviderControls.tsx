@@ -0,0 +1,114 @@
+import React from 'react';
+import { ImageProviderId, ImageProviderSettings } from '../types';
+import { IMAGE_PROVIDERS, getImageProvider } from '../services/imageProviders';
+
+interface ImageProviderControlsProps {
+  settings: ImageProviderSettings;
+  onChange: (settings: ImageProviderSettings) => void;
+}
+
+const inputClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+// Provider, model and credentials for the "Generate" button.
+const ImageProviderControls: React.FC<ImageProviderControlsProps> = ({ settings, onChange }) => {
+  const provider = getImageProvider(settings.providerId);
+  const update = (patch: Partial<ImageProviderSettings>) => onChange({ ...settings, ...patch });
+  const acceptsApiKey = provider.requiresApiKey || provider.requiresEndpoint; // HTTP endpoints may take a bearer token
+
+  return (
+    <div className="mb-2 p-2 border border-slate-600 rounded-md">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="image_provider" className="block text-xs font-medium text-slate-300 mb-1">Provider</label>
+          <select
+            id="image_provider"
+            value={settings.providerId}
+            onChange={(e) => {
+              const providerId = e.target.value as ImageProviderId;
+              update({ providerId, model: getImageProvider(providerId).models[0] });
+            }}
+            className={inputClassName}
+          >
+            {IMAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="image_provider_model" className="block text-xs font-medium text-slate-300 mb-1">Model</label>
+          <input
+            id="image_provider_model"
+            type="text"
+            list="image_provider_models"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            className={inputClassName}
+          />
+          <datalist id="image_provider_models">
+            {provider.models.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400 mt-1">{provider.description}</p>
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <div>
+          <label htmlFor="image_provider_count" className="block text-xs font-medium text-slate-300 mb-1">Candidates</label>
+          <select
+            id="image_provider_count"
+            value={Math.min(settings.candidateCount, provider.maxImages)}
+            onChange={(e) => update({ candidateCount: parseInt(e.target.value, 10) })}
+            className={inputClassName}
+          >
+            {Array.from({ length: provider.maxImages }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+          </select>
+        </div>
+        {provider.aspectRatios.length > 0 && (
+          <div>
+            <label htmlFor="image_provider_aspect" className="block text-xs font-medium text-slate-300 mb-1">Aspect Ratio</label>
+            <select
+              id="image_provider_aspect"
+              value={settings.aspectRatio}
+              onChange={(e) => update({ aspectRatio: e.target.value })}
+              className={inputClassName}
+            >
+              {provider.aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+      {provider.requiresEndpoint && (
+        <div className="mt-2">
+          <label htmlFor="image_provider_endpoint" className="block text-xs font-medium text-slate-300 mb-1">Endpoint URL</label>
+          <input
+            id="image_provider_endpoint"
+            type="url"
+            value={settings.endpoint}
+            onChange={(e) => update({ endpoint: e.target.value })}
+            placeholder="http://localhost:7860/generate"
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {acceptsApiKey && (
+        <div className="mt-2">
+          <label htmlFor="image_provider_api_key" className="block text-xs font-medium text-slate-300 mb-1">
+            API Key{provider.requiresApiKey ? '' : ' (optional)'}
+          </label>
+          <input
+            id="image_provider_api_key"
+            type="password"
+            autoComplete="off"
+            value={settings.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            placeholder={provider.requiresApiKey ? 'Required' : 'Sent as bearer token'}
+            className={inputClassName}
+          />
+          <label className="flex items-center mt-1 text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={settings.rememberApiKey} onChange={(e) => update({ rememberApiKey: e.target.checked })} className="mr-2 accent-sky-500" />
+            Remember key in this browser (otherwise kept for this tab only)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageProviderControls;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnotColormap, KnotMap, KnotMapExportFormat, KnotMapViewParams } from '../types';
+import { KNOT_CONTOUR_LEVELS_MAX } from '../constants';
+import {
+  computeKnotContours,
+  computeKnotHistogram,
+  getColormapGradient,
+  getContourLevels,
+  getKnotMapSummary,
+  knotMapToColorImage,
+} from '../services/knotMapAnalysis';
+import { rgbaImageToImageData } from '../services/browserImageIO';
+import SliderControl from './SliderControl';
+
+interface KnotMapInspectorProps {
+  knotMap: KnotMap;
+  seed: number;
+  params: KnotMapViewParams;
+  isExporting: boolean;
+  error: string | null;
+  onChange: (params: KnotMapViewParams) => void;
+  onExport: (format: KnotMapExportFormat) => void;
+  onClose: () => void;
+}
+
+const COLORMAP_LABELS: Record<KnotColormap, string> = {
+  viridis: 'Viridis',
+  magma: 'Magma',
+  diverging: 'Diverging (around the mean)',
+};
+
+const EXPORT_LABELS: Record<KnotMapExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  png16: '16-bit PNG',
+};
+
+const CANVAS_SIZE = 512; // Longest side in canvas pixels, rounded down to whole pixels per cell
+const HISTOGRAM_HEIGHT = 100;
+
+const selectClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+// Enlarged knot map with colormaps, optional contour lines, a per-cell hover readout, the histogram of
+// knot counts and raw data downloads.
+const KnotMapInspector: React.FC<KnotMapInspectorProps> = ({ knotMap, seed, params, isExporting, error, onChange, onExport, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hovered, setHovered] = useState<{ x: number; y: number } | null>(null);
+  const update = (patch: Partial<KnotMapViewParams>) => onChange({ ...params, ...patch });
+
+  const { width, height, data } = knotMap;
+  const cellSize = Math.max(1, Math.floor(CANVAS_SIZE / Math.max(width, height)));
+  const summary = useMemo(() => getKnotMapSummary(knotMap), [knotMap]);
+  const histogram = useMemo(() => computeKnotHistogram(knotMap), [knotMap]);
+  const colorImage = useMemo(() => knotMapToColorImage(knotMap, params.colormap), [knotMap, params.colormap]);
+  const contours = useMemo(
+    () => params.show_contours ? computeKnotContours(knotMap, getContourLevels(knotMap, params.contour_levels)) : [],
+    [knotMap, params.show_contours, params.contour_levels],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const cells = document.createElement('canvas');
+    cells.width = width;
+    cells.height = height;
+    cells.getContext('2d')?.putImageData(rgbaImageToImageData(colorImage), 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(cells, 0, 0, canvas.width, canvas.height);
+
+    // Dark lines on the light middle of the diverging map, light lines on the dark sequential maps
+    ctx.strokeStyle = params.colormap === 'diverging' ? 'rgba(15, 23, 42, 0.9)' : 'rgba(255, 255, 255, 0.85)';
+    ctx.lineWidth = Math.max(1, cellSize / 6);
+    ctx.beginPath();
+    for (const { segments } of contours) {
+      for (let i = 0; i < segments.length; i += 4) {
+        ctx.moveTo(segments[i] * cellSize, segments[i + 1] * cellSize);
+        ctx.lineTo(segments[i + 2] * cellSize, segments[i + 3] * cellSize);
+      }
+    }
+    ctx.stroke();
+  }, [colorImage, contours, width, height, cellSize, params.colormap]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.floor((event.clientX - rect.left) / rect.width * width);
+    const y = Math.floor((event.clientY - rect.top) / rect.height * height);
+    setHovered(x >= 0 && x < width && y >= 0 && y < height ? { x, y } : null);
+  };
+
+  const hoveredCount = hovered ? data[hovered.y * width + hovered.x] : null;
+  const hoveredBin = hoveredCount !== null ? Math.floor(Math.max(0, hoveredCount) / histogram.bin_width) : null;
+  const bins = histogram.counts.length;
+  const peak = Math.max(1, ...histogram.counts);
+  const binLabel = (bin: number) => histogram.bin_width === 1
+    ? `${bin}`
+    : `${bin * histogram.bin_width}–${(bin + 1) * histogram.bin_width - 1}`;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/90 p-4" role="dialog" aria-modal="true" aria-label="Knot map inspector">
+      <div className="bg-slate-800 rounded-lg shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-4 md:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-sky-500">Knot Map Inspector</h2>
+          <button onClick={onClose} className="bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-sm">Close</button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-3">
+            <div className="relative">
+              <canvas
+                ref={canvasRef}
+                width={width * cellSize}
+                height={height * cellSize}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHovered(null)}
+                className="w-full h-auto rounded-sm border border-slate-600 cursor-crosshair"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              {hovered && (
+                <div
+                  className="absolute pointer-events-none border border-amber-300"
+                  style={{ left: `${hovered.x / width * 100}%`, top: `${hovered.y / height * 100}%`, width: `${100 / width}%`, height: `${100 / height}%` }}
+                />
+              )}
+            </div>
+            <div className="h-3 mt-2 rounded-sm" style={{ background: getColormapGradient(params.colormap) }} />
+            <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5">
+              <span>{summary.min}</span>
+              {params.colormap === 'diverging' && <span>mean {summary.mean.toFixed(2)}</span>}
+              <span>{summary.max}</span>
+            </div>
+            <p className="text-xs text-slate-300 font-mono mt-2 h-4" aria-live="polite">
+              {hovered && hoveredCount !== null
+                ? `Cell (${hovered.x}, ${hovered.y}): ${hoveredCount} knot${hoveredCount === 1 ? '' : 's'}${summary.max > 0 ? ` · ${(hoveredCount / summary.max * 100).toFixed(0)}% of max` : ''}`
+                : 'Hover over the map to read cell counts'}
+            </p>
+          </div>
+          <div className="md:col-span-2">
+            <p className="text-xs text-slate-400 mb-3">
+              {width}×{height} cells · seed {seed} · {summary.total} knots · max {summary.max} · mean {summary.mean.toFixed(2)} · {summary.occupied_cells} cells with knots
+            </p>
+            <div className="mb-3">
+              <label htmlFor="knot_colormap" className="block text-xs font-medium text-slate-300 mb-1">Colormap</label>
+              <select id="knot_colormap" value={params.colormap} onChange={(e) => update({ colormap: e.target.value as KnotColormap })} className={selectClassName}>
+                {(Object.keys(COLORMAP_LABELS) as KnotColormap[]).map(colormap => (
+                  <option key={colormap} value={colormap}>{COLORMAP_LABELS[colormap]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center text-sm text-slate-300 cursor-pointer mb-2">
+              <input type="checkbox" checked={params.show_contours} onChange={(e) => update({ show_contours: e.target.checked })} className="mr-2 accent-sky-500" />
+              Contour lines
+            </label>
+            {params.show_contours && (
+              <SliderControl label="Contour Levels" id="knot_contour_levels" value={params.contour_levels} min={1} max={KNOT_CONTOUR_LEVELS_MAX} step={1} decimals={0} onChange={(e) => update({ contour_levels: parseInt(e.target.value, 10) })} />
+            )}
+
+            <h4 className="text-xs font-semibold text-slate-300 mb-1">Cells per knot count</h4>
+            <svg viewBox={`0 0 ${bins} ${HISTOGRAM_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-slate-600 rounded-md" role="img" aria-label="Histogram of knot counts per cell">
+              {histogram.counts.map((count, bin) => {
+                const barHeight = count / peak * HISTOGRAM_HEIGHT;
+                return (
+                  <rect key={bin} x={bin + 0.1} y={HISTOGRAM_HEIGHT - barHeight} width={0.8} height={barHeight} className={bin === hoveredBin ? 'fill-amber-300' : 'fill-sky-400'}>
+                    <title>{`${binLabel(bin)} knots: ${count} cells`}</title>
+                  </rect>
+                );
+              })}
+            </svg>
+            <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5 mb-4">
+              <span>0</span>
+              {histogram.bin_width > 1 && <span>{histogram.bin_width} counts per bar</span>}
+              <span>{binLabel(bins - 1)}</span>
+            </div>
+
+            <h4 className="text-xs font-semibold text-slate-300 mb-1">Export raw knot counts</h4>
+            <div className="flex gap-2 mb-1">
+              {(Object.keys(EXPORT_LABELS) as KnotMapExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  disabled={isExporting}
+                  className="flex-1 bg-green-600 hover:bg-green-500 text-white font-semibold py-1.5 px-2 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {EXPORT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">
+              One value per cell, row by row from the top. The 16-bit PNG stores the unscaled counts as grey values (one pixel per cell).
+            </p>
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnotMapInspector;
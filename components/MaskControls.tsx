@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import { MaskParams } from '../types';
+import { MASK_FEATHER_MAX } from '../constants';
+import SliderControl from './SliderControl';
+
+interface MaskControlsProps {
+  params: MaskParams;
+  previewSrc: string | null; // Grayscale rendering of the current mask; null = no mask
+  canPaint: boolean;
+  onChange: (params: MaskParams) => void;
+  onPaint: () => void;
+  onUpload: (file: File) => void;
+  onClear: () => void;
+}
+
+const buttonClassName = "flex-1 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Region mask: limits where (and how strongly) the SubQG transform applies.
+const MaskControls: React.FC<MaskControlsProps> = ({ params, previewSrc, canPaint, onChange, onPaint, onUpload, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<MaskParams>) => onChange({ ...params, ...patch });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onUpload(file);
+    event.target.value = ""; // Allow re-uploading the same file
+  };
+
+  return (
+    <div className="mt-4 p-2 border border-slate-600 rounded-md">
+      <label className="flex items-center text-sm font-medium text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={params.enabled}
+          disabled={!previewSrc}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2 accent-sky-500"
+        />
+        Region mask
+      </label>
+      <p className="text-xs text-slate-400 mt-1 mb-2">White areas get the full transform, black areas keep the original pixels.</p>
+      <div className="flex gap-2 mb-2">
+        <button onClick={onPaint} disabled={!canPaint} className={buttonClassName} title="Paint the mask over the input image">🖌️ Paint</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName} title="Use a grayscale image as mask">Upload</button>
+        <button onClick={onClear} disabled={!previewSrc} className={buttonClassName}>Remove</button>
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" aria-label="Upload mask image" />
+      </div>
+      {previewSrc && (
+        <>
+          <img src={previewSrc} alt="Region mask" className={`w-full max-h-32 object-contain rounded-sm border border-slate-600 mb-2 ${params.invert ? 'invert' : ''} ${params.enabled ? '' : 'opacity-40'}`} />
+          <label className="flex items-center mb-2 text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={params.invert} onChange={(e) => update({ invert: e.target.checked })} className="mr-2 accent-sky-500" />
+            Invert (transform the unpainted areas instead)
+          </label>
+          <SliderControl label="Feather" id="mask_feather" value={params.feather} min={0} max={MASK_FEATHER_MAX} step={0.1} unit="%" onChange={(e) => update({ feather: parseFloat(e.target.value) })} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaskControls;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScalarField } from '../types';
+import { resolveMaskSize } from '../services/regionMask';
+import { resizeScalarField } from '../services/imageUtils';
+import SliderControl from './SliderControl';
+
+interface MaskEditorProps {
+  imageSrc: string;
+  imageWidth: number;
+  imageHeight: number;
+  initialMask: ScalarField | null;
+  onApply: (mask: ScalarField) => void;
+  onClose: () => void;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+const MASK_COLOR = [255, 64, 64]; // Painted (transformed) regions show as a red tint
+
+// The mask lives in the canvas alpha channel: painting adds coverage, erasing removes it.
+const drawMask = (canvas: HTMLCanvasElement, mask: ScalarField | null) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (!mask) return;
+  const field = resizeScalarField(mask, canvas.width, canvas.height);
+  const pixels = ctx.createImageData(canvas.width, canvas.height);
+  for (let i = 0; i < field.data.length; i++) {
+    pixels.data[i * 4] = MASK_COLOR[0];
+    pixels.data[i * 4 + 1] = MASK_COLOR[1];
+    pixels.data[i * 4 + 2] = MASK_COLOR[2];
+    pixels.data[i * 4 + 3] = Math.round(field.data[i] * 255);
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const readMask = (canvas: HTMLCanvasElement): ScalarField => {
+  const { width, height } = canvas;
+  const field: ScalarField = { width, height, data: new Float32Array(width * height) };
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return field;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < field.data.length; i++) {
+    field.data[i] = data[i * 4 + 3] / 255;
+  }
+  return field;
+};
+
+// Full-screen brush editor for the region mask, painted over the input image.
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageSrc, imageWidth, imageHeight, initialMask, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [mode, setMode] = useState<BrushMode>('paint');
+  const [brushSize, setBrushSize] = useState(40); // Mask pixels
+  const [opacity, setOpacity] = useState(0.6);
+  const maskSize = resolveMaskSize(imageWidth, imageHeight);
+
+  useEffect(() => {
+    if (canvasRef.current) drawMask(canvasRef.current, initialMask);
+  }, [initialMask]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'Escape': onClose(); break;
+        case 'b': case 'B': setMode('paint'); break;
+        case 'e': case 'E': setMode('erase'); break;
+        case '[': setBrushSize(prev => Math.max(2, prev - 5)); break;
+        case ']': setBrushSize(prev => Math.min(300, prev + 5)); break;
+        default: return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * canvas.width / rect.width,
+      y: (event.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const strokeTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = mode === 'paint' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = `rgb(${MASK_COLOR.join(',')})`;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x + (from === point ? 0.01 : 0), point.y); // A zero-length line draws nothing
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    strokeTo(event.currentTarget, toCanvasPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) strokeTo(event.currentTarget, toCanvasPoint(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    lastPointRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const fill = (value: number) => {
+    if (!canvasRef.current) return;
+    drawMask(canvasRef.current, { width: 1, height: 1, data: new Float32Array([value]) });
+  };
+
+  const buttonClassName = "bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+  const activeClassName = "bg-sky-600 hover:bg-sky-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-slate-900" role="dialog" aria-modal="true" aria-label="Paint region mask">
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-800 border-b border-slate-700">
+        <h2 className="text-lg font-semibold text-sky-500 mr-2">Region Mask</h2>
+        <button onClick={() => setMode('paint')} className={mode === 'paint' ? activeClassName : buttonClassName} title="Paint the regions to transform (B)">Paint</button>
+        <button onClick={() => setMode('erase')} className={mode === 'erase' ? activeClassName : buttonClassName} title="Erase: keep these regions untouched (E)">Erase</button>
+        <span className="w-px h-5 bg-slate-600 mx-1" />
+        <button onClick={() => fill(1)} className={buttonClassName} title="Transform the whole image">Fill</button>
+        <button onClick={() => fill(0)} className={buttonClassName} title="Remove all painted regions">Clear</button>
+        <div className="w-40 ml-2 -mb-4">
+          <SliderControl label="Brush" id="mask_brush_size" value={brushSize} min={2} max={300} step={1} decimals={0} unit="px" onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} />
+        </div>
+        <div className="w-40 ml-2 -mb-4">
+          <SliderControl label="Overlay" id="mask_overlay_opacity" value={opacity} min={0.1} max={1} step={0.05} onChange={(e) => setOpacity(parseFloat(e.target.value))} />
+        </div>
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => canvasRef.current && onApply(readMask(canvasRef.current))} className="bg-emerald-600 hover:bg-emerald-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out">Apply Mask</button>
+          <button onClick={onClose} className="bg-red-600 hover:bg-red-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out" title="Discard changes (Esc)">Cancel</button>
+        </div>
+      </div>
+      <div className="flex-grow flex items-center justify-center p-4 overflow-hidden">
+        <div className="relative inline-block">
+          <img src={imageSrc} alt="Input image" draggable={false} className="block max-w-full max-h-[calc(100vh-120px)] select-none" />
+          <canvas
+            ref={canvasRef}
+            width={maskSize.width}
+            height={maskSize.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            style={{ opacity }}
+          />
+        </div>
+      </div>
+      <p className="px-3 pb-2 text-xs text-slate-400">
+        Painted regions receive the SubQG transform; unpainted regions keep their original pixels. B/E switch brush, [ ] resize, Esc cancels.
+      </p>
+    </div>
+  );
+};
+
+export default MaskEditor;
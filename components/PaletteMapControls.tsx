@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { PaletteMapParams, TargetPalette } from '../types';
+import { TARGET_PALETTE_MAX_COLORS } from '../constants';
+import { parseHexColor, rgbToHex } from '../services/paletteFiles';
+import SliderControl from './SliderControl';
+
+interface PaletteMapControlsProps {
+  params: PaletteMapParams;
+  palette: TargetPalette | null;
+  onChange: (params: PaletteMapParams) => void;
+  onPaletteChange: (palette: TargetPalette | null) => void;
+  onLoadFile: (file: File) => void;      // .gpl / .ase / .json
+  onLoadReference: (file: File) => void; // Image whose extracted palette becomes the target
+}
+
+const buttonClassName = "flex-1 bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Palette mapping transform mode: recolours the image towards a target palette instead of the harmony colour mood.
+const PaletteMapControls: React.FC<PaletteMapControlsProps> = ({ params, palette, onChange, onPaletteChange, onLoadFile, onLoadReference }) => {
+  const paletteFileRef = useRef<HTMLInputElement>(null);
+  const referenceFileRef = useRef<HTMLInputElement>(null);
+  const [pickedColor, setPickedColor] = useState('#3b82f6');
+  const colors = palette?.colors ?? [];
+  const update = (patch: Partial<PaletteMapParams>) => onChange({ ...params, ...patch });
+
+  const handleFileChange = (handler: (file: File) => void) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) handler(file);
+    event.target.value = ""; // Allow loading the same file again
+  };
+
+  const handleAddColor = () => {
+    const color = parseHexColor(pickedColor);
+    if (!color || colors.length >= TARGET_PALETTE_MAX_COLORS) return;
+    onPaletteChange({ name: palette?.name ?? 'Custom', colors: [...colors, color] });
+  };
+
+  const handleRemoveColor = (index: number) => {
+    const remaining = colors.filter((_, i) => i !== index);
+    onPaletteChange(remaining.length > 0 ? { name: palette?.name ?? 'Custom', colors: remaining } : null);
+  };
+
+  return (
+    <div className="mt-4 p-2 border border-slate-600 rounded-md">
+      <label className="flex items-center text-sm font-medium text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={params.enabled}
+          disabled={colors.length === 0}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2 accent-sky-500"
+        />
+        Palette mapping
+      </label>
+      <p className="text-xs text-slate-400 mt-1 mb-2">Recolours the image's palette towards a target palette, most strongly in high-knot regions. Replaces the harmony colour mood.</p>
+      <div className="flex gap-2 mb-2">
+        <button onClick={() => referenceFileRef.current?.click()} className={buttonClassName} title="Use the main colours of a reference image">From Image</button>
+        <button onClick={() => paletteFileRef.current?.click()} className={buttonClassName} title="GIMP .gpl, Adobe .ase or JSON palette">Load File</button>
+        <button onClick={() => onPaletteChange(null)} disabled={colors.length === 0} className={buttonClassName}>Clear</button>
+        <input ref={referenceFileRef} type="file" accept="image/*" onChange={handleFileChange(onLoadReference)} className="hidden" aria-label="Load reference image" />
+        <input ref={paletteFileRef} type="file" accept=".gpl,.ase,.json" onChange={handleFileChange(onLoadFile)} className="hidden" aria-label="Load palette file" />
+      </div>
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          type="color"
+          value={pickedColor}
+          onChange={(e) => setPickedColor(e.target.value)}
+          className="w-8 h-7 bg-transparent border border-slate-500 rounded cursor-pointer"
+          aria-label="Pick a target colour"
+        />
+        <button onClick={handleAddColor} disabled={colors.length >= TARGET_PALETTE_MAX_COLORS} className={buttonClassName}>Add Colour</button>
+      </div>
+      {palette && (
+        <>
+          <p className="text-xs text-slate-400 mb-1">{palette.name} – {colors.length} colour{colors.length === 1 ? '' : 's'} (click to remove)</p>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {colors.map((color, index) => (
+              <button
+                key={index}
+                onClick={() => handleRemoveColor(index)}
+                title={`${rgbToHex(color)} – click to remove`}
+                className={`w-6 h-6 rounded-sm border border-slate-500 hover:ring-2 hover:ring-red-400 ${params.enabled ? '' : 'opacity-40'}`}
+                style={{ backgroundColor: rgbToHex(color) }}
+              />
+            ))}
+          </div>
+          <SliderControl label="Mapping Strength" id="palette_strength" value={params.strength} min={0} max={1} step={0.01} onChange={(e) => update({ strength: parseFloat(e.target.value) })} />
+          <SliderControl label="Knot Field Influence" id="palette_knot_influence" value={params.knot_influence} min={0} max={1} step={0.01} onChange={(e) => update({ knot_influence: parseFloat(e.target.value) })} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaletteMapControls;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ColorPalette } from '../types';
+import { CATEGORY_HUES, CATEGORY_LABELS_ORDERED } from '../constants';
+import { rgbToHex } from '../services/paletteFiles';
+
+interface PaletteSwatchesProps {
+  palette: ColorPalette;
+}
+
+// Extracted palette (bar widths = pixel share) and the resulting category activations.
+const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ palette }) => (
+  <div>
+    <div className="flex w-full h-8 rounded-md overflow-hidden border border-slate-600">
+      {palette.colors.map((color, index) => (
+        <div
+          key={index}
+          style={{ backgroundColor: rgbToHex(color), width: `${color.weight * 100}%` }}
+          title={`${rgbToHex(color)} – ${(color.weight * 100).toFixed(1)}% – ${color.category ?? 'Neutral'}`}
+        />
+      ))}
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
+      {palette.colors.map((color, index) => (
+        <div key={index} className="flex items-center gap-2 text-xs text-slate-300">
+          <span className="w-5 h-5 rounded-sm border border-slate-500 flex-shrink-0" style={{ backgroundColor: rgbToHex(color) }} />
+          <span>
+            {(color.weight * 100).toFixed(1)}%
+            <span className="text-slate-400"> · {color.category ?? 'Neutral'}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+    <h4 className="text-xs font-semibold text-slate-300 mt-3 mb-1">Category Activations</h4>
+    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+      {CATEGORY_LABELS_ORDERED.map((label, index) => {
+        const activation = palette.activations[index];
+        return (
+          <div key={label} className="text-xs text-slate-300" title="0.5 = neutral; above brightens, below darkens">
+            <div className="flex items-center justify-between mb-0.5">
+              <span style={{ color: `hsl(${CATEGORY_HUES[index]}, 80%, 65%)` }}>{label}</span>
+              <span className="font-mono">{activation.toFixed(2)}</span>
+            </div>
+            <div className="h-1.5 bg-slate-600 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-400" style={{ width: `${activation * 100}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default PaletteSwatches;
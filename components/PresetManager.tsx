@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { ParameterPreset, SubQGParams, TransformationParams } from '../types';
+import { BUILT_IN_PRESETS, PresetValidationError, createPreset, parsePresetFile, serializePresets } from '../services/presets';
+
+interface PresetManagerProps {
+  userPresets: ParameterPreset[];
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+  onApply: (preset: ParameterPreset) => void;
+  onUserPresetsChange: (presets: ParameterPreset[]) => void;
+}
+
+interface PresetStatus {
+  kind: 'info' | 'error';
+  text: string;
+}
+
+const buttonClassName = "bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-2 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const downloadJson = (fileName: string, json: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toFileName = (name: string): string =>
+  `${name.trim().replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'preset'}.subqg-preset.json`;
+
+// Built-in names are reserved; an imported preset with such a name gets a suffix instead.
+const uniqueImportName = (name: string): string =>
+  BUILT_IN_PRESETS.some(preset => preset.name === name) ? `${name} (imported)` : name;
+
+// Preset picker with save, delete and JSON import/export of user presets.
+const PresetManager: React.FC<PresetManagerProps> = ({ userPresets, subQGParams, transformParams, onApply, onUserPresetsChange }) => {
+  const [selectedName, setSelectedName] = useState<string>(BUILT_IN_PRESETS[0].name);
+  const [newName, setNewName] = useState<string>("");
+  const [status, setStatus] = useState<PresetStatus | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets];
+  const selected = allPresets.find(preset => preset.name === selectedName) ?? null;
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) {
+      setStatus({ kind: 'error', text: "Enter a name for the preset." });
+      return;
+    }
+    if (BUILT_IN_PRESETS.some(preset => preset.name === name)) {
+      setStatus({ kind: 'error', text: `"${name}" is a built-in preset. Please choose another name.` });
+      return;
+    }
+    const exists = userPresets.some(preset => preset.name === name);
+    if (exists && !window.confirm(`Overwrite the preset "${name}"?`)) return;
+    const preset = createPreset(name, subQGParams, transformParams);
+    onUserPresetsChange(exists ? userPresets.map(p => p.name === name ? preset : p) : [...userPresets, preset]);
+    setSelectedName(name);
+    setNewName("");
+    setStatus({ kind: 'info', text: `Saved preset "${name}".` });
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    onUserPresetsChange(userPresets.filter(preset => preset.name !== selected.name));
+    setSelectedName(BUILT_IN_PRESETS[0].name);
+    setStatus({ kind: 'info', text: `Deleted preset "${selected.name}".` });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow importing the same file again after fixing it
+    if (!file) return;
+    try {
+      const { presets, notes } = parsePresetFile(await file.text(), file.name);
+      const imported = presets.map(preset => ({ ...preset, name: uniqueImportName(preset.name) }));
+      const importedNames = new Set(imported.map(preset => preset.name));
+      onUserPresetsChange([...userPresets.filter(preset => !importedNames.has(preset.name)), ...imported]);
+      setSelectedName(imported[0].name);
+      const summary = `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}: ${imported.map(p => p.name).join(', ')}.`;
+      setStatus({ kind: 'info', text: [summary, ...notes].join('\n') });
+    } catch (err) {
+      if (!(err instanceof PresetValidationError)) console.error("Preset import failed:", err);
+      setStatus({ kind: 'error', text: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
+      <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">Presets</h3>
+      <div className="flex gap-2 mb-1">
+        <select
+          value={selectedName}
+          onChange={(e) => setSelectedName(e.target.value)}
+          aria-label="Preset"
+          className={`${inputClassName} flex-grow min-w-0`}
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="My presets">
+              {userPresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => selected && onApply(selected)} disabled={!selected} className="bg-sky-600 hover:bg-sky-500 text-white font-semibold px-3 rounded-md text-sm disabled:opacity-50">
+          Apply
+        </button>
+      </div>
+      {selected?.description && <p className="text-xs text-slate-400 mb-2">{selected.description}</p>}
+      <div className="flex gap-2 mt-2 mb-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Name for current settings"
+          aria-label="Preset name"
+          className={`${inputClassName} flex-grow min-w-0`}
+        />
+        <button onClick={handleSave} className="bg-emerald-600 hover:bg-emerald-500 text-white font-semibold px-3 rounded-md text-sm">Save</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleDelete} disabled={!selected || selected.builtIn} className={buttonClassName}>Delete</button>
+        <button
+          onClick={() => selected && downloadJson(toFileName(selected.name), serializePresets([selected]))}
+          disabled={!selected}
+          className={buttonClassName}
+        >
+          Export selected
+        </button>
+        <button
+          onClick={() => downloadJson('my-presets.subqg-preset.json', serializePresets(userPresets))}
+          disabled={userPresets.length === 0}
+          className={buttonClassName}
+        >
+          Export all mine
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={buttonClassName}>Import…</button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" aria-label="Import presets" />
+      </div>
+      {status && (
+        <p className={`mt-2 text-xs whitespace-pre-line ${status.kind === 'error' ? 'text-red-300' : 'text-emerald-300'}`} role={status.kind === 'error' ? 'alert' : 'status'}>
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
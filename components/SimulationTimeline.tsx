@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationLayer, SimulationRecording } from '../types';
+import { getRecordedCell, getRecordedKnotsPerStep, renderRecordingLayer } from '../services/simulationRecording';
+import { getColormapGradient } from '../services/knotMapAnalysis';
+import { rgbaImageToImageData } from '../services/browserImageIO';
+import SliderControl from './SliderControl';
+
+interface SimulationTimelineProps {
+  recording: SimulationRecording;
+}
+
+const LAYERS: { layer: SimulationLayer; label: string }[] = [
+  { layer: 'energy', label: 'Energy' },
+  { layer: 'phase', label: 'Phase' },
+  { layer: 'knots', label: 'Knots (so far)' },
+];
+
+const CHART_HEIGHT = 100;
+const DEFAULT_STEPS_PER_SECOND = 6;
+
+const buttonClassName = "bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-3 rounded-md text-xs transition duration-150 ease-in-out";
+
+// Step-by-step playback of a recorded simulation: energy, phase and knot layers side by side, a scrubber,
+// knots per step, and a readout of the hovered cell.
+const SimulationTimeline: React.FC<SimulationTimelineProps> = ({ recording }) => {
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const [step, setStep] = useState(recording.steps - 1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [stepsPerSecond, setStepsPerSecond] = useState(DEFAULT_STEPS_PER_SECOND);
+  const [markThreshold, setMarkThreshold] = useState(true);
+  const [hoveredCell, setHoveredCell] = useState<number | null>(null);
+  const knotsPerStep = useMemo(() => getRecordedKnotsPerStep(recording), [recording]);
+  const peak = Math.max(1, ...knotsPerStep);
+  const { width, height, steps } = recording;
+
+  // A new recording starts at its last step, like the rendered knot map
+  useEffect(() => {
+    setStep(recording.steps - 1);
+    setIsPlaying(false);
+    setHoveredCell(null);
+  }, [recording]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => setStep(current => (current + 1) % steps), 1000 / stepsPerSecond);
+    return () => window.clearInterval(timer);
+  }, [isPlaying, stepsPerSecond, steps]);
+
+  useEffect(() => {
+    LAYERS.forEach(({ layer }, index) => {
+      const ctx = canvasRefs.current[index]?.getContext('2d');
+      ctx?.putImageData(rgbaImageToImageData(renderRecordingLayer(recording, layer, step, markThreshold)), 0, 0);
+    });
+  }, [recording, step, markThreshold]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.floor((event.clientX - rect.left) / rect.width * width);
+    const y = Math.floor((event.clientY - rect.top) / rect.height * height);
+    setHoveredCell(x >= 0 && x < width && y >= 0 && y < height ? y * width + x : null);
+  };
+
+  const cell = hoveredCell !== null ? getRecordedCell(recording, step, hoveredCell) : null;
+  const cumulativeKnots = recording.knot_offsets[step + 1];
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <button onClick={() => setIsPlaying(playing => !playing)} className={buttonClassName} aria-label={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button onClick={() => setStep(current => Math.max(0, current - 1))} disabled={isPlaying} className={`${buttonClassName} disabled:opacity-50`} aria-label="Previous step">◀</button>
+        <input
+          type="range"
+          min={0}
+          max={steps - 1}
+          step={1}
+          value={step}
+          onChange={(e) => setStep(parseInt(e.target.value, 10))}
+          className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
+          aria-label="Simulation step"
+        />
+        <button onClick={() => setStep(current => Math.min(steps - 1, current + 1))} disabled={isPlaying} className={`${buttonClassName} disabled:opacity-50`} aria-label="Next step">▶</button>
+        <span className="text-xs text-slate-300 font-mono w-20 text-right">t = {step + 1}/{steps}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {LAYERS.map(({ layer, label }, index) => (
+          <div key={layer}>
+            <p className="text-xs text-slate-400 mb-1">{label}</p>
+            <canvas
+              ref={(canvas) => { canvasRefs.current[index] = canvas; }}
+              width={width}
+              height={height}
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoveredCell(null)}
+              className="w-full h-auto rounded-sm border border-slate-600 cursor-crosshair"
+              style={{ imageRendering: 'pixelated' }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-2 mt-1">
+        <div className="col-span-2">
+          <div className="h-2 rounded-sm" style={{ background: getColormapGradient('viridis') }} />
+          <div className="flex justify-between text-[10px] text-slate-400 font-mono mt-0.5">
+            <span>0</span>
+            <span>threshold_s {recording.threshold_s.toFixed(2)}</span>
+            <span>{recording.value_max.toFixed(2)}</span>
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-400">Grey: knots so far · <span className="text-amber-400">amber: new this step</span></p>
+      </div>
+
+      <p className="text-xs text-slate-300 font-mono mt-2 h-4" aria-live="polite">
+        {cell && hoveredCell !== null
+          ? `Cell (${hoveredCell % width}, ${Math.floor(hoveredCell / width)}): energy ${cell.energy.toFixed(3)} · phase ${cell.phase.toFixed(3)} · ${cell.knots} knot${cell.knots === 1 ? '' : 's'} so far${cell.new_knot ? ' (new)' : ''}`
+          : `${knotsPerStep[step]} new knots in this step · ${cumulativeKnots} in total so far`}
+      </p>
+
+      <h4 className="text-xs font-semibold text-slate-300 mt-3 mb-1">New knots per step</h4>
+      <svg viewBox={`0 0 ${steps} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-slate-600 rounded-md cursor-pointer" role="img" aria-label="New knots per simulation step">
+        {knotsPerStep.map((count, t) => {
+          const barHeight = count / peak * CHART_HEIGHT;
+          return (
+            <g key={t} onClick={() => { setIsPlaying(false); setStep(t); }}>
+              <rect x={t} y={0} width={1} height={CHART_HEIGHT} fill="transparent" />
+              <rect x={t + 0.1} y={CHART_HEIGHT - barHeight} width={0.8} height={barHeight} className={t === step ? 'fill-amber-300' : 'fill-sky-400'} />
+              <title>{`Step ${t + 1}: ${count} new knots`}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex items-center gap-4 mt-3">
+        <div className="flex-1 -mb-4">
+          <SliderControl label="Playback Speed" id="timeline_speed" value={stepsPerSecond} min={1} max={30} step={1} decimals={0} unit=" steps/s" onChange={(e) => setStepsPerSecond(parseInt(e.target.value, 10))} />
+        </div>
+        <label className="flex items-center text-xs text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={markThreshold} onChange={(e) => setMarkThreshold(e.target.checked)} className="mr-2 accent-sky-500" />
+          Dim cells at or below threshold_s
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationTimeline;
@@ -10,13 +10,15 @@ interface SliderControlProps {
   value: number;
   onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
   unit?: string;
+  decimals?: number; // Overrides the step-based display precision
+  valueLabel?: string; // Shown instead of the numeric value (e.g. for discrete choices)
 }
 
-const SliderControl: React.FC<SliderControlProps> = ({ label, id, min, max, step, value, onChange, unit }) => {
+const SliderControl: React.FC<SliderControlProps> = ({ label, id, min, max, step, value, onChange, unit, decimals, valueLabel }) => {
   return (
     <div className="mb-4">
       <label htmlFor={id} className="block text-sm font-medium text-slate-300 mb-1">
-        {label}: <span className="font-semibold text-sky-400">{value.toFixed(id.includes('precision') ? 0 : (step < 0.01 ? 3 : (step < 0.1 ? 2 : 1)))}{unit}</span>
+        {label}: <span className="font-semibold text-sky-400">{valueLabel ?? value.toFixed(decimals ?? (id.includes('precision') ? 0 : (step < 0.01 ? 3 : (step < 0.1 ? 2 : 1))))}{unit}</span>
       </label>
       <input
         type="range"
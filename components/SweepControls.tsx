@@ -0,0 +1,98 @@
+import React from 'react';
+import { SweepAxis, SweepParamGroup, SweepParams } from '../types';
+import { DEFAULT_SWEEP_PARAMS, SWEEP_STEPS_MAX, SWEEP_THUMBNAIL_SIZES } from '../constants';
+import { SWEEP_FIELDS, SweepParamSet, createSweepAxis } from '../services/sweep';
+
+interface SweepControlsProps {
+  sweep: SweepParams;
+  params: SweepParamSet; // Current settings; unswept fields keep these values
+  canRender: boolean;
+  onChange: (sweep: SweepParams) => void;
+  onRender: () => void;
+}
+
+const GROUP_LABELS: Record<SweepParamGroup, string> = {
+  subQGParams: 'SubQG simulation',
+  transformParams: 'Transformation',
+};
+
+const inputClassName = "w-full p-1.5 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-xs";
+
+interface AxisEditorProps {
+  label: string;
+  axis: SweepAxis;
+  params: SweepParamSet;
+  onChange: (axis: SweepAxis) => void;
+}
+
+const AxisEditor: React.FC<AxisEditorProps> = ({ label, axis, params, onChange }) => {
+  const update = (patch: Partial<SweepAxis>) => onChange({ ...axis, ...patch });
+  const handleFieldChange = (value: string) => {
+    const [group, key] = value.split(':') as [SweepParamGroup, string];
+    onChange(createSweepAxis(params, group, key, axis.steps));
+  };
+  const handleNumber = (key: 'min' | 'max' | 'steps') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!Number.isFinite(value)) return;
+    update({ [key]: key === 'steps' ? Math.min(SWEEP_STEPS_MAX, Math.max(1, Math.round(value))) : value });
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-xs font-medium text-slate-300 mb-1">{label}</label>
+      <select value={`${axis.group}:${axis.key}`} onChange={(e) => handleFieldChange(e.target.value)} className={`${inputClassName} mb-1`} aria-label={`${label} parameter`}>
+        {(Object.keys(SWEEP_FIELDS) as SweepParamGroup[]).map(group => (
+          <optgroup key={group} label={GROUP_LABELS[group]}>
+            {SWEEP_FIELDS[group].map(key => <option key={key} value={`${group}:${key}`}>{key}</option>)}
+          </optgroup>
+        ))}
+      </select>
+      <div className="grid grid-cols-3 gap-1">
+        <input type="number" value={axis.min} step="any" onChange={handleNumber('min')} className={inputClassName} aria-label={`${label} minimum`} title="From" />
+        <input type="number" value={axis.max} step="any" onChange={handleNumber('max')} className={inputClassName} aria-label={`${label} maximum`} title="To" />
+        <input type="number" value={axis.steps} min={1} max={SWEEP_STEPS_MAX} step={1} onChange={handleNumber('steps')} className={inputClassName} aria-label={`${label} steps`} title="Steps" />
+      </div>
+    </div>
+  );
+};
+
+// Sweep setup: one or two parameters, each stepped over a range; every combination becomes a thumbnail.
+const SweepControls: React.FC<SweepControlsProps> = ({ sweep, params, canRender, onChange, onRender }) => {
+  const cellCount = sweep.x.steps * (sweep.y?.steps ?? 1);
+
+  return (
+    <div className="mb-6 p-3 md:p-4 bg-slate-700/50 rounded-md">
+      <h3 className="text-md md:text-lg font-semibold text-sky-400 mb-2">5. Parameter Sweep</h3>
+      <p className="text-xs text-slate-400 mb-3">From · To · Steps per axis. All other settings, including the seed, stay as they are.</p>
+      <AxisEditor label="Columns (X)" axis={sweep.x} params={params} onChange={(x) => onChange({ ...sweep, x })} />
+      <label className="flex items-center mb-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={sweep.y !== null}
+          onChange={(e) => onChange({ ...sweep, y: e.target.checked ? DEFAULT_SWEEP_PARAMS.y : null })}
+          className="mr-2 accent-sky-500"
+        />
+        Second parameter (rows)
+      </label>
+      {sweep.y && <AxisEditor label="Rows (Y)" axis={sweep.y} params={params} onChange={(y) => onChange({ ...sweep, y })} />}
+      <label htmlFor="sweep_thumbnail_size" className="block text-xs font-medium text-slate-300 mb-1">Thumbnail Size (longest side)</label>
+      <select
+        id="sweep_thumbnail_size"
+        value={sweep.thumbnail_size}
+        onChange={(e) => onChange({ ...sweep, thumbnail_size: parseInt(e.target.value, 10) })}
+        className={`${inputClassName} mb-3`}
+      >
+        {SWEEP_THUMBNAIL_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+      </select>
+      <button
+        onClick={onRender}
+        disabled={!canRender}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        🧮 Render {cellCount} Cell{cellCount === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default SweepControls;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { RgbaImage, SweepCell, SweepParams } from '../types';
+import { formatSweepValue, getSweepValues, sweepToCsv } from '../services/sweep';
+import { renderSweepContactSheet } from '../services/sweepContactSheet';
+import { imageDataToDataURL } from '../services/browserImageIO';
+
+interface SweepGridProps {
+  sweep: SweepParams;
+  cells: SweepCell[];
+  activeCell: SweepCell | null;
+  onSelect: (cell: SweepCell) => void;
+}
+
+const buttonClassName = "bg-green-600 hover:bg-green-500 text-white font-semibold py-1.5 px-3 rounded-md text-xs transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+const thumbnailUrls = new WeakMap<RgbaImage, string>();
+const getThumbnailUrl = (image: RgbaImage): string => {
+  let url = thumbnailUrls.get(image);
+  if (!url) {
+    url = imageDataToDataURL(image);
+    thumbnailUrls.set(image, url);
+  }
+  return url;
+};
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Harmony score as a colour from red (0) to green (1).
+const harmonyColor = (score: number): string => `hsl(${Math.round(score * 120)}, 70%, 65%)`;
+
+// Contact sheet of a parameter sweep: axis values along the edges, harmony score per cell.
+// Clicking a cell loads its parameters into the controls.
+const SweepGrid: React.FC<SweepGridProps> = ({ sweep, cells, activeCell, onSelect }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
+  const xValues = getSweepValues(sweep.x);
+  const yValues = sweep.y ? getSweepValues(sweep.y) : [null];
+  const cellAt = (column: number, row: number) => cells.find(cell => cell.column === column && cell.row === row);
+  const baseName = `subqg_sweep_${sweep.x.key}${sweep.y ? `_${sweep.y.key}` : ''}`;
+
+  const handleExportImage = async () => {
+    try {
+      downloadBlob(`${baseName}.png`, await renderSweepContactSheet(sweep, cells));
+      setExportError(null);
+    } catch (err) {
+      console.error("Contact sheet export failed:", err);
+      setExportError("Could not create the contact sheet image.");
+    }
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="text-xs text-slate-300 border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-sky-400 whitespace-nowrap">{sweep.y ? `${sweep.y.key} ↓ / ${sweep.x.key} →` : `${sweep.x.key} →`}</th>
+              {xValues.map((value, column) => <th key={column} className="font-mono font-normal text-slate-400">{formatSweepValue(value)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {yValues.map((yValue, row) => (
+              <tr key={row}>
+                <th className="font-mono font-normal text-slate-400 text-right pr-1">{yValue === null ? '' : formatSweepValue(yValue)}</th>
+                {xValues.map((_, column) => {
+                  const cell = cellAt(column, row);
+                  if (!cell) return <td key={column} className="bg-slate-600 rounded-sm" />;
+                  return (
+                    <td key={column}>
+                      <button
+                        onClick={() => onSelect(cell)}
+                        title="Load these parameters"
+                        className={`block rounded-sm overflow-hidden border-2 ${cell === activeCell ? 'border-emerald-400' : 'border-transparent hover:border-sky-400'}`}
+                      >
+                        <img src={getThumbnailUrl(cell.image)} alt={`Sweep cell ${column + 1}, ${row + 1}`} width={cell.image.width} height={cell.image.height} className="block" />
+                        <span className="block text-center font-mono bg-slate-800 py-0.5" style={{ color: harmonyColor(cell.stats.harmony_score) }}>
+                          H {cell.stats.harmony_score.toFixed(3)}
+                        </span>
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-3 flex gap-2">
+        <button onClick={handleExportImage} disabled={cells.length === 0} className={buttonClassName}>Download Contact Sheet (PNG)</button>
+        <button
+          onClick={() => downloadBlob(`${baseName}.csv`, new Blob([sweepToCsv(sweep, cells)], { type: 'text/csv' }))}
+          disabled={cells.length === 0}
+          className={buttonClassName}
+        >
+          Download Data (CSV)
+        </button>
+      </div>
+      {exportError && <p className="text-xs text-red-300 mt-2">{exportError}</p>}
+    </div>
+  );
+};
+
+export default SweepGrid;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { WaveModelId, WaveModelParams } from '../types';
+import { WAVE_MODELS, getWaveModel } from '../services/waveModels';
+import SliderControl from './SliderControl';
+
+interface WaveModelControlsProps {
+  modelId: WaveModelId;
+  params: WaveModelParams;
+  onModelChange: (modelId: WaveModelId) => void;
+  onParamChange: (key: string, value: number) => void;
+}
+
+// Model picker plus one slider per parameter declared by the selected WaveModel.
+const WaveModelControls: React.FC<WaveModelControlsProps> = ({ modelId, params, onModelChange, onParamChange }) => {
+  const model = getWaveModel(modelId);
+
+  return (
+    <div className="mb-4">
+      <label htmlFor="wave_model" className="block text-sm font-medium text-slate-300 mb-1">Wave Model</label>
+      <select
+        id="wave_model"
+        value={modelId}
+        onChange={(e) => onModelChange(e.target.value as WaveModelId)}
+        className="w-full p-2 rounded-md bg-slate-600 text-slate-100 border border-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+      >
+        {WAVE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+      </select>
+      <p className="text-xs text-slate-400 mt-1 mb-3">{model.description}</p>
+      {model.params.map(spec => {
+        const value = params[spec.key] ?? spec.defaultValue;
+        return (
+          <SliderControl
+            key={`${model.id}-${spec.key}`}
+            label={spec.label}
+            id={`wave_${spec.key}`}
+            value={value}
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            decimals={Number.isInteger(spec.step) ? 0 : undefined}
+            valueLabel={spec.valueLabels?.[Math.round(value)]}
+            onChange={(e) => onParamChange(spec.key, parseFloat(e.target.value))}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default WaveModelControls;
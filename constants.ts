@@ -1,7 +1,7 @@
 
-import { ResolutionOption } from './types';
+import { AnimationParams, AutoTuneKey, AutoTuneParams, EnsembleParams, EnsembleSelection, ExportParams, KnotMapViewParams, MaskParams, PaletteMapParams, ResolutionOption, SubQGParams, SweepParams, TransformationParams } from './types';
 
-export const DEFAULT_SUBQG_PARAMS = {
+export const DEFAULT_SUBQG_PARAMS: SubQGParams = {
   sim_duration: 30,
   noise_factor: 0.04,
   threshold_s: 0.75,
@@ -9,15 +9,67 @@ export const DEFAULT_SUBQG_PARAMS = {
   f_energy: 0.15,
   f_phase: 0.155,
   re_s_scaling_c: 0.10,
-  field_w: 64, // Default, will be adjusted based on image size
-  field_h: 64, // Default, will be adjusted based on image size
+  field_w: 64, // Simulation grid width (cells), chosen by the user
+  field_h: 64, // Simulation grid height (cells), chosen by the user
+  seed: 20240601,
+  wave_model: 'lattice',
+  wave_params: { frequency_x: 1, frequency_y: 1 },
+  image_guidance: {
+    enabled: false,
+    energy_channel: 'luminance',
+    phase_channel: 'edges',
+    strength: 0.3,
+  },
 };
 
-export const DEFAULT_TRANSFORMATION_PARAMS = {
+// Allowed simulation grid sizes (cells per axis).
+export const FIELD_SIZE_MIN = 16;
+export const FIELD_SIZE_MAX = 512;
+export const FIELD_SIZE_STEP = 16;
+export const SIM_DURATION_MAX = 100; // Steps
+// Energy and phase bytes of a simulation recording (2 per cell and step); larger runs are not recorded.
+export const SIMULATION_RECORDING_BYTES_MAX = 32 * 1024 * 1024;
+
+export const DEFAULT_TRANSFORMATION_PARAMS: TransformationParams = {
   brightness_factor: 0.0,
   contrast_factor: 1.0,
+  activation_brightness: 0.15,
+  activation_contrast: 0.10,
+  wave_freq_x_base: 3.0,
+  wave_freq_x_harmony: 4.0,
+  wave_freq_y_base: 2.0,
+  wave_freq_y_harmony: 3.0,
+  knot_phase_influence: Math.PI,
+  field_color_modulation: 0.15,
+  field_saturation_ratio: 0.5,
+  field_brightness_variation: 0.10,
+  color_temp_range: 0.25,
+  saturation_range: 0.25,
+  warm_shift_r: 0.20,
+  warm_shift_g: 0.10,
+  warm_shift_b: 0.15,
+  cool_shift_r: 0.15,
+  cool_shift_b: 0.20,
+  post_enhance_threshold: 0.75,
+  post_enhance_contrast: 1.05,
+  post_enhance_saturation: 1.03,
+  post_soften_threshold: 0.25,
+  post_blur_scale: 1.5,
+  post_blur_max: 2.5,
+};
+
+export const DEFAULT_ANIMATION_PARAMS: AnimationParams = {
+  mode: 'phase_cycle',
+  format: 'gif',
+  frame_count: 24,
+  fps: 12,
+  loop: true,
+  max_size: 480,
 };
 
+export const ANIMATION_FRAME_COUNT_MAX = 120;
+export const ANIMATION_SIZE_OPTIONS = [256, 360, 480, 720];
+
 export const RESOLUTION_OPTIONS: ResolutionOption[] = [
   { label: "Test Small (256px)", width: 256, height: 256 },
   { label: "Test Medium (512px)", width: 512, height: 512 },
@@ -29,10 +81,105 @@ export const RESOLUTION_OPTIONS: ResolutionOption[] = [
   { label: "2K Square (2048px)", width: 2048, height: 2048 },
   { label: "2K QHD (Landscape, 1440p)", width: 2560, height: 1440 },
   { label: "4K UHD (Landscape, 2160p)", width: 3840, height: 2160 },
+  { label: "8K UHD (Landscape, 4320p)", width: 7680, height: 4320 },
 ];
 
+// Revision of the rendering pipeline, recorded in exported artwork. Bump it with every change that makes
+// the same settings and inputs render different pixels or stats, so re-imports can warn about it.
+export const RENDER_PIPELINE_REVISION = 1;
+
+// Renders at or above this many pixels (input or output) run tile by tile to bound memory use.
+export const TILED_RENDER_MIN_PIXELS = 3_000_000;
+export const RENDER_TILE_SIZE = 512; // Output pixels per tile side
+
 export const CATEGORY_LABELS_ORDERED = ["Red", "Green", "Blue", "Yellow", "Cyan", "Magenta"];
+// HSV hue (degrees) each category stands for, in CATEGORY_LABELS_ORDERED order.
+export const CATEGORY_HUES = [0, 120, 240, 60, 180, 300];
+
+export const PALETTE_SIZE = 8;              // Colours extracted per image
+export const PALETTE_SAMPLE_COUNT = 20000;  // Pixels sampled for clustering
+export const PALETTE_KMEANS_ITERATIONS = 12;
+export const PALETTE_MIN_SPREAD = 2;        // CIELAB ΔE; tighter clusters are not split further
+export const PALETTE_NEUTRAL_CHROMA = 12;   // CIELAB chroma below which a colour counts as grey
 
 // Use 'imagen-3.0-generate-002' for dedicated image generation as per SDK guidelines.
 export const GEMINI_IMAGE_MODEL = 'imagen-3.0-generate-002'; 
 export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash-preview-04-17'; // For text-based tasks if any were used.
+
+// Aspect ratios offered for generated images (the set Imagen accepts).
+export const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const IMAGE_CANDIDATE_COUNT_MAX = 4;
+
+export const DEFAULT_MASK_PARAMS: MaskParams = {
+  enabled: true,
+  invert: false,
+  feather: 1.5,
+};
+export const MASK_MAX_SIZE = 1024;  // Longest side of painted/uploaded masks
+export const MASK_FEATHER_MAX = 10; // %
+
+export const DEFAULT_PALETTE_MAP_PARAMS: PaletteMapParams = {
+  enabled: true,
+  strength: 0.8,
+  knot_influence: 0.6,
+};
+export const PALETTE_MAP_SPREAD = 20;       // CIELAB ΔE over which a pixel blends between neighbouring palette colours
+export const TARGET_PALETTE_MAX_COLORS = 64;
+
+// Riemann projection: knots whose projected Re(s) lies within RE_S_TARGET ± RE_S_TARGET_RADIUS count as "near 0.5".
+export const RE_S_TARGET = 0.5;
+export const RE_S_TARGET_RADIUS = 0.05;
+
+export const DEFAULT_ENSEMBLE_PARAMS: EnsembleParams = {
+  enabled: false,
+  runs: 8,
+  selection: 'median',
+  target_harmony: 0.75,
+};
+export const ENSEMBLE_SELECTIONS: EnsembleSelection[] = ['median', 'target'];
+export const ENSEMBLE_RUNS_MIN = 2;
+export const ENSEMBLE_RUNS_MAX = 32;
+export const ENSEMBLE_HISTOGRAM_BINS = 40;
+
+export const DEFAULT_SWEEP_PARAMS: SweepParams = {
+  x: { group: 'subQGParams', key: 'f_energy', min: 0.05, max: 0.35, steps: 5 },
+  y: { group: 'subQGParams', key: 'f_phase', min: 0.05, max: 0.35, steps: 5 },
+  thumbnail_size: 128,
+};
+export const SWEEP_STEPS_MAX = 10; // Per axis
+export const SWEEP_THUMBNAIL_SIZES = [96, 128, 192, 256];
+
+export const DEFAULT_AUTO_TUNE_PARAMS: AutoTuneParams = {
+  target: 'harmony_score',
+  target_value: 0.8,
+  keys: ['f_energy', 'f_phase', 'threshold_s', 'noise_factor', 're_s_scaling_c'],
+  max_iterations: 150,
+  time_budget_s: 20,
+};
+// Search range per tunable field (the slider ranges of the controls).
+export const AUTO_TUNE_BOUNDS: Record<AutoTuneKey, [number, number]> = {
+  f_energy: [0.05, 0.35],
+  f_phase: [0.05, 0.35],
+  threshold_s: [0.6, 0.9],
+  noise_factor: [0, 0.25],
+  re_s_scaling_c: [0.05, 0.2],
+};
+export const AUTO_TUNE_TOLERANCE = 0.005; // Stop once the target statistic is this close
+export const AUTO_TUNE_ITERATIONS_MAX = 1000;
+
+
+// --- Artwork export ---
+export const DEFAULT_EXPORT_PARAMS: ExportParams = {
+  format: 'png',
+  quality: 0.92,
+  embed_metadata: true,
+};
+
+// --- Knot map inspector ---
+export const DEFAULT_KNOT_MAP_VIEW_PARAMS: KnotMapViewParams = {
+  colormap: 'viridis',
+  show_contours: false,
+  contour_levels: 4,
+};
+export const KNOT_CONTOUR_LEVELS_MAX = 12;
+export const KNOT_HISTOGRAM_BINS_MAX = 48; // Wider bins once the largest count exceeds this
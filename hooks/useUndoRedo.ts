@@ -0,0 +1,66 @@
+import { useState, useCallback, useRef } from 'react';
+
+// Repeated changes to the same control within this window (e.g. one slider drag) collapse into a
+// single undo step. Changes without a coalesce key (preset apply, restores) always get their own step.
+const COALESCE_WINDOW_MS = 600;
+const MAX_UNDO_STEPS = 100;
+
+interface UndoRedoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UndoRedoState<T> {
+  value: T;
+  set: (update: T | ((prev: T) => T), coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useUndoRedo = <T,>(initialValue: T): UndoRedoState<T> => {
+  const [history, setHistory] = useState<UndoRedoHistory<T>>({ past: [], present: initialValue, future: [] });
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null);
+
+  const set = useCallback((update: T | ((prev: T) => T), coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastChangeRef.current;
+    const coalesce = coalesceKey !== undefined && last !== null && last.key === coalesceKey && now - last.time < COALESCE_WINDOW_MS;
+    lastChangeRef.current = coalesceKey !== undefined ? { key: coalesceKey, time: now } : null;
+    setHistory(prev => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(prev.present) : update;
+      if (Object.is(next, prev.present)) return prev;
+      const past = coalesce && prev.past.length > 0 ? prev.past : [...prev.past, prev.present].slice(-MAX_UNDO_STEPS);
+      return { past, present: next, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      const previous = prev.past[prev.past.length - 1];
+      return { past: prev.past.slice(0, -1), present: previous, future: [prev.present, ...prev.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      const [next, ...future] = prev.future;
+      return { past: [...prev.past, prev.present], present: next, future };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,405 @@
+// Provenance metadata embedded in exported artwork. PNGs carry it as tEXt/iTXt chunks, JPEG and
+// WebP as an XMP packet (APP1 segment / RIFF "XMP " chunk); all hold the same ArtworkMetadata JSON.
+// Works on encoded bytes without a DOM, so the browser export and the CLI embed identical data,
+// and a re-imported export can restore the settings it was rendered with.
+import { ArtworkMetadata, EnsembleSelection, EnsembleStats, ExportFormat, ParameterPreset, PaletteMapping, RenderInputs, RenderSettings, RgbColor, RiemannStats, SerializedRegionMask, SubQGParams } from '../types';
+import { ENSEMBLE_SELECTIONS, MASK_FEATHER_MAX, MASK_MAX_SIZE, RENDER_PIPELINE_REVISION, RESOLUTION_OPTIONS, TARGET_PALETTE_MAX_COLORS } from '../constants';
+import { version } from '../package.json';
+import { createPngInternationalTextChunk, createPngTextChunk, insertPngChunks, isPng } from './pngEncoder';
+import { PresetValidationError, validatePreset } from './presets';
+import { decodeMaskRle, encodeMaskRle } from './regionMask';
+import { WAVE_MODELS, getWaveModel } from './waveModels';
+
+export const ARTWORK_METADATA_FORMAT = 'subqg-artwork';
+// 1: settings, stats and preset name
+// 2: plus the pipeline revision, region mask, palette mapping and ensemble of the render
+export const ARTWORK_METADATA_VERSION = 2;
+export const ARTWORK_SOFTWARE = 'SubQG Image Transformer';
+export const APP_VERSION: string = version;
+
+export class ArtworkMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtworkMetadataError';
+  }
+}
+
+const PNG_METADATA_KEYWORD = 'SubQG';
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const SUBQG_XMP_NAMESPACE = 'https://subqg-image-transformer/ns/1.0/';
+const JPEG_SEGMENT_MAX = 0xffff - 2; // Payload bytes per segment, after the length field
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  png16: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+// What a render used besides its settings.
+export interface ArtworkRenderContext {
+  preset?: string;
+  inputs?: RenderInputs | null; // null: unknown (e.g. an older history entry), recorded as missing
+  ensemble?: EnsembleStats | null;
+}
+
+export const createArtworkMetadata = (
+  settings: RenderSettings,
+  stats: RiemannStats,
+  width: number,
+  height: number,
+  { preset, inputs, ensemble }: ArtworkRenderContext = {}
+): ArtworkMetadata => {
+  const { knot_map_visual_uri: _visual, ...plainStats } = stats;
+  const mask = inputs?.mask;
+  return {
+    format: ARTWORK_METADATA_FORMAT,
+    version: ARTWORK_METADATA_VERSION,
+    app_version: APP_VERSION,
+    pipeline_revision: RENDER_PIPELINE_REVISION,
+    created_at: new Date().toISOString(),
+    ...(preset ? { preset } : {}),
+    resolution: settings.resolution,
+    width,
+    height,
+    subQGParams: settings.subQGParams,
+    transformParams: settings.transformParams,
+    stats: plainStats,
+    ...(mask ? {
+      mask: { width: mask.field.width, height: mask.field.height, invert: mask.invert, feather: mask.feather, rle: encodeMaskRle(mask.field) },
+    } : {}),
+    ...(inputs?.paletteMap ? { palette_map: inputs.paletteMap } : {}),
+    ...(ensemble ? {
+      ensemble: { runs: ensemble.seeds.length, selection: ensemble.selection, target_harmony: ensemble.target_harmony, selected_run: ensemble.selected_run },
+    } : {}),
+    ...(inputs === null ? { missing_inputs: ['region mask', 'palette mapping'] } : {}),
+  };
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// e.g. "nebula-drift_seed-1234567_harmony-0.812" (without extension).
+export const getArtworkFileName = (metadata: ArtworkMetadata): string => {
+  const preset = (metadata.preset && slugify(metadata.preset)) || 'subqg';
+  return `${preset}_seed-${metadata.subQGParams.seed}_harmony-${metadata.stats.harmony_score.toFixed(3)}`;
+};
+
+const describeArtwork = (metadata: ArtworkMetadata): string =>
+  `SubQG artwork, seed ${metadata.subQGParams.seed}, harmony ${metadata.stats.harmony_score.toFixed(3)}` +
+  (metadata.preset ? `, preset "${metadata.preset}"` : '');
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const createXmpPacket = (metadata: ArtworkMetadata): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `  <rdf:Description rdf:about="" xmlns:xmp="${XMP_NAMESPACE}" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:subqg="${SUBQG_XMP_NAMESPACE}"`,
+  `   xmp:CreatorTool="${ARTWORK_SOFTWARE}" xmp:CreateDate="${metadata.created_at}">`,
+  `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(describeArtwork(metadata))}</rdf:li></rdf:Alt></dc:description>`,
+  `   <subqg:settings>${escapeXml(JSON.stringify(metadata))}</subqg:settings>`,
+  '  </rdf:Description>',
+  ' </rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('\n');
+
+const embedInPng = (png: Uint8Array, metadata: ArtworkMetadata): Uint8Array =>
+  insertPngChunks(png, [
+    createPngTextChunk('Software', ARTWORK_SOFTWARE),
+    createPngTextChunk('Description', describeArtwork(metadata)),
+    createPngTextChunk('Creation Time', metadata.created_at),
+    createPngInternationalTextChunk(PNG_METADATA_KEYWORD, JSON.stringify(metadata)),
+    createPngInternationalTextChunk(XMP_PNG_KEYWORD, createXmpPacket(metadata)),
+  ]);
+
+const createJpegXmpPayload = (metadata: ArtworkMetadata): Uint8Array =>
+  new TextEncoder().encode(`${XMP_NAMESPACE}\0${createXmpPacket(metadata)}`);
+
+// The metadata as it will be stored in the format: JPEG holds one XMP segment of at most 64 KB, so a
+// region mask that does not fit is left out and listed in missing_inputs.
+export const fitArtworkMetadata = (metadata: ArtworkMetadata, format: ExportFormat): ArtworkMetadata => {
+  if (format !== 'jpeg' || !metadata.mask || createJpegXmpPayload(metadata).length <= JPEG_SEGMENT_MAX) return metadata;
+  const { mask: _mask, ...rest } = metadata;
+  return { ...rest, missing_inputs: [...(metadata.missing_inputs ?? []), 'region mask (too large for JPEG; use PNG or WebP)'] };
+};
+
+// APP1 segment right after SOI, or after the JFIF APP0 segment, which must stay first.
+const embedInJpeg = (jpeg: Uint8Array, metadata: ArtworkMetadata): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error("Not a JPEG file.");
+  const payload = createJpegXmpPayload(metadata);
+  if (payload.length > JPEG_SEGMENT_MAX) throw new Error("The metadata is too large for a JPEG XMP segment.");
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt += 2 + ((jpeg[4] << 8) | jpeg[5]);
+  const out = new Uint8Array(jpeg.length + segment.length);
+  out.set(jpeg.subarray(0, insertAt));
+  out.set(segment, insertAt);
+  out.set(jpeg.subarray(insertAt), insertAt + segment.length);
+  return out;
+};
+
+const fourCC = (bytes: Uint8Array, offset: number): string => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const createRiffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1)); // Odd sizes are padded
+  chunk.set(Uint8Array.from(type, c => c.charCodeAt(0)));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const setUint24 = (bytes: Uint8Array, offset: number, value: number) => { // Little-endian
+  bytes.set([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff], offset);
+};
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_ALPHA_FLAG = 0x10;
+
+// Appends an "XMP " chunk. Simple (VP8/VP8L-only) files get the extended VP8X header that
+// announces it; its alpha flag mirrors the VP8L alpha hint.
+const embedInWebp = (webp: Uint8Array, metadata: ArtworkMetadata): Uint8Array => {
+  if (fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') throw new Error("Not a WebP file.");
+  const chunks = webp.slice(12);
+  let vp8xChunk = new Uint8Array(0);
+  if (fourCC(chunks, 0) === 'VP8X') {
+    chunks[8] |= VP8X_XMP_FLAG;
+  } else {
+    const hasAlpha = fourCC(chunks, 0) === 'VP8L' && ((chunks[12] >> 4) & 1) === 1;
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = VP8X_XMP_FLAG | (hasAlpha ? VP8X_ALPHA_FLAG : 0);
+    setUint24(vp8x, 4, metadata.width - 1); // Canvas size minus one
+    setUint24(vp8x, 7, metadata.height - 1);
+    vp8xChunk = createRiffChunk('VP8X', vp8x);
+  }
+  const xmpChunk = createRiffChunk('XMP ', new TextEncoder().encode(createXmpPacket(metadata)));
+  const out = new Uint8Array(12 + vp8xChunk.length + chunks.length + xmpChunk.length);
+  out.set(webp.subarray(0, 12));
+  out.set(vp8xChunk, 12);
+  out.set(chunks, 12 + vp8xChunk.length);
+  out.set(xmpChunk, 12 + vp8xChunk.length + chunks.length);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
+
+// Embeds the metadata into an encoded image of the given export format.
+export const embedArtworkMetadata = (bytes: Uint8Array, format: ExportFormat, metadata: ArtworkMetadata): Uint8Array => {
+  switch (format) {
+    case 'png':
+    case 'png16':
+      return embedInPng(bytes, metadata);
+    case 'jpeg':
+      return embedInJpeg(bytes, fitArtworkMetadata(metadata, format));
+    case 'webp':
+      return embedInWebp(bytes, metadata);
+  }
+};
+
+// --- Reading ---
+
+const XMP_SETTINGS_PATTERN = /<subqg:settings>([\s\S]*?)<\/subqg:settings>/;
+
+const unescapeXml = (text: string): string =>
+  text.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const settingsFromXmp = (xmp: string): string | null => {
+  const match = XMP_SETTINGS_PATTERN.exec(xmp);
+  return match ? unescapeXml(match[1]) : null;
+};
+
+// The SubQG iTXt chunk, or the settings inside the XMP chunk.
+const readPngSettings = (png: Uint8Array): string | null => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const decoder = new TextDecoder();
+  let xmp: string | null = null;
+  for (let offset = 8; offset + 12 <= png.length;) {
+    const length = view.getUint32(offset);
+    const type = fourCC(png, offset + 4);
+    if (type === 'IEND') break;
+    if (type === 'iTXt') {
+      const data = png.subarray(offset + 8, offset + 8 + length);
+      const keywordEnd = data.indexOf(0);
+      const keyword = String.fromCharCode(...data.subarray(0, keywordEnd));
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const textStart = data.indexOf(0, languageEnd + 1) + 1;
+      const compressed = data[keywordEnd + 1] !== 0;
+      if (!compressed && keyword === PNG_METADATA_KEYWORD) return decoder.decode(data.subarray(textStart));
+      if (!compressed && keyword === XMP_PNG_KEYWORD) xmp = decoder.decode(data.subarray(textStart));
+    }
+    offset += 12 + length;
+  }
+  return xmp && settingsFromXmp(xmp);
+};
+
+// The XMP APP1 segment among the segments before the image data.
+const readJpegSettings = (jpeg: Uint8Array): string | null => {
+  const signature = new TextEncoder().encode(`${XMP_NAMESPACE}\0`);
+  for (let offset = 2; offset + 4 <= jpeg.length && jpeg[offset] === 0xff;) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const payload = jpeg.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && signature.every((value, i) => payload[i] === value)) {
+      return settingsFromXmp(new TextDecoder().decode(payload.subarray(signature.length)));
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readWebpSettings = (webp: Uint8Array): string | null => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  for (let offset = 12; offset + 8 <= webp.length;) {
+    const size = view.getUint32(offset + 4, true);
+    if (fourCC(webp, offset) === 'XMP ') return settingsFromXmp(new TextDecoder().decode(webp.subarray(offset + 8, offset + 8 + size)));
+    offset += 8 + size + (size & 1);
+  }
+  return null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUnitNumber = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+const isRgbColor = (value: unknown): value is RgbColor =>
+  isObject(value) && ['r', 'g', 'b'].every(c => typeof value[c] === 'number' && (value[c] as number) >= 0 && (value[c] as number) <= 255);
+
+const parseMask = (raw: unknown): SerializedRegionMask => {
+  const isSize = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MASK_MAX_SIZE;
+  if (!isObject(raw) || !isSize(raw.width) || !isSize(raw.height) || typeof raw.invert !== 'boolean'
+    || typeof raw.feather !== 'number' || raw.feather < 0 || raw.feather > MASK_FEATHER_MAX || typeof raw.rle !== 'string') {
+    throw new ArtworkMetadataError("The embedded region mask is invalid.");
+  }
+  try {
+    decodeMaskRle(raw.rle, raw.width as number, raw.height as number);
+  } catch (err) {
+    throw new ArtworkMetadataError(`The embedded region mask is invalid: ${(err as Error).message}`);
+  }
+  return { width: raw.width as number, height: raw.height as number, invert: raw.invert, feather: raw.feather, rle: raw.rle };
+};
+
+const parsePaletteMapping = (raw: unknown): PaletteMapping => {
+  if (!isObject(raw) || !Array.isArray(raw.target) || raw.target.length === 0 || raw.target.length > TARGET_PALETTE_MAX_COLORS
+    || !raw.target.every(isRgbColor) || !isUnitNumber(raw.strength) || !isUnitNumber(raw.knotInfluence)) {
+    throw new ArtworkMetadataError("The embedded palette mapping is invalid.");
+  }
+  return { target: raw.target.map(({ r, g, b }) => ({ r, g, b })), strength: raw.strength, knotInfluence: raw.knotInfluence };
+};
+
+const parseEnsemble = (raw: unknown): NonNullable<ArtworkMetadata['ensemble']> => {
+  const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  if (!isObject(raw) || !isCount(raw.runs) || !isCount(raw.selected_run) || !isUnitNumber(raw.target_harmony)
+    || !ENSEMBLE_SELECTIONS.includes(raw.selection as EnsembleSelection)) {
+    throw new ArtworkMetadataError("The embedded ensemble settings are invalid.");
+  }
+  return { runs: raw.runs as number, selection: raw.selection as EnsembleSelection, target_harmony: raw.target_harmony, selected_run: raw.selected_run as number };
+};
+
+const parseArtworkMetadata = (text: string): ArtworkMetadata => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ArtworkMetadataError(`The embedded settings are not valid JSON: ${(err as Error).message}`);
+  }
+  if (!isObject(raw) || raw.format !== ARTWORK_METADATA_FORMAT) {
+    throw new ArtworkMetadataError(`The embedded settings are not in the "${ARTWORK_METADATA_FORMAT}" format.`);
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new ArtworkMetadataError(`Invalid metadata version ${JSON.stringify(raw.version)}.`);
+  }
+  if (raw.version > ARTWORK_METADATA_VERSION) {
+    throw new ArtworkMetadataError(
+      `The artwork was exported with metadata version ${raw.version}, but this app only understands up to version ${ARTWORK_METADATA_VERSION}. Please update the app.`
+    );
+  }
+  const waveModel = isObject(raw.subQGParams) ? raw.subQGParams.wave_model : undefined;
+  if (!WAVE_MODELS.some(model => model.id === waveModel)) {
+    throw new ArtworkMetadataError(`The artwork uses the wave model ${JSON.stringify(waveModel)}, which this app version does not know.`);
+  }
+  const stats = raw.stats;
+  if (!isObject(stats) || typeof stats.harmony_score !== 'number') {
+    throw new ArtworkMetadataError("The embedded settings have no valid Riemann stats.");
+  }
+
+  let preset: ParameterPreset;
+  try {
+    const name = typeof raw.preset === 'string' && raw.preset ? raw.preset : 'SubQG artwork';
+    preset = validatePreset({ name, subQGParams: raw.subQGParams, transformParams: raw.transformParams }, 'Embedded settings');
+  } catch (err) {
+    if (err instanceof PresetValidationError) throw new ArtworkMetadataError(err.message);
+    throw err;
+  }
+  return {
+    format: ARTWORK_METADATA_FORMAT,
+    version: raw.version,
+    app_version: typeof raw.app_version === 'string' ? raw.app_version : '',
+    ...(typeof raw.pipeline_revision === 'number' ? { pipeline_revision: raw.pipeline_revision } : {}),
+    created_at: typeof raw.created_at === 'string' ? raw.created_at : '',
+    ...(typeof raw.preset === 'string' && raw.preset ? { preset: raw.preset } : {}),
+    resolution: typeof raw.resolution === 'string' ? raw.resolution : '',
+    width: typeof raw.width === 'number' ? raw.width : 0,
+    height: typeof raw.height === 'number' ? raw.height : 0,
+    subQGParams: preset.subQGParams,
+    transformParams: preset.transformParams,
+    stats: stats as unknown as RiemannStats,
+    ...(raw.mask !== undefined ? { mask: parseMask(raw.mask) } : {}),
+    ...(raw.palette_map !== undefined ? { palette_map: parsePaletteMapping(raw.palette_map) } : {}),
+    ...(raw.ensemble !== undefined ? { ensemble: parseEnsemble(raw.ensemble) } : {}),
+    ...(Array.isArray(raw.missing_inputs) ? { missing_inputs: raw.missing_inputs.filter((input): input is string => typeof input === 'string') } : {}),
+  };
+};
+
+// The metadata embedded in an exported PNG, JPEG or WebP file; null if the file carries none.
+// Throws ArtworkMetadataError if the file has SubQG metadata that cannot be used.
+export const readArtworkMetadata = (bytes: Uint8Array): ArtworkMetadata | null => {
+  let text: string | null = null;
+  if (isPng(bytes)) text = readPngSettings(bytes);
+  else if (bytes[0] === 0xff && bytes[1] === 0xd8) text = readJpegSettings(bytes);
+  else if (bytes.length >= 12 && fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') text = readWebpSettings(bytes);
+  return text === null ? null : parseArtworkMetadata(text);
+};
+
+// The mask and palette mapping to restore; null for version 1 files, which do not record them.
+export const getArtworkRenderInputs = (metadata: ArtworkMetadata): RenderInputs | null => {
+  if (metadata.version < 2) return null;
+  const { mask, palette_map } = metadata;
+  return {
+    mask: mask ? { field: decodeMaskRle(mask.rle, mask.width, mask.height), invert: mask.invert, feather: mask.feather } : null,
+    paletteMap: palette_map ?? null,
+  };
+};
+
+// What restoring the metadata cannot reproduce exactly or will change beyond the sliders.
+export const getArtworkRestoreWarnings = (metadata: ArtworkMetadata, current: SubQGParams, currentInputs: RenderInputs): string[] => {
+  const warnings: string[] = [];
+  if (metadata.pipeline_revision === undefined) {
+    warnings.push(`The file does not record the render pipeline revision it was made with; this app renders with revision ${RENDER_PIPELINE_REVISION}, so the render may differ.`);
+  } else if (metadata.pipeline_revision !== RENDER_PIPELINE_REVISION) {
+    warnings.push(`Rendered with pipeline revision ${metadata.pipeline_revision}; this app renders with revision ${RENDER_PIPELINE_REVISION}, so the render may differ.`);
+  }
+  if (metadata.version < 2) {
+    warnings.push("The file does not record the region mask and palette mapping; the current ones are kept, so the render may differ.");
+  } else {
+    if (metadata.missing_inputs?.length) {
+      warnings.push(`The file does not hold the ${metadata.missing_inputs.join(' and ')} of the render, so the render will differ.`);
+    }
+    if (!metadata.mask && currentInputs.mask) warnings.push("Turns off the current region mask.");
+    if (!metadata.palette_map && currentInputs.paletteMap) warnings.push("Turns off the current palette mapping.");
+  }
+  if (metadata.subQGParams.wave_model !== current.wave_model) {
+    warnings.push(`Switches the wave model from "${getWaveModel(current.wave_model).label}" to "${getWaveModel(metadata.subQGParams.wave_model).label}".`);
+  }
+  if (!RESOLUTION_OPTIONS.some(option => option.label === metadata.resolution)) {
+    warnings.push(`Unknown output resolution "${metadata.resolution}"; the current resolution is kept.`);
+  }
+  return warnings;
+};
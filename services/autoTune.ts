@@ -0,0 +1,88 @@
+// Target-harmony auto-tuner: searches the SubQG parameters for a simulation whose harmony_score (or
+// mean projected Re(s)) hits a target. The objective is SubQGSimulator.analyzeRiemannProjection at the
+// current seed, so the tuned parameters reproduce the reached value exactly.
+//
+// Search: a seeded (1+1) evolution strategy. Each iteration perturbs the best parameters with Gaussian
+// steps scaled to each field's range; the step size grows after an improvement and shrinks otherwise.
+// Ties are accepted so the search can drift across flat regions (e.g. "no knots at all").
+import { AutoTuneKey, AutoTuneParams, AutoTuneResult, AutoTuneStep, AutoTuneStopReason, RgbaImage, SubQGParams } from '../types';
+import { AUTO_TUNE_BOUNDS, AUTO_TUNE_TOLERANCE } from '../constants';
+import { clamp } from './mathHelpers';
+import { RandomSource, createStreamRandom, RANDOM_STREAM_AUTO_TUNE } from './random';
+import { SubQGSimulator } from './subqg';
+import { SimulationGuidance, createSimulationGuidance } from './imageGuidance';
+
+const INITIAL_STEP = 0.2; // Fraction of each field's range
+const MIN_STEP = 0.01;
+const MAX_STEP = 0.5;
+const STEP_GROWTH = 1.5;
+const STEP_DECAY = 0.92;
+
+const gaussian = (random: RandomSource): number => {
+  const u = Math.max(random.next(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random.next());
+};
+
+const clampToBounds = (key: AutoTuneKey, value: number): number => clamp(value, AUTO_TUNE_BOUNDS[key][0], AUTO_TUNE_BOUNDS[key][1]);
+
+const evaluate = (params: SubQGParams, guidance: SimulationGuidance | null, tune: AutoTuneParams): number => {
+  const simulator = new SubQGSimulator(params, undefined, guidance);
+  simulator.runSimulation();
+  return simulator.analyzeRiemannProjection()[tune.target];
+};
+
+export const runAutoTune = (
+  originalImageData: RgbaImage,
+  subQGParams: SubQGParams,
+  tune: AutoTuneParams,
+  onStep?: (step: AutoTuneStep) => void
+): AutoTuneResult => {
+  const startTime = performance.now();
+  const guidance = createSimulationGuidance(originalImageData, subQGParams.image_guidance, subQGParams.field_w, subQGParams.field_h);
+  const random = createStreamRandom(subQGParams.seed, RANDOM_STREAM_AUTO_TUNE);
+  const steps: AutoTuneStep[] = [];
+  const record = (step: AutoTuneStep) => {
+    steps.push(step);
+    onStep?.(step);
+  };
+
+  let best: SubQGParams = { ...subQGParams };
+  for (const key of tune.keys) best[key] = clampToBounds(key, best[key]);
+  let bestValue = evaluate(best, guidance, tune);
+  let bestError = Math.abs(bestValue - tune.target_value);
+  record({ iteration: 0, value: bestValue, best_value: bestValue, best_error: bestError });
+
+  let stepSize = INITIAL_STEP;
+  let stopReason: AutoTuneStopReason = 'iterations';
+  for (let iteration = 1; iteration <= tune.max_iterations; iteration++) {
+    if (bestError <= AUTO_TUNE_TOLERANCE) {
+      stopReason = 'converged';
+      break;
+    }
+    if (performance.now() - startTime > tune.time_budget_s * 1000) {
+      stopReason = 'time';
+      break;
+    }
+    const candidate: SubQGParams = { ...best };
+    for (const key of tune.keys) {
+      const [min, max] = AUTO_TUNE_BOUNDS[key];
+      candidate[key] = clampToBounds(key, best[key] + gaussian(random) * stepSize * (max - min));
+    }
+    const value = evaluate(candidate, guidance, tune);
+    const error = Math.abs(value - tune.target_value);
+    if (error < bestError) {
+      stepSize = Math.min(MAX_STEP, stepSize * STEP_GROWTH);
+    } else {
+      stepSize = Math.max(MIN_STEP, stepSize * STEP_DECAY);
+    }
+    if (error <= bestError) {
+      best = candidate;
+      bestValue = value;
+      bestError = error;
+    }
+    record({ iteration, value, best_value: bestValue, best_error: bestError });
+  }
+  if (stopReason === 'iterations' && bestError <= AUTO_TUNE_TOLERANCE) stopReason = 'converged';
+
+  return { params: tune, start: subQGParams, best, steps, stop_reason: stopReason, elapsed_ms: performance.now() - startTime };
+};
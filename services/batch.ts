@@ -0,0 +1,86 @@
+// Batch queue bookkeeping: output names inside the ZIP archive and the CSV/JSON manifest of
+// every item's settings and RiemannStats.
+import { BatchItem, BatchItemStatus, RenderSettings, RiemannStats } from '../types';
+import { RENDER_PIPELINE_REVISION } from '../constants';
+import { APP_VERSION } from './artworkMetadata';
+
+export const BATCH_MANIFEST_FORMAT = 'subqg-batch';
+export const BATCH_MANIFEST_VERSION = 1;
+
+export interface BatchManifestEntry {
+  source: string;
+  output: string | null; // Path inside the archive; null if the item has no result
+  status: BatchItemStatus;
+  width?: number;
+  height?: number;
+  settings?: RenderSettings;
+  preset?: string;
+  stats?: RiemannStats;
+  error?: string;
+}
+
+export const createBatchItemId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// "photos/cat.jpg" → "photos/cat.subqg.png"; clashes get a numeric suffix.
+const getOutputName = (path: string, extension: string, taken: Set<string>): string => {
+  const base = path.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\.[^./]+$/, '');
+  let name = `${base}.subqg.${extension}`;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}-${n}.subqg.${extension}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// One entry per item in queue order, with unique output names for the finished ones.
+export const createBatchManifest = (items: BatchItem[]): BatchManifestEntry[] => {
+  const taken = new Set(['manifest.csv', 'manifest.json']);
+  return items.map(item => ({
+    source: item.path,
+    output: item.status === 'done' && item.output ? getOutputName(item.path, item.outputExtension ?? 'png', taken) : null,
+    status: item.status,
+    width: item.width,
+    height: item.height,
+    settings: item.settings,
+    ...(item.preset ? { preset: item.preset } : {}),
+    stats: item.stats,
+    ...(item.error ? { error: item.error } : {}),
+  }));
+};
+
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchManifestToCsv = (entries: BatchManifestEntry[]): string => {
+  const header = ['source', 'output', 'status', 'width', 'height', 'seed', 'wave_model', 'preset', 'harmony_score', 'mean_re_s', 'median_re_s', 'std_dev_re_s', 'count_near_0_5', 'total_projected_knots', 'error'];
+  const rows = entries.map(entry => [
+    entry.source,
+    entry.output ?? undefined,
+    entry.status,
+    entry.width,
+    entry.height,
+    entry.settings?.subQGParams.seed,
+    entry.settings?.subQGParams.wave_model,
+    entry.preset,
+    entry.stats?.harmony_score,
+    entry.stats?.mean_re_s,
+    entry.stats?.median_re_s,
+    entry.stats?.std_dev_re_s,
+    entry.stats?.count_near_0_5,
+    entry.stats?.total_projected_knots,
+    entry.error,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+export const batchManifestToJson = (entries: BatchManifestEntry[]): string =>
+  JSON.stringify({
+    format: BATCH_MANIFEST_FORMAT,
+    version: BATCH_MANIFEST_VERSION,
+    app_version: APP_VERSION,
+    pipeline_revision: RENDER_PIPELINE_REVISION,
+    created_at: new Date().toISOString(),
+    items: entries,
+  }, null, 2) + '\n';
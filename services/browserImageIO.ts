@@ -0,0 +1,152 @@
+// Browser-only image decoding/encoding around the DOM-free pixel pipeline in imageUtils.ts.
+import { ArtworkMetadata, BatchSource, ExportFormat, ExportParams, KnotMap, RgbaImage } from '../types';
+import { knotMapToGrayscaleImage, resizeImageData } from './imageUtils';
+import { encodePng16 } from './pngEncoder';
+import { embedArtworkMetadata } from './artworkMetadata';
+
+export const loadImageData = (imageSrc: string): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous"; // For images from other domains like picsum or Gemini output
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = (err) => reject(err);
+    img.src = imageSrc;
+  });
+};
+
+export const rgbaImageToImageData = (image: RgbaImage): ImageData =>
+  image instanceof ImageData ? image : new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+
+export const imageDataToDataURL = (imageData: RgbaImage): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.putImageData(rgbaImageToImageData(imageData), 0, 0);
+  return canvas.toDataURL();
+};
+
+export const knotMapToVisualDataURL = (knotMap: KnotMap): string => {
+  if (!knotMap || knotMap.width === 0 || knotMap.height === 0) {
+    const placeholderCanvas = document.createElement('canvas');
+    placeholderCanvas.width = 64; // Standard small size
+    placeholderCanvas.height = 64;
+    const phCtx = placeholderCanvas.getContext('2d');
+    if (phCtx) {
+      phCtx.fillStyle = 'rgba(50,50,70,1)'; // Dark slate
+      phCtx.fillRect(0,0,64,64);
+      phCtx.font = '10px sans-serif';
+      phCtx.fillStyle = 'rgba(150,150,170,1)';
+      phCtx.textAlign = 'center';
+      phCtx.fillText('No Map', 32, 36);
+    }
+    return placeholderCanvas.toDataURL();
+  }
+  return imageDataToDataURL(knotMapToGrayscaleImage(knotMap));
+};
+
+// `quality` (0-1) applies to lossy types only.
+export const imageDataToBlob = (imageData: RgbaImage, type = 'image/png', quality?: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error("Could not get canvas context"));
+  ctx.putImageData(rgbaImageToImageData(imageData), 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode image")), type, quality);
+  });
+};
+
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read image data"));
+    reader.readAsDataURL(blob);
+  });
+
+// Scales the image down (never up) so its longer side is at most maxSide pixels.
+export const createThumbnailDataURL = (imageData: RgbaImage, maxSide: number): string => {
+  const scale = Math.min(1, maxSide / Math.max(imageData.width, imageData.height));
+  if (scale === 1) return imageDataToDataURL(imageData);
+  const width = Math.max(1, Math.round(imageData.width * scale));
+  const height = Math.max(1, Math.round(imageData.height * scale));
+  return imageDataToDataURL(resizeImageData(imageData, width, height));
+};
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  png16: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// Browsers without a WebP encoder silently fall back to PNG.
+export const isWebpEncodingSupported = (): boolean => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+};
+
+// Encodes the artwork in the chosen export format, optionally with embedded provenance metadata.
+export const encodeArtwork = async (image: RgbaImage, params: ExportParams, metadata: ArtworkMetadata | null): Promise<Blob> => {
+  const type = EXPORT_MIME_TYPES[params.format];
+  let bytes: Uint8Array;
+  if (params.format === 'png16') {
+    bytes = await encodePng16(image);
+  } else {
+    const blob = await imageDataToBlob(image, type, params.format === 'png' ? undefined : params.quality);
+    if (blob.type !== type) throw new Error(`This browser cannot encode ${type}.`);
+    bytes = new Uint8Array(await blob.arrayBuffer());
+  }
+  if (metadata) bytes = embedArtworkMetadata(bytes, params.format, metadata);
+  return new Blob([bytes], { type });
+};
+
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|svg)$/i;
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/') || IMAGE_FILE_PATTERN.test(file.name);
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const collectEntryFiles = async (entry: FileSystemEntry, out: BatchSource[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    if (isImageFile(file)) out.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the children in chunks until it returns an empty list
+  for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+    for (const child of batch) await collectEntryFiles(child, out);
+  }
+};
+
+// Image files of a drop, including the contents of dropped folders (recursively), sorted by path.
+export const collectDroppedImageFiles = async (dataTransfer: DataTransfer): Promise<BatchSource[]> => {
+  // Entries must be taken synchronously, before the first await invalidates the DataTransfer
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isImageFile).map(file => ({ file, path: file.name }));
+  }
+  const sources: BatchSource[] = [];
+  for (const entry of entries) await collectEntryFiles(entry, sources);
+  return sources.sort((a, b) => a.path.localeCompare(b.path));
+};
@@ -0,0 +1,124 @@
+// Ensemble mode: with noise_factor > 0 the harmony score of one simulation run is a single sample.
+// runSimulationEnsemble repeats the simulation with N seeds, summarises every RiemannStats field across
+// the runs, bins the projected Re(s) values of all runs and picks the run to render. Run 0 uses the
+// base seed, and each run is exactly what a single render with its seed would simulate.
+import { EnsembleRequest, EnsembleSelection, EnsembleStats, KnotMap, ReSHistogram, RiemannStatKey, RiemannStats, StatSummary, SubQGParams } from '../types';
+import { ENSEMBLE_HISTOGRAM_BINS, RE_S_TARGET, RE_S_TARGET_RADIUS } from '../constants';
+import { calculateMean } from './mathHelpers';
+import { deriveSeed } from './random';
+import { SubQGSimulator } from './subqg';
+import { SimulationGuidance } from './imageGuidance';
+
+export const RIEMANN_STAT_KEYS: RiemannStatKey[] = [
+  'harmony_score',
+  'mean_re_s',
+  'median_re_s',
+  'std_dev_re_s',
+  'count_near_0_5',
+  'total_projected_knots',
+  'internal_prescale_factor_used',
+];
+
+// Two-sided 95% Student's t quantiles for 1-30 degrees of freedom; the normal quantile beyond.
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// Mean, sample standard deviation and the 95% confidence interval of the mean.
+export const summarizeStat = (values: number[]): StatSummary => {
+  const n = values.length;
+  const mean = calculateMean(values);
+  const std_dev = n > 1 ? Math.sqrt(values.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (n - 1)) : 0;
+  const halfWidth = n > 1 ? (T_95[n - 2] ?? 1.96) * std_dev / Math.sqrt(n) : 0;
+  return { mean, std_dev, ci_low: mean - halfWidth, ci_high: mean + halfWidth };
+};
+
+export const getEnsembleSeed = (seed: number, run: number): number =>
+  run === 0 ? seed : deriveSeed(seed, `ensemble-${run}`);
+
+// Spans the observed Re(s) values and the target band.
+export const createReSHistogram = (valuesPerRun: number[][]): ReSHistogram => {
+  let min = RE_S_TARGET - RE_S_TARGET_RADIUS;
+  let max = RE_S_TARGET + RE_S_TARGET_RADIUS;
+  for (const values of valuesPerRun) {
+    for (const value of values) { // No spread: knot lists can be long
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  const counts: number[] = new Array(ENSEMBLE_HISTOGRAM_BINS).fill(0);
+  const binWidth = (max - min) / ENSEMBLE_HISTOGRAM_BINS;
+  for (const values of valuesPerRun) {
+    for (const value of values) {
+      counts[Math.min(ENSEMBLE_HISTOGRAM_BINS - 1, Math.floor((value - min) / binWidth))]++;
+    }
+  }
+  return { min, max, counts };
+};
+
+// Index of the run to render.
+export const selectEnsembleRun = (harmonyScores: number[], selection: EnsembleSelection, targetHarmony: number): number => {
+  if (selection === 'target') {
+    return harmonyScores.reduce(
+      (best, score, run) => Math.abs(score - targetHarmony) < Math.abs(harmonyScores[best] - targetHarmony) ? run : best,
+      0
+    );
+  }
+  // Lower median for an even number of runs; equal scores keep run order
+  const order = harmonyScores.map((_, run) => run).sort((a, b) => harmonyScores[a] - harmonyScores[b] || a - b);
+  return order[Math.floor((order.length - 1) / 2)];
+};
+
+export interface EnsembleResult {
+  ensemble: EnsembleStats;
+  // The selected run
+  seed: number;
+  knot_map: KnotMap;
+  stats: RiemannStats;
+}
+
+export const runSimulationEnsemble = (
+  subQGParams: SubQGParams,
+  guidance: SimulationGuidance | null,
+  request: EnsembleRequest,
+  onRunDone?: (done: number, total: number) => void
+): EnsembleResult => {
+  const runs = Math.max(1, Math.round(request.runs));
+  const projected: number[][] = [];
+  const seeds: number[] = [];
+  const knotMaps: KnotMap[] = [];
+  const runStats: RiemannStats[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const seed = getEnsembleSeed(subQGParams.seed, run);
+    const simulator = new SubQGSimulator({ ...subQGParams, seed }, undefined, guidance);
+    knotMaps.push(simulator.runSimulation().knot_map);
+    runStats.push(simulator.analyzeRiemannProjection());
+    projected.push(simulator.getProjectedReS());
+    seeds.push(seed);
+    onRunDone?.(run + 1, runs);
+  }
+
+  const harmony_scores = runStats.map(stats => stats.harmony_score);
+  const selected_run = selectEnsembleRun(harmony_scores, request.selection, request.targetHarmony);
+  const summary = Object.fromEntries(
+    RIEMANN_STAT_KEYS.map(key => [key, summarizeStat(runStats.map(stats => stats[key]))])
+  ) as Record<RiemannStatKey, StatSummary>;
+
+  return {
+    ensemble: {
+      seeds,
+      harmony_scores,
+      summary,
+      histogram: createReSHistogram(projected),
+      selection: request.selection,
+      target_harmony: request.targetHarmony,
+      selected_run,
+    },
+    seed: seeds[selected_run],
+    knot_map: knotMaps[selected_run],
+    stats: runStats[selected_run],
+  };
+};
@@ -0,0 +1,304 @@
+// Animated GIF (GIF89a) encoder in plain TypeScript, usable in workers and in Node.
+// Every frame is quantized to its own 256-colour palette (median cut over that frame; the first one is
+// the global colour table, later frames carry a local one) and LZW-compressed as it arrives, so callers
+// never need to hold the whole sequence in memory and colours that only appear later keep their palette entries.
+import { RgbaImage } from '../types';
+
+export interface GifEncoderOptions {
+  delayMs: number; // Per frame; GIF stores centiseconds
+  loop: boolean;   // true: repeat forever (NETSCAPE2.0 extension), false: play once
+}
+
+export interface GifEncoder {
+  addFrame(image: RgbaImage): void;
+  finish(): Uint8Array;
+}
+
+const PALETTE_SIZE = 256;
+const HISTOGRAM_BITS = 6; // Per channel; 2^18 histogram bins
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+const MAX_LZW_CODE = 4095;
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number): void { // Little-endian 16 bit
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+const histogramKey = (r: number, g: number, b: number): number =>
+  ((r >> HISTOGRAM_SHIFT) << (2 * HISTOGRAM_BITS)) | ((g >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) | (b >> HISTOGRAM_SHIFT);
+
+interface ColorBox {
+  colors: number[]; // Histogram keys
+}
+
+// Median cut over the frame's colour histogram; returns up to 256 RGB triples.
+const buildPalette = (image: RgbaImage): Uint8Array => {
+  const counts = new Uint32Array(1 << (3 * HISTOGRAM_BITS));
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    counts[histogramKey(data[i], data[i + 1], data[i + 2])]++;
+  }
+  const used: number[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    if (counts[key] > 0) used.push(key);
+  }
+
+  const channel = (key: number, c: number) => (key >> ((2 - c) * HISTOGRAM_BITS)) & ((1 << HISTOGRAM_BITS) - 1);
+  const boxRange = (box: ColorBox): { axis: number; range: number } => {
+    let best = { axis: 0, range: -1 };
+    for (let c = 0; c < 3; c++) {
+      let min = Infinity, max = -Infinity;
+      for (const key of box.colors) {
+        const v = channel(key, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > best.range) best = { axis: c, range: max - min };
+    }
+    return best;
+  };
+
+  const boxes: ColorBox[] = [{ colors: used }];
+  while (boxes.length < PALETTE_SIZE) {
+    // Split the box with the largest population-weighted extent.
+    let target = -1;
+    let targetScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].colors.length < 2) continue;
+      const { range } = boxRange(boxes[i]);
+      let population = 0;
+      for (const key of boxes[i].colors) population += counts[key];
+      const score = range * population;
+      if (score > targetScore) {
+        targetScore = score;
+        target = i;
+      }
+    }
+    if (target < 0) break;
+    const box = boxes[target];
+    const { axis } = boxRange(box);
+    box.colors.sort((a, b) => channel(a, axis) - channel(b, axis));
+    let total = 0;
+    for (const key of box.colors) total += counts[key];
+    let running = 0;
+    let splitAt = 1;
+    for (let i = 0; i < box.colors.length - 1; i++) {
+      running += counts[box.colors[i]];
+      if (running >= total / 2) {
+        splitAt = i + 1;
+        break;
+      }
+      splitAt = i + 1;
+    }
+    boxes.splice(target, 1, { colors: box.colors.slice(0, splitAt) }, { colors: box.colors.slice(splitAt) });
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const binCenter = (v: number) => (v << HISTOGRAM_SHIFT) + (1 << HISTOGRAM_SHIFT) / 2;
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (const key of box.colors) {
+      const weight = counts[key];
+      r += binCenter(channel(key, 0)) * weight;
+      g += binCenter(channel(key, 1)) * weight;
+      b += binCenter(channel(key, 2)) * weight;
+      n += weight;
+    }
+    if (n > 0) {
+      palette[index * 3] = Math.min(255, Math.round(r / n));
+      palette[index * 3 + 1] = Math.min(255, Math.round(g / n));
+      palette[index * 3 + 2] = Math.min(255, Math.round(b / n));
+    }
+  });
+  return palette;
+};
+
+// Maps pixels to palette indices, memoizing the nearest colour per histogram bin.
+const createIndexer = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << (3 * HISTOGRAM_BITS)).fill(-1);
+  return (image: RgbaImage): Uint8Array => {
+    const { data } = image;
+    const indices = new Uint8Array(data.length / 4);
+    for (let p = 0, i = 0; i < data.length; i += 4, p++) {
+      const key = histogramKey(data[i], data[i + 1], data[i + 2]);
+      let index = cache[key];
+      if (index < 0) {
+        let bestDistance = Infinity;
+        for (let c = 0; c < PALETTE_SIZE; c++) {
+          const dr = data[i] - palette[c * 3];
+          const dg = data[i + 1] - palette[c * 3 + 1];
+          const db = data[i + 2] - palette[c * 3 + 2];
+          const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3; // Rough perceptual weighting
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            index = c;
+          }
+        }
+        cache[key] = index;
+      }
+      indices[p] = index;
+    }
+    return indices;
+  };
+};
+
+// GIF-flavoured LZW with variable code size, packed into 255-byte sub-blocks.
+const writeLzwData = (writer: ByteWriter, indices: Uint8Array, minCodeSize: number): void => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) {
+      writer.byte(255);
+      writer.bytes(block);
+      blockLength = 0;
+    }
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      flushByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_LZW_CODE) {
+      dictionary.set(key, nextCode);
+      if (nextCode === (1 << codeSize) && codeSize < 12) codeSize++;
+      nextCode++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) flushByte(bitBuffer & 0xff);
+  if (blockLength > 0) {
+    writer.byte(blockLength);
+    writer.bytes(block.subarray(0, blockLength));
+  }
+  writer.byte(0); // Block terminator
+};
+
+export const createGifEncoder = (width: number, height: number, options: GifEncoderOptions): GifEncoder => {
+  const writer = new ByteWriter();
+  const delay = Math.max(2, Math.round(options.delayMs / 10)); // Browsers treat < 2 cs as 10 cs
+  let frameCount = 0;
+
+  const writeHeader = (palette: Uint8Array) => {
+    writer.ascii('GIF89a');
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0xf7); // Global colour table, 8 bits colour resolution, 256 entries
+    writer.byte(0);    // Background colour index
+    writer.byte(0);    // Pixel aspect ratio
+    writer.bytes(palette);
+    if (options.loop) {
+      writer.byte(0x21);
+      writer.byte(0xff);
+      writer.byte(11);
+      writer.ascii('NETSCAPE2.0');
+      writer.byte(3);
+      writer.byte(1);
+      writer.word(0); // Loop forever
+      writer.byte(0);
+    }
+  };
+
+  return {
+    addFrame(image: RgbaImage) {
+      if (image.width !== width || image.height !== height) {
+        throw new Error(`GIF frame is ${image.width}x${image.height}, expected ${width}x${height}.`);
+      }
+      const palette = buildPalette(image);
+      if (frameCount === 0) writeHeader(palette);
+      // Graphic control extension: frame delay, no transparency, disposal "do not dispose".
+      writer.byte(0x21);
+      writer.byte(0xf9);
+      writer.byte(4);
+      writer.byte(0x04);
+      writer.word(delay);
+      writer.byte(0);
+      writer.byte(0);
+      // Image descriptor covering the whole canvas: the first frame uses the global colour table,
+      // later frames a local table with 256 entries.
+      writer.byte(0x2c);
+      writer.word(0);
+      writer.word(0);
+      writer.word(width);
+      writer.word(height);
+      if (frameCount === 0) {
+        writer.byte(0);
+      } else {
+        writer.byte(0x87);
+        writer.bytes(palette);
+      }
+      writeLzwData(writer, createIndexer(palette)(image), 8);
+      frameCount++;
+    },
+    finish() {
+      if (frameCount === 0) throw new Error("Cannot encode a GIF without frames.");
+      writer.byte(0x3b); // Trailer
+      return writer.result();
+    },
+  };
+};
@@ -0,0 +1,89 @@
+// IndexedDB persistence for the render history, so past results survive page reloads.
+import { RenderHistoryEntry } from '../types';
+import { DEFAULT_TRANSFORMATION_PARAMS } from '../constants';
+
+const DB_NAME = 'subqg-image-transformer';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'renderHistory';
+
+// Keeps the database bounded; the oldest renders are dropped first.
+export const MAX_HISTORY_ENTRIES = 60;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Could not open the history database."));
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Allow a retry after a failure
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, mode);
+  return promisifyRequest(run(transaction.objectStore(HISTORY_STORE)));
+};
+
+export const createHistoryEntryId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Entries stored before the field response profile existed only hold brightness and contrast;
+// the profile defaults reproduce how they were rendered.
+const upgradeEntry = (entry: RenderHistoryEntry): RenderHistoryEntry => ({
+  ...entry,
+  settings: { ...entry.settings, transformParams: { ...DEFAULT_TRANSFORMATION_PARAMS, ...entry.settings.transformParams } },
+});
+
+const byNewestFirst = (a: RenderHistoryEntry, b: RenderHistoryEntry) => b.createdAt - a.createdAt;
+
+// Newest first.
+export const loadHistoryEntries = async (): Promise<RenderHistoryEntry[]> => {
+  const entries = await withStore<RenderHistoryEntry[]>('readonly', store => store.getAll());
+  return entries.map(upgradeEntry).sort(byNewestFirst);
+};
+
+// Entries loaded from the database combined with those recorded meanwhile; an id present in both keeps
+// the in-memory entry.
+export const mergeHistoryEntries = (current: RenderHistoryEntry[], loaded: RenderHistoryEntry[]): RenderHistoryEntry[] => {
+  const ids = new Set(current.map(entry => entry.id));
+  return [...current, ...loaded.filter(entry => !ids.has(entry.id))].sort(byNewestFirst).slice(0, MAX_HISTORY_ENTRIES);
+};
+
+// Prunes through the createdAt index, which lists keys oldest first, so the stored images are never read.
+export const saveHistoryEntry = async (entry: RenderHistoryEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+  const ids = await withStore<IDBValidKey[]>('readonly', store => store.index('createdAt').getAllKeys());
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_HISTORY_ENTRIES))) {
+    await withStore('readwrite', store => store.delete(id));
+  }
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearHistoryEntries = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
@@ -0,0 +1,90 @@
+// Generic HTTP backend for self-hosted image generators.
+//
+// Request:  POST <endpoint>  { "prompt", "model", "n", "aspect_ratio", "negative_prompt" }
+//           (Authorization: Bearer <key> if a key is set; servers may ignore fields they do not support)
+// Response: either a single image body (Content-Type image/*) or JSON containing
+//           { "images": ["<data URL or base64>", ...] }, { "image": "..." }, { "b64_json": "..." },
+//           { "url": "https://..." } or { "data": [{ "b64_json" | "url": "..." }, ...] } (OpenAI-compatible).
+import { ImageProvider } from '../types';
+import { IMAGE_ASPECT_RATIOS, IMAGE_CANDIDATE_COUNT_MAX } from '../constants';
+import { blobToDataURL } from './browserImageIO';
+
+const toDataUrl = (value: string): string =>
+  value.startsWith('data:') ? value : `data:image/png;base64,${value}`;
+
+const fetchImageUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download the generated image (${response.status} ${response.statusText}).`);
+  }
+  return blobToDataURL(await response.blob());
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// Resolves one entry of the response (base64/data URL string or { b64_json | url } object).
+const extractImage = async (entry: unknown): Promise<string | null> => {
+  if (isNonEmptyString(entry)) return toDataUrl(entry);
+  const item = (entry ?? {}) as Record<string, unknown>;
+  const base64 = [item.image, item.b64_json].find(isNonEmptyString);
+  if (base64) return toDataUrl(base64);
+  return isNonEmptyString(item.url) ? fetchImageUrl(item.url) : null;
+};
+
+const extractImages = async (json: unknown): Promise<string[]> => {
+  const body = (json ?? {}) as Record<string, unknown>;
+  const entries = Array.isArray(body.images) ? body.images : Array.isArray(body.data) ? body.data : [body];
+  const images = (await Promise.all(entries.map(extractImage))).filter((image): image is string => image !== null);
+  if (images.length === 0) {
+    throw new Error("The endpoint's JSON response contains no image (expected images, image, b64_json, url or data[]).");
+  }
+  return images;
+};
+
+export const httpImageProvider: ImageProvider = {
+  id: 'http',
+  label: 'Custom HTTP Endpoint',
+  description: 'POSTs { prompt, model, n, aspect_ratio, negative_prompt } to a self-hosted endpoint that returns images or JSON with base64/URLs.',
+  models: ['default'],
+  requiresApiKey: false, // Optional: sent as a bearer token when provided
+  requiresEndpoint: true,
+  maxImages: IMAGE_CANDIDATE_COUNT_MAX,
+  aspectRatios: IMAGE_ASPECT_RATIOS,
+  supportsNegativePrompt: true,
+  generate: async ({ prompt, model, apiKey, endpoint, count, aspectRatio, negativePrompt }) => {
+    if (!endpoint.trim()) {
+      throw new Error("Please enter the URL of your image generation endpoint.");
+    }
+    let url: URL;
+    try {
+      url = new URL(endpoint.trim());
+    } catch {
+      throw new Error(`"${endpoint}" is not a valid URL.`);
+    }
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', Accept: 'image/*, application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    const body = JSON.stringify({
+      prompt,
+      model,
+      n: count,
+      aspect_ratio: aspectRatio,
+      ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'POST', headers, body });
+    } catch (err) {
+      throw new Error(`Could not reach ${url.origin}: ${(err as Error).message}. Check the URL and the server's CORS settings.`);
+    }
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new Error(`Endpoint returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+    }
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (contentType.startsWith('image/')) {
+      return [await blobToDataURL(await response.blob())];
+    }
+    return (await extractImages(await response.json())).slice(0, count);
+  },
+};
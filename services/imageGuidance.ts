@@ -0,0 +1,137 @@
+// Derives low-resolution guidance maps from the input image (luminance, edge magnitude, hue)
+// that modulate the SubQG energy and phase fields, so knots gather along the picture's structure.
+import { RgbaImage, ScalarField, GuidanceChannel, ImageGuidanceParams } from '../types';
+import { clamp } from './mathHelpers';
+
+export interface SimulationGuidance {
+  energy: Float32Array | null; // 0-1 per field cell, null = channel disabled
+  phase: Float32Array | null;
+  strength: number;
+}
+
+export const GUIDANCE_CHANNEL_LABELS: Record<GuidanceChannel, string> = {
+  none: 'None',
+  luminance: 'Luminance',
+  edges: 'Edge Magnitude',
+  hue: 'Hue',
+};
+
+interface DownsampledImage {
+  width: number;
+  height: number;
+  luminance: Float32Array; // 0-1
+  hueX: Float32Array;      // Saturation-weighted hue vector, averaged per cell
+  hueY: Float32Array;
+}
+
+// Box-averages the image onto the field grid. Hue is averaged as a vector so red (0°) and
+// magenta (300°) blend correctly.
+const downsample = (image: RgbaImage, fieldW: number, fieldH: number): DownsampledImage => {
+  const size = fieldW * fieldH;
+  const luminance = new Float32Array(size);
+  const hueX = new Float32Array(size);
+  const hueY = new Float32Array(size);
+  const counts = new Float32Array(size);
+  const { width, height, data } = image;
+
+  for (let y = 0; y < height; y++) {
+    const cellRow = Math.min(fieldH - 1, Math.floor(y * fieldH / height));
+    for (let x = 0; x < width; x++) {
+      const cell = cellRow * fieldW + Math.min(fieldW - 1, Math.floor(x * fieldW / width));
+      const idx = (y * width + x) * 4;
+      const r = data[idx] / 255;
+      const g = data[idx + 1] / 255;
+      const b = data[idx + 2] / 255;
+      luminance[cell] += 0.299 * r + 0.587 * g + 0.114 * b;
+
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const chroma = max - min;
+      if (chroma > 0) {
+        let hue: number;
+        if (max === r) hue = ((g - b) / chroma) % 6;
+        else if (max === g) hue = (b - r) / chroma + 2;
+        else hue = (r - g) / chroma + 4;
+        const angle = hue * Math.PI / 3;
+        const saturation = max > 0 ? chroma / max : 0;
+        hueX[cell] += Math.cos(angle) * saturation;
+        hueY[cell] += Math.sin(angle) * saturation;
+      }
+      counts[cell]++;
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    if (counts[i] > 0) {
+      luminance[i] /= counts[i];
+      hueX[i] /= counts[i];
+      hueY[i] /= counts[i];
+    }
+  }
+  return { width: fieldW, height: fieldH, luminance, hueX, hueY };
+};
+
+// Sobel gradient magnitude of the downsampled luminance, normalized to 0-1.
+const edgeMagnitude = ({ width, height, luminance }: DownsampledImage): Float32Array => {
+  const edges = new Float32Array(width * height);
+  const at = (x: number, y: number) => luminance[clamp(y, 0, height - 1) * width + clamp(x, 0, width - 1)];
+  let maxEdge = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)) - (at(x - 1, y - 1) + 2 * at(x - 1, y) + at(x - 1, y + 1));
+      const gy = (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)) - (at(x - 1, y - 1) + 2 * at(x, y - 1) + at(x + 1, y - 1));
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      edges[y * width + x] = magnitude;
+      if (magnitude > maxEdge) maxEdge = magnitude;
+    }
+  }
+  if (maxEdge > 0) {
+    for (let i = 0; i < edges.length; i++) edges[i] /= maxEdge;
+  }
+  return edges;
+};
+
+// Hue angle mapped to 0-1 (0 = red, 1/3 = green, 2/3 = blue). Grey cells fall back to 0.5.
+const hueField = ({ hueX, hueY }: DownsampledImage): Float32Array => {
+  const hues = new Float32Array(hueX.length);
+  for (let i = 0; i < hues.length; i++) {
+    if (Math.abs(hueX[i]) < 1e-4 && Math.abs(hueY[i]) < 1e-4) {
+      hues[i] = 0.5;
+    } else {
+      const angle = Math.atan2(hueY[i], hueX[i]);
+      hues[i] = (angle < 0 ? angle + 2 * Math.PI : angle) / (2 * Math.PI);
+    }
+  }
+  return hues;
+};
+
+const channelData = (downsampled: DownsampledImage, channel: GuidanceChannel): Float32Array | null => {
+  switch (channel) {
+    case 'luminance': return downsampled.luminance;
+    case 'edges': return edgeMagnitude(downsampled);
+    case 'hue': return hueField(downsampled);
+    default: return null;
+  }
+};
+
+export const computeGuidanceField = (image: RgbaImage, channel: GuidanceChannel, fieldW: number, fieldH: number): ScalarField | null => {
+  const data = channelData(downsample(image, fieldW, fieldH), channel);
+  return data ? { width: fieldW, height: fieldH, data } : null;
+};
+
+export const createSimulationGuidance = (
+  image: RgbaImage,
+  guidance: ImageGuidanceParams,
+  fieldW: number,
+  fieldH: number
+): SimulationGuidance | null => {
+  if (!guidance.enabled || (guidance.energy_channel === 'none' && guidance.phase_channel === 'none')) {
+    return null;
+  }
+  const downsampled = downsample(image, fieldW, fieldH);
+  return {
+    energy: channelData(downsampled, guidance.energy_channel),
+    phase: channelData(downsampled, guidance.phase_channel),
+    strength: guidance.strength,
+  };
+};
@@ -0,0 +1,60 @@
+// Registry of image-generation backends plus persistence of the provider settings.
+// API keys are entered at runtime: kept for the browser tab (sessionStorage) unless the user
+// chooses to remember them (localStorage).
+import { ImageProvider, ImageProviderId, ImageProviderSettings } from '../types';
+import { geminiImageProvider } from './geminiService';
+import { proceduralImageProvider } from './proceduralImage';
+import { httpImageProvider } from './httpImageProvider';
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiImageProvider, proceduralImageProvider, httpImageProvider];
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown image provider "${id}".`);
+  return provider;
+};
+
+const SETTINGS_KEY = 'subqg-image-transformer.imageProvider';
+const API_KEY_KEY = 'subqg-image-transformer.imageProvider.apiKey';
+
+export const DEFAULT_IMAGE_PROVIDER_SETTINGS: ImageProviderSettings = {
+  providerId: 'gemini',
+  model: geminiImageProvider.models[0],
+  endpoint: '',
+  apiKey: '',
+  rememberApiKey: false,
+  candidateCount: 1,
+  aspectRatio: '1:1',
+};
+
+export const loadImageProviderSettings = (): ImageProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') as Partial<ImageProviderSettings>;
+    const providerId = IMAGE_PROVIDERS.some(p => p.id === stored.providerId) ? stored.providerId! : DEFAULT_IMAGE_PROVIDER_SETTINGS.providerId;
+    const rememberApiKey = stored.rememberApiKey === true;
+    return {
+      providerId,
+      model: typeof stored.model === 'string' && stored.model ? stored.model : getImageProvider(providerId).models[0],
+      endpoint: typeof stored.endpoint === 'string' ? stored.endpoint : '',
+      apiKey: (rememberApiKey ? localStorage : sessionStorage).getItem(API_KEY_KEY) ?? '',
+      rememberApiKey,
+      candidateCount: Number.isInteger(stored.candidateCount) && stored.candidateCount! >= 1 ? stored.candidateCount! : DEFAULT_IMAGE_PROVIDER_SETTINGS.candidateCount,
+      aspectRatio: typeof stored.aspectRatio === 'string' ? stored.aspectRatio : DEFAULT_IMAGE_PROVIDER_SETTINGS.aspectRatio,
+    };
+  } catch (err) {
+    console.warn("Ignoring unreadable image provider settings:", err);
+    return DEFAULT_IMAGE_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveImageProviderSettings = ({ apiKey, ...settings }: ImageProviderSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  const keyStorage = settings.rememberApiKey ? localStorage : sessionStorage;
+  const otherStorage = settings.rememberApiKey ? sessionStorage : localStorage;
+  otherStorage.removeItem(API_KEY_KEY);
+  if (apiKey) {
+    keyStorage.setItem(API_KEY_KEY, apiKey);
+  } else {
+    keyStorage.removeItem(API_KEY_KEY);
+  }
+};
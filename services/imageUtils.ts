@@ -1,239 +1,201 @@
-import { MainColor, KnotMap, ImageDimensions } from '../types';
-import { CATEGORY_LABELS_ORDERED } from '../constants';
+// DOM-free pixel pipeline. Everything here works on raw RGBA buffers (RgbaImage), so it runs
+// unchanged on the main thread, inside the transform worker and in the Node CLI.
+// Decoding/encoding images in the browser lives in browserImageIO.ts.
+import { ImageRegion, KnotMap, PaletteRemap, RgbaImage, ScalarField, TileWindow, TransformationParams } from '../types';
 import { clamp } from './mathHelpers';
-
-export const loadImageData = (imageSrc: string): Promise<ImageData> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "Anonymous"; // For images from other domains like picsum or Gemini output
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
-      ctx.drawImage(img, 0, 0);
-      resolve(ctx.getImageData(0, 0, img.width, img.height));
-    };
-    img.onerror = (err) => reject(err);
-    img.src = imageSrc;
-  });
-};
-
-export const imageDataToDataURL = (imageData: ImageData): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = imageData.width;
-  canvas.height = imageData.height;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error("Could not get canvas context");
-  ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL();
-};
-
-export const extractMainColors = (imageData: ImageData, numColors: number = 6): MainColor[] => {
-  const pixels = imageData.data;
-  const colorCounts: { [key: string]: { r: number; g: number; b: number; count: number } } = {};
-  const sampleRate = Math.max(1, Math.floor(pixels.length / (4 * 2000))); // Sample up to ~2000 pixels
-
-  for (let i = 0; i < pixels.length; i += 4 * sampleRate) {
-    const r = pixels[i];
-    const g = pixels[i + 1];
-    const b = pixels[i + 2];
-    // Filter out very dark/light pixels as in Python
-    const sum = r + g + b;
-    if (sum < 60 || sum > 700) continue;
-
-    // Simple binning to group similar colors
-    const rBin = Math.floor(r / 32) * 32;
-    const gBin = Math.floor(g / 32) * 32;
-    const bBin = Math.floor(b / 32) * 32;
-    const key = `${rBin},${gBin},${bBin}`;
-
-    if (!colorCounts[key]) {
-      colorCounts[key] = { r: rBin + 16, g: gBin + 16, b: bBin + 16, count: 0 }; // Use bin center
-    }
-    colorCounts[key].count++;
+import { RandomSource } from './random';
+import { applyPaletteRemap } from './palette';
+
+export const createRgbaImage = (width: number, height: number): RgbaImage => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+// Region covering a whole image of the given size.
+export const fullRegion = (width: number, height: number): ImageRegion => ({ x: 0, y: 0, width, height });
+
+// Window of an image or field that is not a tile, i.e. holds the full picture.
+export const wholeWindow = ({ width, height }: { width: number; height: number }): TileWindow =>
+  ({ x: 0, y: 0, fullWidth: width, fullHeight: height });
+
+// Copies `region` (full-size coordinates) out of an image that covers `window`. Returns the image
+// itself when the region is exactly what it holds.
+export const cropImage = (image: RgbaImage, region: ImageRegion, window: TileWindow = wholeWindow(image)): RgbaImage => {
+  if (region.x === window.x && region.y === window.y && region.width === image.width && region.height === image.height) {
+    return image;
   }
-
-  const sortedColors = Object.values(colorCounts).sort((a, b) => b.count - a.count);
-  const mainColors: MainColor[] = [];
-
-  for (let i = 0; i < Math.min(sortedColors.length, numColors); i++) {
-    const color = sortedColors[i];
-    const activation = (color.r / 255 + color.g / 255 + color.b / 255) / 3.0;
-    mainColors.push({ r: color.r, g: color.g, b: color.b, activation });
+  const cropped = createRgbaImage(region.width, region.height);
+  for (let y = 0; y < region.height; y++) {
+    const start = ((region.y - window.y + y) * image.width + region.x - window.x) * 4;
+    cropped.data.set(image.data.subarray(start, start + region.width * 4), y * region.width * 4);
   }
-  
-  // Fill with random colors if not enough found, similar to Python's fallback
-  while (mainColors.length < numColors) {
-      const r = Math.floor(Math.random() * 176) + 80; // 80-255
-      const g = Math.floor(Math.random() * 176) + 80;
-      const b = Math.floor(Math.random() * 176) + 80;
-      const activation = (r / 255 + g / 255 + b / 255) / 3.0;
-      mainColors.push({ r, g, b, activation });
-  }
-  return mainColors;
+  return cropped;
 };
 
-// Creates an array of activations based on extracted colors, matching CATEGORY_LABELS_ORDERED
-export const createCategoryActivations = (mainColors: MainColor[]): number[] => {
-    const activations = Array(CATEGORY_LABELS_ORDERED.length).fill(0.5); // Default activation
-    mainColors.slice(0, CATEGORY_LABELS_ORDERED.length).forEach((color, index) => {
-        activations[index] = color.activation;
-    });
-    return activations;
+// Bilinear sample of a field with pixel-centre alignment and clamped edges (matches canvas smoothing).
+// (x, y) are full-size coordinates; the window says which part of the full-size field `field` holds.
+const sampleBilinear = (field: ScalarField, x: number, y: number, window: TileWindow): number => {
+  const { width, data } = field;
+  const fx = clamp(x, 0, window.fullWidth - 1);
+  const fy = clamp(y, 0, window.fullHeight - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, window.fullWidth - 1);
+  const y1 = Math.min(y0 + 1, window.fullHeight - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const row0 = (y0 - window.y) * width - window.x;
+  const row1 = (y1 - window.y) * width - window.x;
+  const top = data[row0 + x0] * (1 - tx) + data[row0 + x1] * tx;
+  const bottom = data[row1 + x0] * (1 - tx) + data[row1 + x1] * tx;
+  return top * (1 - ty) + bottom * ty;
 };
 
-
-export const resizeKnotMap = (knotMap: KnotMap, targetWidth: number, targetHeight: number): number[][] => {
-  if (!knotMap || knotMap.length === 0 || knotMap[0].length === 0) {
-    return Array(targetHeight).fill(null).map(() => Array(targetWidth).fill(0));
+const getFieldMax = (field: ScalarField): number => {
+  let maxVal = 0;
+  for (let i = 0; i < field.data.length; i++) {
+    if (field.data[i] > maxVal) maxVal = field.data[i];
   }
+  return maxVal;
+};
 
-  const sourceHeight = knotMap.length;
-  const sourceWidth = knotMap[0].length;
-
-  const sourceCanvas = document.createElement('canvas');
-  sourceCanvas.width = sourceWidth;
-  sourceCanvas.height = sourceHeight;
-  const sourceCtx = sourceCanvas.getContext('2d');
-  if (!sourceCtx) throw new Error("Cannot get source canvas context for knotmap resize");
-
-  const sourceImageData = sourceCtx.createImageData(sourceWidth, sourceHeight);
-  let maxKnotVal = 0;
-  for (let r_idx = 0; r_idx < sourceHeight; r_idx++) {
-    for (let c_idx = 0; c_idx < sourceWidth; c_idx++) {
-      if (knotMap[r_idx][c_idx] > maxKnotVal) maxKnotVal = knotMap[r_idx][c_idx];
-    }
-  }
-  if (maxKnotVal === 0) maxKnotVal = 1; 
-
-  for (let r_idx = 0; r_idx < sourceHeight; r_idx++) {
-    for (let c_idx = 0; c_idx < sourceWidth; c_idx++) {
-      const normVal = Math.floor((knotMap[r_idx][c_idx] / maxKnotVal) * 255);
-      const idx = (r_idx * sourceWidth + c_idx) * 4;
-      sourceImageData.data[idx] = normVal;    
-      sourceImageData.data[idx + 1] = normVal; 
-      sourceImageData.data[idx + 2] = normVal; 
-      sourceImageData.data[idx + 3] = 255;     
+// Bilinear resize of a field without any normalization (masks, guidance maps).
+// With a region only that part of the resized field is produced; a window marks `field` as a tile.
+export const resizeScalarField = (
+  field: ScalarField,
+  targetWidth: number,
+  targetHeight: number,
+  region: ImageRegion = fullRegion(targetWidth, targetHeight),
+  window: TileWindow = wholeWindow(field)
+): ScalarField => {
+  const resized: ScalarField = { width: region.width, height: region.height, data: new Float32Array(region.width * region.height) };
+  if (window.fullWidth === targetWidth && window.fullHeight === targetHeight) {
+    if (region.width === field.width && region.height === field.height && region.x === window.x && region.y === window.y) return field;
+    for (let y = 0; y < region.height; y++) {
+      const start = (region.y - window.y + y) * field.width + region.x - window.x;
+      resized.data.set(field.data.subarray(start, start + region.width), y * region.width);
     }
+    return resized;
   }
-  sourceCtx.putImageData(sourceImageData, 0, 0);
-
-  const targetCanvas = document.createElement('canvas');
-  targetCanvas.width = targetWidth;
-  targetCanvas.height = targetHeight;
-  const targetCtx = targetCanvas.getContext('2d');
-  if (!targetCtx) throw new Error("Cannot get target canvas context for knotmap resize");
-  
-  targetCtx.imageSmoothingEnabled = true; 
-  targetCtx.imageSmoothingQuality = 'high';
-  targetCtx.drawImage(sourceCanvas, 0, 0, sourceWidth, sourceHeight, 0, 0, targetWidth, targetHeight);
-
-  const resizedImageData = targetCtx.getImageData(0, 0, targetWidth, targetHeight);
-  const resizedKnotMap: number[][] = Array(targetHeight).fill(null).map(() => Array(targetWidth).fill(0));
-  
-  let maxResizedVal = 0;
-  for (let r_idx = 0; r_idx < targetHeight; r_idx++) {
-    for (let c_idx = 0; c_idx < targetWidth; c_idx++) {
-      const val = resizedImageData.data[(r_idx * targetWidth + c_idx) * 4] / 255; 
-      resizedKnotMap[r_idx][c_idx] = val;
-      if (val > maxResizedVal) maxResizedVal = val;
+  const scaleX = window.fullWidth / targetWidth;
+  const scaleY = window.fullHeight / targetHeight;
+  for (let y = 0; y < region.height; y++) {
+    const srcY = (region.y + y + 0.5) * scaleY - 0.5;
+    for (let x = 0; x < region.width; x++) {
+      resized.data[y * region.width + x] = sampleBilinear(field, (region.x + x + 0.5) * scaleX - 0.5, srcY, window);
     }
   }
-  
-  if (maxResizedVal > 0) {
-    for (let r_idx = 0; r_idx < targetHeight; r_idx++) {
-      for (let c_idx = 0; c_idx < targetWidth; c_idx++) {
-        resizedKnotMap[r_idx][c_idx] /= maxResizedVal; // Normalize again
-      }
-    }
-  }
-  
-  return resizedKnotMap;
+  return resized;
 };
 
-export const knotMapToVisualDataURL = (knotMap: KnotMap): string => {
-  if (!knotMap || knotMap.length === 0 || knotMap[0].length === 0) {
-    const placeholderCanvas = document.createElement('canvas');
-    placeholderCanvas.width = 64; // Standard small size
-    placeholderCanvas.height = 64;
-    const phCtx = placeholderCanvas.getContext('2d');
-    if (phCtx) {
-      phCtx.fillStyle = 'rgba(50,50,70,1)'; // Dark slate
-      phCtx.fillRect(0,0,64,64);
-      phCtx.font = '10px sans-serif';
-      phCtx.fillStyle = 'rgba(150,150,170,1)';
-      phCtx.textAlign = 'center';
-      phCtx.fillText('No Map', 32, 36);
-    }
-    return placeholderCanvas.toDataURL();
+// Upscales the knot map to image resolution, normalized to 0-1. The returned function renders any
+// region of the resized map; the second normalization always divides by the maximum over the whole
+// image, so tiles match a full-size render exactly.
+export const createKnotMapResizer = (knotMap: KnotMap, targetWidth: number, targetHeight: number): ((region: ImageRegion) => ScalarField) => {
+  if (!knotMap || knotMap.width === 0 || knotMap.height === 0) {
+    return region => ({ width: region.width, height: region.height, data: new Float32Array(region.width * region.height) });
   }
 
-  const height = knotMap.length;
-  const width = knotMap[0].length;
-
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error("Cannot get canvas context for knot map visualization");
-
-  const imageData = ctx.createImageData(width, height);
-  
-  let maxKnotVal = 0;
-  for (let r = 0; r < height; r++) {
-    for (let c = 0; c < width; c++) {
-      if (knotMap[r][c] > maxKnotVal) maxKnotVal = knotMap[r][c];
+  const maxKnotVal = getFieldMax(knotMap) || 1;
+  const normalized: ScalarField = { width: knotMap.width, height: knotMap.height, data: knotMap.data.map(val => val / maxKnotVal) };
+  const window = wholeWindow(normalized);
+  const scaleX = knotMap.width / targetWidth;
+  const scaleY = knotMap.height / targetHeight;
+  const sample = (x: number, y: number) => sampleBilinear(normalized, (x + 0.5) * scaleX - 0.5, (y + 0.5) * scaleY - 0.5, window);
+
+  let maxResizedVal: number | null = null;
+  const getMaxResizedVal = (): number => {
+    if (maxResizedVal === null) {
+      maxResizedVal = 0;
+      for (let y = 0; y < targetHeight; y++) {
+        for (let x = 0; x < targetWidth; x++) {
+          const val = sample(x, y);
+          if (val > maxResizedVal) maxResizedVal = val;
+        }
+      }
     }
-  }
-  if (maxKnotVal === 0) maxKnotVal = 1; // Avoid division by zero
-
-  for (let r = 0; r < height; r++) {
-    for (let c = 0; c < width; c++) {
-      const knotVal = knotMap[r][c];
-      // Higher knot value = lighter pixel for grayscale
-      const grayscaleValue = Math.floor((knotVal / maxKnotVal) * 255);
-      const idx = (r * width + c) * 4;
-      imageData.data[idx]     = grayscaleValue; // R
-      imageData.data[idx + 1] = grayscaleValue; // G
-      imageData.data[idx + 2] = grayscaleValue; // B
-      imageData.data[idx + 3] = 255;            // Alpha
+    return maxResizedVal;
+  };
+
+  return (region) => {
+    const resized = new Float32Array(region.width * region.height);
+    let regionMax = 0;
+    for (let r_idx = 0; r_idx < region.height; r_idx++) {
+      for (let c_idx = 0; c_idx < region.width; c_idx++) {
+        const val = sample(region.x + c_idx, region.y + r_idx);
+        resized[r_idx * region.width + c_idx] = val;
+        if (val > regionMax) regionMax = val;
+      }
+    }
+    // A full-size render already saw every value
+    if (maxResizedVal === null && region.width === targetWidth && region.height === targetHeight) maxResizedVal = regionMax;
+
+    const maxVal = getMaxResizedVal();
+    if (maxVal > 0) {
+      for (let i = 0; i < resized.length; i++) {
+        resized[i] /= maxVal; // Normalize again
+      }
     }
+    return { width: region.width, height: region.height, data: resized };
+  };
+};
+
+export const resizeKnotMap = (knotMap: KnotMap, targetWidth: number, targetHeight: number): ScalarField =>
+  createKnotMapResizer(knotMap, targetWidth, targetHeight)(fullRegion(targetWidth, targetHeight));
+
+// Grayscale rendering of the raw knot map: higher knot count = lighter pixel.
+export const knotMapToGrayscaleImage = (knotMap: KnotMap): RgbaImage => {
+  const image = createRgbaImage(knotMap.width, knotMap.height);
+  const maxKnotVal = getFieldMax(knotMap) || 1; // Avoid division by zero
+
+  for (let i = 0; i < knotMap.data.length; i++) {
+    const grayscaleValue = Math.floor((knotMap.data[i] / maxKnotVal) * 255);
+    const idx = i * 4;
+    image.data[idx]     = grayscaleValue; // R
+    image.data[idx + 1] = grayscaleValue; // G
+    image.data[idx + 2] = grayscaleValue; // B
+    image.data[idx + 3] = 255;            // Alpha
   }
-  ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL();
+  return image;
 };
 
 
+// Moves a multiplicative factor towards 1 (no change) as strength drops; exact at full strength.
+const scaleFactor = (factor: number, strength: number): number =>
+  strength === 1 ? factor : 1 + (factor - 1) * strength;
+
 export const processImageWithSubQG = (
-  originalImageData: ImageData,
+  originalImageData: RgbaImage,
   categoryActivations: number[], 
-  brightnessFactor: number, 
-  contrastFactor: number,   
-  resizedKnotMap: number[][], 
-  harmonyScore: number
-): ImageData => {
+  profile: TransformationParams, // Sliders and field response profile
+  resizedKnotMap: ScalarField, 
+  harmonyScore: number,
+  random: RandomSource,
+  onRowsProcessed?: (rowsDone: number, totalRows: number) => void,
+  phaseShift: number = 0, // Added to both global phase offsets (radians); animations sweep it
+  strengthMask: ScalarField | null = null, // Per-pixel transform strength 0-1 at image size; null = 1 everywhere
+  paletteRemap: PaletteRemap | null = null, // Palette mapping mode: replaces the global colour mood
+  window: TileWindow = wholeWindow(originalImageData) // Set when the image (and the fields) are one tile of a larger render
+): RgbaImage => {
   const { width: imgWidth, height: imgHeight, data: originalData } = originalImageData;
-  const newImageData = new ImageData(new Uint8ClampedArray(originalData.buffer), imgWidth, imgHeight); // Use buffer for performance
+  const newImageData = createRgbaImage(imgWidth, imgHeight);
   const newData = newImageData.data;
 
-  // --- SubQG Wave Field Parameters (tune these for desired effect) ---
-  const waveFrequencyX = 3.0 + harmonyScore * 4.0; // Higher harmony = higher frequency waves
-  const waveFrequencyY = 2.0 + harmonyScore * 3.0;
-  const knotPhaseInfluence = Math.PI; // How much local knot value shifts the phase
-  const globalPhaseOffsetX = Math.random() * Math.PI * 2; // Random global offset for variety
-  const globalPhaseOffsetY = Math.random() * Math.PI * 2;
+  // --- SubQG Wave Field Parameters (tuned through the field response profile) ---
+  const waveFrequencyX = profile.wave_freq_x_base + harmonyScore * profile.wave_freq_x_harmony; // Higher harmony = higher frequency waves
+  const waveFrequencyY = profile.wave_freq_y_base + harmonyScore * profile.wave_freq_y_harmony;
+  const knotPhaseInfluence = profile.knot_phase_influence; // How much local knot value shifts the phase
+  const globalPhaseOffsetX = random.next() * Math.PI * 2 + phaseShift; // Seeded global offset for variety
+  const globalPhaseOffsetY = random.next() * Math.PI * 2 + phaseShift;
   // Strength of the wave field's modulation on color and brightness
-  const fieldColorModulationStrength = 0.15 * (1.0 - harmonyScore); // Lower harmony = stronger color modulation by field
-  const fieldBrightnessVariationStrength = 0.10 * (1.0 - harmonyScore); // Lower harmony = stronger brightness variation by field
+  const fieldColorModulationStrength = profile.field_color_modulation * (1.0 - harmonyScore); // Lower harmony = stronger color modulation by field
+  const fieldBrightnessVariationStrength = profile.field_brightness_variation * (1.0 - harmonyScore); // Lower harmony = stronger brightness variation by field
 
   // Global color adjustment factors based on harmonyScore
-  const colorTempShift = (harmonyScore - 0.5) * 0.25; // Max +/- 0.125 shift
-  const saturationFactor = 1.0 + (harmonyScore - 0.5) * 0.25; // Max 0.875 to 1.125 factor
+  const colorTempShift = (harmonyScore - 0.5) * profile.color_temp_range; // Default: max +/- 0.125 shift
+  const saturationFactor = 1.0 + (harmonyScore - 0.5) * profile.saturation_range; // Default: 0.875 to 1.125 factor
+  const progressInterval = Math.max(1, Math.floor(imgHeight / 100)); // Report roughly every 1% of rows
 
   for (let r_idx = 0; r_idx < imgHeight; r_idx++) {
     for (let c_idx = 0; c_idx < imgWidth; c_idx++) {
@@ -242,14 +204,17 @@ export const processImageWithSubQG = (
       let r = originalData[pixelIdx] / 255.0;
       let g = originalData[pixelIdx + 1] / 255.0;
       let b = originalData[pixelIdx + 2] / 255.0;
+      const strength = strengthMask ? strengthMask.data[r_idx * imgWidth + c_idx] : 1;
 
       // 1. Base Brightness/Contrast (from sliders and category activations)
-      let currentBrightnessMod = brightnessFactor;
-      let currentContrastMod = contrastFactor;
+      let currentBrightnessMod = profile.brightness_factor;
+      let currentContrastMod = profile.contrast_factor;
       categoryActivations.forEach(activation => {
-        currentBrightnessMod += (activation - 0.5) * 0.15; // Activation centered around 0.5
-        currentContrastMod *= (1.0 + (activation - 0.5) * 0.10);
+        currentBrightnessMod += (activation - 0.5) * profile.activation_brightness; // Activation centered around 0.5
+        currentContrastMod *= (1.0 + (activation - 0.5) * profile.activation_contrast);
       });
+      currentBrightnessMod *= strength;
+      currentContrastMod = scaleFactor(currentContrastMod, strength);
       
       r = (r - 0.5) * currentContrastMod + 0.5 + currentBrightnessMod;
       g = (g - 0.5) * currentContrastMod + 0.5 + currentBrightnessMod;
@@ -260,35 +225,42 @@ export const processImageWithSubQG = (
       b = clamp(b, 0, 1);
 
       // 2. Calculate SubQG Wave Field Influence for current pixel
-      const normX = c_idx / imgWidth;
-      const normY = r_idx / imgHeight;
-      const knotValue = resizedKnotMap[r_idx][c_idx]; // Normalized 0-1
+      const normX = (window.x + c_idx) / window.fullWidth;
+      const normY = (window.y + r_idx) / window.fullHeight;
+      const knotValue = resizedKnotMap.data[r_idx * imgWidth + c_idx]; // Normalized 0-1
 
       const waveX = Math.sin(normX * waveFrequencyX * Math.PI * 2 + knotValue * knotPhaseInfluence + globalPhaseOffsetX);
       const waveY = Math.sin(normY * waveFrequencyY * Math.PI * 2 + knotValue * knotPhaseInfluence + globalPhaseOffsetY);
       const fieldInfluence = (waveX + waveY) / 2.0; 
 
-      // 3. Apply Global Color Mood (Harmony Score based), modulated by SubQG Wave Field
-      let effectiveColorTempShift = colorTempShift * (1 + fieldInfluence * fieldColorModulationStrength);
-      let effectiveSaturationFactor = saturationFactor * (1 + fieldInfluence * fieldColorModulationStrength * 0.5); 
-
-      if (effectiveColorTempShift > 0) { 
-        r = clamp(r + effectiveColorTempShift * 0.20, 0, 1); 
-        g = clamp(g + effectiveColorTempShift * 0.10, 0, 1); 
-        b = clamp(b - effectiveColorTempShift * 0.15, 0, 1); 
-      } else { 
-        r = clamp(r + effectiveColorTempShift * 0.15, 0, 1); 
-        g = clamp(g, 0,1); // No green shift for cooler
-        b = clamp(b - effectiveColorTempShift * 0.20, 0, 1); 
-      }
-      
-      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
-      r = clamp(luma + (r - luma) * effectiveSaturationFactor, 0, 1);
-      g = clamp(luma + (g - luma) * effectiveSaturationFactor, 0, 1);
-      b = clamp(luma + (b - luma) * effectiveSaturationFactor, 0, 1);
+      if (paletteRemap) {
+        // 3. Palette mapping: recolour towards the target palette, strongest where knots are dense
+        const knotResponse = clamp(knotValue * (1 + 0.5 * fieldInfluence), 0, 1);
+        const amount = paletteRemap.strength * strength * (1 - paletteRemap.knotInfluence + paletteRemap.knotInfluence * knotResponse);
+        [r, g, b] = applyPaletteRemap(paletteRemap, r, g, b, amount);
+      } else {
+        // 3. Apply Global Color Mood (Harmony Score based), modulated by SubQG Wave Field
+        let effectiveColorTempShift = colorTempShift * (1 + fieldInfluence * fieldColorModulationStrength) * strength;
+        let effectiveSaturationFactor = scaleFactor(saturationFactor * (1 + fieldInfluence * fieldColorModulationStrength * profile.field_saturation_ratio), strength);
+
+        if (effectiveColorTempShift > 0) { 
+          r = clamp(r + effectiveColorTempShift * profile.warm_shift_r, 0, 1); 
+          g = clamp(g + effectiveColorTempShift * profile.warm_shift_g, 0, 1); 
+          b = clamp(b - effectiveColorTempShift * profile.warm_shift_b, 0, 1); 
+        } else { 
+          r = clamp(r + effectiveColorTempShift * profile.cool_shift_r, 0, 1); 
+          g = clamp(g, 0,1); // No green shift for cooler
+          b = clamp(b - effectiveColorTempShift * profile.cool_shift_b, 0, 1); 
+        }
       
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        r = clamp(luma + (r - luma) * effectiveSaturationFactor, 0, 1);
+        g = clamp(luma + (g - luma) * effectiveSaturationFactor, 0, 1);
+        b = clamp(luma + (b - luma) * effectiveSaturationFactor, 0, 1);
+      }
+
       // 4. Apply Subtle Brightness Variation from SubQG Wave Field
-      const brightnessFieldVariation = fieldInfluence * fieldBrightnessVariationStrength;
+      const brightnessFieldVariation = fieldInfluence * fieldBrightnessVariationStrength * strength;
       r = clamp(r + brightnessFieldVariation, 0, 1);
       g = clamp(g + brightnessFieldVariation, 0, 1);
       b = clamp(b + brightnessFieldVariation, 0, 1);
@@ -298,101 +270,268 @@ export const processImageWithSubQG = (
       newData[pixelIdx + 2] = Math.round(clamp(b * 255, 0, 255));
       newData[pixelIdx + 3] = originalData[pixelIdx + 3]; 
     }
+    if (onRowsProcessed && ((r_idx + 1) % progressInterval === 0 || r_idx === imgHeight - 1)) {
+      onRowsProcessed(r_idx + 1, imgHeight);
+    }
   }
   return newImageData;
 };
 
 
-export const applyPostProcessing = (
-    imageData: ImageData, 
-    harmonyScore: number,
-    targetWidth: number,
-    targetHeight: number
-): Promise<ImageData> => {
-  return new Promise((resolve) => {
-    const tempSrcCanvas = document.createElement('canvas');
-    tempSrcCanvas.width = imageData.width;
-    tempSrcCanvas.height = imageData.height;
-    const tempSrcCtx = tempSrcCanvas.getContext('2d');
-    if(!tempSrcCtx) {
-        resolve(imageData); // Should not happen, but fallback
-        return;
+interface ResampleTap {
+  start: number;     // First source index
+  weights: number[]; // Weights for source indices start, start + 1, ...
+}
+
+// Per-axis weights for a separable triangle (bilinear) filter. When downscaling, the kernel is
+// widened by the scale factor so every source pixel contributes (antialiased, like canvas 'high' smoothing).
+const computeResampleTaps = (sourceSize: number, targetSize: number): ResampleTap[] => {
+  const scale = sourceSize / targetSize;
+  const support = Math.max(1, scale);
+  const taps: ResampleTap[] = [];
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) * scale - 0.5;
+    const start = Math.max(0, Math.ceil(center - support));
+    const end = Math.min(sourceSize - 1, Math.floor(center + support));
+    const weights: number[] = [];
+    let total = 0;
+    for (let j = start; j <= end; j++) {
+      const w = Math.max(0, 1 - Math.abs(j - center) / support);
+      weights.push(w);
+      total += w;
     }
-    tempSrcCtx.putImageData(imageData, 0, 0);
-
-    // Main canvas for filtering and final output
-    const canvas = document.createElement('canvas');
-    canvas.width = targetWidth; 
-    canvas.height = targetHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      resolve(imageData); 
-      return;
+    if (total === 0) {
+      const nearest = clamp(Math.round(center), 0, sourceSize - 1);
+      taps.push({ start: nearest, weights: [1] });
+    } else {
+      taps.push({ start, weights: weights.map(w => w / total) });
     }
-    
-    // Draw the (potentially differently sized) imageData onto the main canvas, resizing it.
-    ctx.drawImage(tempSrcCanvas, 0, 0, imageData.width, imageData.height, 0, 0, targetWidth, targetHeight);
-    
-    // Now apply filter to the content of the main canvas
-    let filterString = "";
-    if (harmonyScore > 0.75) { 
-      filterString = "contrast(1.05) saturate(1.03)"; // Subtle enhancement
-    } else if (harmonyScore < 0.25) { 
-      const blurRadius = clamp((1.0 - harmonyScore) * 1.5, 0, 2.5); // Max blur 2.5px
-      filterString = `blur(${blurRadius.toFixed(1)}px)`;
+  }
+  return taps;
+};
+
+// Range of source rows (or columns) that the taps of target indices [start, end) read.
+const tapSourceRange = (taps: ResampleTap[], start: number, end: number): { start: number; end: number } => {
+  let first = Infinity;
+  let last = -Infinity;
+  for (let i = start; i < end; i++) {
+    first = Math.min(first, taps[i].start);
+    last = Math.max(last, taps[i].start + taps[i].weights.length);
+  }
+  return { start: first, end: last };
+};
+
+// Part of a source image of size sourceWidth x sourceHeight that resizeImageData reads to produce
+// `region` of the resized image.
+export const getResampleSourceRegion = (
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  region: ImageRegion
+): ImageRegion => {
+  if (sourceWidth === targetWidth && sourceHeight === targetHeight) return region;
+  const cols = tapSourceRange(computeResampleTaps(sourceWidth, targetWidth), region.x, region.x + region.width);
+  const rows = tapSourceRange(computeResampleTaps(sourceHeight, targetHeight), region.y, region.y + region.height);
+  return { x: cols.start, y: rows.start, width: cols.end - cols.start, height: rows.end - rows.start };
+};
+
+// Resizes an image; with a region only that part of the result is produced, and a window marks
+// `imageData` as a tile that must cover getResampleSourceRegion of that region.
+export const resizeImageData = (
+  imageData: RgbaImage,
+  newWidth: number,
+  newHeight: number,
+  region: ImageRegion = fullRegion(newWidth, newHeight),
+  window: TileWindow = wholeWindow(imageData)
+): RgbaImage => {
+  const { fullWidth: srcWidth, fullHeight: srcHeight } = window;
+  if (srcWidth === newWidth && srcHeight === newHeight) {
+    return cropImage(imageData, region, window);
+  }
+  const { width: tileWidth, data: srcData } = imageData;
+  const tapsX = computeResampleTaps(srcWidth, newWidth);
+  const tapsY = computeResampleTaps(srcHeight, newHeight);
+  const rows = tapSourceRange(tapsY, region.y, region.y + region.height);
+
+  // Horizontal pass over the source rows in use into a float buffer, then vertical pass into the output.
+  const horizontal = new Float32Array(region.width * (rows.end - rows.start) * 4);
+  for (let y = rows.start; y < rows.end; y++) {
+    for (let x = 0; x < region.width; x++) {
+      const { start, weights } = tapsX[region.x + x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const idx = ((y - window.y) * tileWidth + start + k - window.x) * 4;
+        const w = weights[k];
+        r += srcData[idx] * w;
+        g += srcData[idx + 1] * w;
+        b += srcData[idx + 2] * w;
+        a += srcData[idx + 3] * w;
+      }
+      const outIdx = ((y - rows.start) * region.width + x) * 4;
+      horizontal[outIdx] = r;
+      horizontal[outIdx + 1] = g;
+      horizontal[outIdx + 2] = b;
+      horizontal[outIdx + 3] = a;
+    }
+  }
+
+  const resized = createRgbaImage(region.width, region.height);
+  for (let y = 0; y < region.height; y++) {
+    const { start, weights } = tapsY[region.y + y];
+    for (let x = 0; x < region.width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const idx = ((start + k - rows.start) * region.width + x) * 4;
+        const w = weights[k];
+        r += horizontal[idx] * w;
+        g += horizontal[idx + 1] * w;
+        b += horizontal[idx + 2] * w;
+        a += horizontal[idx + 3] * w;
+      }
+      const outIdx = (y * region.width + x) * 4;
+      resized.data[outIdx] = Math.round(r);
+      resized.data[outIdx + 1] = Math.round(g);
+      resized.data[outIdx + 2] = Math.round(b);
+      resized.data[outIdx + 3] = Math.round(a);
     }
+  }
+  return resized;
+};
 
-    if (filterString) {
-      // To apply filter, we need to draw the current canvas content to itself with filter applied
-      // or use a temporary canvas
-      const filteredContent = ctx.getImageData(0,0, targetWidth, targetHeight);
-      ctx.clearRect(0,0, targetWidth, targetHeight); // Clear before applying filter
+// CSS-filter equivalent of `contrast(c) saturate(s)`, applied in place.
+const applyContrastSaturate = (imageData: RgbaImage, contrast: number, saturation: number): void => {
+  const data = imageData.data;
+  // Saturation matrix from the Filter Effects spec (feColorMatrix type="saturate").
+  const s = saturation;
+  const m = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+  for (let i = 0; i < data.length; i += 4) {
+    const r = (data[i] / 255 - 0.5) * contrast + 0.5;
+    const g = (data[i + 1] / 255 - 0.5) * contrast + 0.5;
+    const b = (data[i + 2] / 255 - 0.5) * contrast + 0.5;
+    data[i]     = Math.round(clamp(m[0] * r + m[1] * g + m[2] * b, 0, 1) * 255);
+    data[i + 1] = Math.round(clamp(m[3] * r + m[4] * g + m[5] * b, 0, 1) * 255);
+    data[i + 2] = Math.round(clamp(m[6] * r + m[7] * g + m[8] * b, 0, 1) * 255);
+  }
+};
 
-      const tempFilterCanvas = document.createElement('canvas');
-      tempFilterCanvas.width = targetWidth;
-      tempFilterCanvas.height = targetHeight;
-      const tempFilterCtx = tempFilterCanvas.getContext('2d');
-      
-      if(tempFilterCtx){
-        tempFilterCtx.filter = filterString;
-        tempFilterCtx.drawImage(tempSrcCanvas, 0, 0, imageData.width, imageData.height, 0, 0, targetWidth, targetHeight); // Draw original image with filter
-        ctx.drawImage(tempFilterCanvas,0,0); // Draw filtered result back to main canvas
-        tempFilterCtx.filter = 'none'; // Reset filter
-      } else {
-         // Fallback if temp canvas fails, draw unfiltered but resized
-         ctx.drawImage(tempSrcCanvas, 0, 0, imageData.width, imageData.height, 0, 0, targetWidth, targetHeight);
+export const createGaussianKernel = (sigma: number): number[] => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel: number[] = [];
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel.push(w);
+    total += w;
+  }
+  return kernel.map(w => w / total);
+};
+
+// Separable Gaussian blur (CSS `blur(sigma px)`), edges clamped.
+const gaussianBlur = (imageData: RgbaImage, sigma: number): RgbaImage => {
+  if (sigma <= 0) return imageData;
+  const { width, height, data } = imageData;
+  const kernel = createGaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+
+  const horizontal = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const idx = (y * width + clamp(x + k, 0, width - 1)) * 4;
+        const w = kernel[k + radius];
+        r += data[idx] * w;
+        g += data[idx + 1] * w;
+        b += data[idx + 2] * w;
+        a += data[idx + 3] * w;
+      }
+      const outIdx = (y * width + x) * 4;
+      horizontal[outIdx] = r;
+      horizontal[outIdx + 1] = g;
+      horizontal[outIdx + 2] = b;
+      horizontal[outIdx + 3] = a;
+    }
+  }
+
+  const blurred = createRgbaImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const idx = (clamp(y + k, 0, height - 1) * width + x) * 4;
+        const w = kernel[k + radius];
+        r += horizontal[idx] * w;
+        g += horizontal[idx + 1] * w;
+        b += horizontal[idx + 2] * w;
+        a += horizontal[idx + 3] * w;
       }
+      const outIdx = (y * width + x) * 4;
+      blurred.data[outIdx] = Math.round(r);
+      blurred.data[outIdx + 1] = Math.round(g);
+      blurred.data[outIdx + 2] = Math.round(b);
+      blurred.data[outIdx + 3] = Math.round(a);
     }
-    // If no filter, the canvas already holds the resized image.
-    
-    resolve(ctx.getImageData(0, 0, targetWidth, targetHeight));
-  });
+  }
+  return blurred;
 };
 
+// Blur sigma of the finishing filter; 0 when it does not soften.
+const getFinishingBlurSigma = (harmonyScore: number, profile: TransformationParams): number => {
+  if (harmonyScore > profile.post_enhance_threshold || harmonyScore >= profile.post_soften_threshold) return 0;
+  const blurRadius = clamp((1.0 - harmonyScore) * profile.post_blur_scale, 0, profile.post_blur_max); // Default max blur 2.5px
+  return Math.round(blurRadius * 10) / 10;
+};
 
-export const resizeImageData = (imageData: ImageData, newWidth: number, newHeight: number): Promise<ImageData> => {
-    return new Promise((resolve, reject) => {
-        if (imageData.width === newWidth && imageData.height === newHeight) {
-            resolve(imageData);
-            return;
-        }
-        const canvas = document.createElement('canvas');
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject(new Error("Failed to get 2D context for resizing"));
-        ctx.putImageData(imageData, 0, 0);
-
-        const newCanvas = document.createElement('canvas');
-        newCanvas.width = newWidth;
-        newCanvas.height = newHeight;
-        const newCtx = newCanvas.getContext('2d');
-        if (!newCtx) return reject(new Error("Failed to get 2D context for new canvas"));
-        
-        newCtx.imageSmoothingEnabled = true;
-        newCtx.imageSmoothingQuality = 'high';
-        newCtx.drawImage(canvas, 0, 0, imageData.width, imageData.height, 0, 0, newWidth, newHeight); 
-        
-        resolve(newCtx.getImageData(0, 0, newWidth, newHeight));
-    });
-};
\ No newline at end of file
+// How many pixels beyond a tile the finishing filter reads (the blur kernel radius).
+export const getFinishingFilterMargin = (harmonyScore: number, profile: TransformationParams): number => {
+  const sigma = getFinishingBlurSigma(harmonyScore, profile);
+  return sigma > 0 ? (createGaussianKernel(sigma).length - 1) / 2 : 0;
+};
+
+// Harmony-dependent finishing filter; may work in place and return its input.
+const applyFinishingFilter = (image: RgbaImage, harmonyScore: number, profile: TransformationParams): RgbaImage => {
+  if (harmonyScore > profile.post_enhance_threshold) { 
+    applyContrastSaturate(image, profile.post_enhance_contrast, profile.post_enhance_saturation); // Subtle enhancement by default
+    return image;
+  }
+  return gaussianBlur(image, getFinishingBlurSigma(harmonyScore, profile));
+};
+
+// Resizes to the target resolution, then applies the harmony-dependent finishing filter.
+// With a strength mask the filter is faded out in the same regions as the transform itself.
+// For tiled rendering, `region` selects the part of the output to produce and `window` places the
+// input tile (and its strength mask); the blur treats the region's borders as image edges.
+export const applyPostProcessing = (
+    imageData: RgbaImage, 
+    harmonyScore: number,
+    profile: TransformationParams,
+    targetWidth: number,
+    targetHeight: number,
+    strengthMask: ScalarField | null = null,
+    region: ImageRegion = fullRegion(targetWidth, targetHeight),
+    window: TileWindow = wholeWindow(imageData)
+): RgbaImage => {
+  const resized = resizeImageData(imageData, targetWidth, targetHeight, region, window);
+  const output = resized === imageData
+    ? { width: imageData.width, height: imageData.height, data: new Uint8ClampedArray(imageData.data) }
+    : resized;
+  if (!strengthMask) return applyFinishingFilter(output, harmonyScore, profile);
+
+  const unfiltered = new Uint8ClampedArray(output.data);
+  const filtered = applyFinishingFilter(output, harmonyScore, profile);
+  const strength = resizeScalarField(strengthMask, targetWidth, targetHeight, region, window).data;
+  for (let i = 0; i < strength.length; i++) {
+    const s = strength[i];
+    if (s === 1) continue;
+    const idx = i * 4;
+    for (let c = 0; c < 4; c++) {
+      filtered.data[idx + c] = Math.round(unfiltered[idx + c] + (filtered.data[idx + c] - unfiltered[idx + c]) * s);
+    }
+  }
+  return filtered;
+};
@@ -0,0 +1,183 @@
+// Knot map inspection without the DOM: colormapped rendering, contour lines, the histogram of
+// knot counts and the raw exports (CSV, JSON, 16-bit PNG) for external analysis tools.
+import { KnotColormap, KnotContour, KnotHistogram, KnotMap, RgbaImage, SubQGParams } from '../types';
+import { KNOT_HISTOGRAM_BINS_MAX } from '../constants';
+import { createRgbaImage } from './imageUtils';
+import { createPngTextChunk, encodeGrayPng16, insertPngChunks } from './pngEncoder';
+import { APP_VERSION, ARTWORK_SOFTWARE } from './artworkMetadata';
+
+export const KNOT_MAP_FORMAT = 'subqg-knot-map';
+export const KNOT_MAP_FORMAT_VERSION = 1;
+
+export interface KnotMapSummary {
+  min: number;
+  max: number;
+  mean: number;
+  total: number;
+  occupied_cells: number; // Cells with at least one knot
+}
+
+// Evenly spaced samples of matplotlib's viridis and magma, and a blue-grey-red diverging scale.
+const COLORMAP_STOPS: Record<KnotColormap, string[]> = {
+  viridis: ['#440154', '#472c7a', '#3b518b', '#2c718e', '#21908d', '#27ad81', '#5cc863', '#aadc32', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+  diverging: ['#3b4cc0', '#8db0fe', '#dddddd', '#f49a7b', '#b40426'],
+};
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+const COLORMAP_RGB: Record<KnotColormap, [number, number, number][]> = {
+  viridis: COLORMAP_STOPS.viridis.map(hexToRgb),
+  magma: COLORMAP_STOPS.magma.map(hexToRgb),
+  diverging: COLORMAP_STOPS.diverging.map(hexToRgb),
+};
+
+// Colour at t (0-1), linearly interpolated between the stops.
+export const sampleColormap = (colormap: KnotColormap, t: number): [number, number, number] => {
+  const stops = COLORMAP_RGB[colormap];
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const frac = position - index;
+  const [a, b] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(c => Math.round(a[c] + (b[c] - a[c]) * frac)) as [number, number, number];
+};
+
+// CSS gradient for legends.
+export const getColormapGradient = (colormap: KnotColormap): string =>
+  `linear-gradient(to right, ${COLORMAP_STOPS[colormap].join(', ')})`;
+
+export const getKnotMapSummary = (knotMap: KnotMap): KnotMapSummary => {
+  const { data } = knotMap;
+  let min = Infinity;
+  let max = -Infinity;
+  let total = 0;
+  let occupied = 0;
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (value < min) min = value;
+    if (value > max) max = value;
+    total += value;
+    if (value > 0) occupied++;
+  }
+  if (data.length === 0) return { min: 0, max: 0, mean: 0, total: 0, occupied_cells: 0 };
+  return { min, max, mean: total / data.length, total, occupied_cells: occupied };
+};
+
+// Position of a count on the colour scale. Sequential maps run from the smallest to the largest count;
+// the diverging map is centred on the mean, so cells above and below average get opposite hues.
+export const getColormapPosition = (colormap: KnotColormap, value: number, summary: KnotMapSummary): number => {
+  if (colormap === 'diverging') {
+    const spread = Math.max(summary.max - summary.mean, summary.mean - summary.min);
+    return spread > 0 ? 0.5 + (value - summary.mean) / (2 * spread) : 0.5;
+  }
+  const range = summary.max - summary.min;
+  return range > 0 ? (value - summary.min) / range : 0;
+};
+
+// One pixel per cell; the viewer scales it up without smoothing.
+export const knotMapToColorImage = (knotMap: KnotMap, colormap: KnotColormap): RgbaImage => {
+  const summary = getKnotMapSummary(knotMap);
+  const image = createRgbaImage(knotMap.width, knotMap.height);
+  for (let i = 0; i < knotMap.data.length; i++) {
+    const [r, g, b] = sampleColormap(colormap, getColormapPosition(colormap, knotMap.data[i], summary));
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+};
+
+// Contour levels strictly between the smallest and the largest count.
+export const getContourLevels = (knotMap: KnotMap, count: number): number[] => {
+  const { min, max } = getKnotMapSummary(knotMap);
+  if (max <= min || count < 1) return [];
+  return Array.from({ length: count }, (_, i) => min + (max - min) * (i + 1) / (count + 1));
+};
+
+// Marching squares over the cell centres. Saddle squares are resolved with the average of their corners.
+export const computeKnotContours = (knotMap: KnotMap, levels: number[]): KnotContour[] => {
+  const { width, height, data } = knotMap;
+  return levels.map(level => {
+    const segments: number[] = [];
+    for (let y = 0; y + 1 < height; y++) {
+      for (let x = 0; x + 1 < width; x++) {
+        // Corners clockwise from the top left, with their positions in cell units
+        const values = [data[y * width + x], data[y * width + x + 1], data[(y + 1) * width + x + 1], data[(y + 1) * width + x]];
+        const corners = [[x, y], [x + 1, y], [x + 1, y + 1], [x, y + 1]];
+        const above = values.map(value => value >= level);
+        // Crossing point on each edge (top, right, bottom, left), or null
+        const crossings = [0, 1, 2, 3].map(edge => {
+          const a = edge;
+          const b = (edge + 1) % 4;
+          if (above[a] === above[b]) return null;
+          const t = (level - values[a]) / (values[b] - values[a]);
+          return [
+            corners[a][0] + (corners[b][0] - corners[a][0]) * t + 0.5,
+            corners[a][1] + (corners[b][1] - corners[a][1]) * t + 0.5,
+          ];
+        });
+        const crossed = crossings.filter((point): point is number[] => point !== null);
+        if (crossed.length === 2) {
+          segments.push(crossed[0][0], crossed[0][1], crossed[1][0], crossed[1][1]);
+        } else if (crossed.length === 4) {
+          const centreAbove = values.reduce((sum, value) => sum + value, 0) / 4 >= level;
+          // Centre on the top-left corner's side: the line cuts off the top-right and bottom-left corners
+          const pairs = centreAbove === above[0] ? [[0, 1], [2, 3]] : [[3, 0], [1, 2]];
+          for (const [a, b] of pairs) {
+            const [p, q] = [crossings[a]!, crossings[b]!];
+            segments.push(p[0], p[1], q[0], q[1]);
+          }
+        }
+      }
+    }
+    return { level, segments };
+  });
+};
+
+// Integer bins while the largest count fits KNOT_HISTOGRAM_BINS_MAX, wider bins otherwise.
+export const computeKnotHistogram = (knotMap: KnotMap): KnotHistogram => {
+  const max = Math.max(0, Math.floor(getKnotMapSummary(knotMap).max));
+  const binWidth = Math.max(1, Math.ceil((max + 1) / KNOT_HISTOGRAM_BINS_MAX));
+  const counts = new Array<number>(Math.floor(max / binWidth) + 1).fill(0);
+  for (let i = 0; i < knotMap.data.length; i++) {
+    counts[Math.floor(Math.max(0, knotMap.data[i]) / binWidth)]++;
+  }
+  return { bin_width: binWidth, counts };
+};
+
+const toRows = (knotMap: KnotMap): number[][] =>
+  Array.from({ length: knotMap.height }, (_, y) => Array.from(knotMap.data.subarray(y * knotMap.width, (y + 1) * knotMap.width)));
+
+// One line per map row, one column per cell, no header; loads directly as a matrix.
+export const knotMapToCsv = (knotMap: KnotMap): string =>
+  toRows(knotMap).map(row => row.join(',')).join('\n') + '\n';
+
+// `data` is a list of rows (data[y][x]); subQGParams records how the map was simulated.
+export const knotMapToJson = (knotMap: KnotMap, subQGParams?: SubQGParams): string => {
+  const { min, max, total } = getKnotMapSummary(knotMap);
+  return JSON.stringify({
+    format: KNOT_MAP_FORMAT,
+    version: KNOT_MAP_FORMAT_VERSION,
+    app_version: APP_VERSION,
+    created_at: new Date().toISOString(),
+    width: knotMap.width,
+    height: knotMap.height,
+    min,
+    max,
+    total,
+    ...(subQGParams ? { subQGParams } : {}),
+    data: toRows(knotMap),
+  }) + '\n';
+};
+
+// One pixel per cell whose 16-bit grey value is the raw count (not scaled), capped at 65535.
+export const encodeKnotMapPng16 = async (knotMap: KnotMap, subQGParams?: SubQGParams): Promise<Uint8Array> => {
+  const png = await encodeGrayPng16(knotMap.width, knotMap.height, knotMap.data);
+  const description = `SubQG knot map: pixel value = knot count per simulation cell${subQGParams ? ` (seed ${subQGParams.seed}, wave model ${subQGParams.wave_model})` : ''}`;
+  return insertPngChunks(png, [
+    createPngTextChunk('Software', ARTWORK_SOFTWARE),
+    createPngTextChunk('Description', description),
+  ]);
+};
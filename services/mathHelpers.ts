@@ -21,7 +21,13 @@ export const calculateStdDev = (arr: number[]): number => {
 // Peak to peak (range)
 export const calculatePtp = (arr: number[]): number => {
   if (arr.length === 0) return 0;
-  return Math.max(...arr) - Math.min(...arr);
+  let min = arr[0];
+  let max = arr[0];
+  for (const val of arr) { // No spread: large knot lists would overflow the call stack
+    if (val < min) min = val;
+    if (val > max) max = val;
+  }
+  return max - min;
 };
 
 // Helper for meshgrid-like x coordinates
@@ -0,0 +1,305 @@
+// Palette extraction: the input's main colours, clustered in CIELAB so that distances match
+// perceived colour differences. Median cut seeds the clusters and k-means refines them; no
+// randomness is involved, so the palette depends on the image alone.
+// Each colour is then assigned to the nearest colour category by hue, which drives the
+// category activations of processImageWithSubQG.
+// The palette mapping transform mode moves those colours onto a target palette.
+import { ColorPalette, PaletteColor, PaletteMapping, PaletteRemap, RgbaImage } from '../types';
+import { clamp } from './mathHelpers';
+import {
+  CATEGORY_HUES,
+  CATEGORY_LABELS_ORDERED,
+  PALETTE_KMEANS_ITERATIONS,
+  PALETTE_MAP_SPREAD,
+  PALETTE_MIN_SPREAD,
+  PALETTE_NEUTRAL_CHROMA,
+  PALETTE_SAMPLE_COUNT,
+  PALETTE_SIZE,
+} from '../constants';
+
+// sRGB 0-255 -> linear light, precomputed.
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, v) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : t * 841 / 108 + 4 / 29);
+
+// sRGB (0-255) to CIELAB (D65 white point).
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047);
+  const fy = labF(0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb);
+  const fz = labF((0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const labFInverse = (t: number): number => (t > 6 / 29 ? t * t * t : (t - 4 / 29) * 108 / 841);
+
+const linearToSrgb = (c: number): number =>
+  c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+// CIELAB (D65) to sRGB 0-1, clamped to the gamut.
+export const labToRgb = (l: number, a: number, b: number): [number, number, number] => {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * 0.95047;
+  const y = labFInverse(fy);
+  const z = labFInverse(fy - b / 200) * 1.08883;
+  return [
+    clamp(linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z), 0, 1),
+    clamp(linearToSrgb(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z), 0, 1),
+    clamp(linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z), 0, 1),
+  ];
+};
+
+// HSV hue in degrees (0 for greys).
+export const rgbToHue = (r: number, g: number, b: number): number => {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  return (hue * 60 + 360) % 360;
+};
+
+// Index into CATEGORY_LABELS_ORDERED of the category whose hue is closest (around the colour wheel).
+const nearestCategory = (hue: number): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  CATEGORY_HUES.forEach((categoryHue, index) => {
+    const diff = Math.abs(hue - categoryHue) % 360;
+    const distance = Math.min(diff, 360 - diff);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+};
+
+interface PixelSamples {
+  count: number;
+  lab: Float32Array;    // 3 per sample
+  rgb: Uint8Array;      // 3 per sample
+  weight: Float32Array; // Alpha, so transparent areas don't count
+}
+
+// Evenly strided pixel samples; fully transparent pixels are skipped.
+const samplePixels = (image: RgbaImage): PixelSamples => {
+  const pixelCount = image.width * image.height;
+  const step = Math.max(1, Math.floor(pixelCount / PALETTE_SAMPLE_COUNT));
+  const capacity = Math.ceil(pixelCount / step);
+  const samples: PixelSamples = {
+    count: 0,
+    lab: new Float32Array(capacity * 3),
+    rgb: new Uint8Array(capacity * 3),
+    weight: new Float32Array(capacity),
+  };
+  for (let p = 0; p < pixelCount; p += step) {
+    const idx = p * 4;
+    const alpha = image.data[idx + 3];
+    if (alpha === 0) continue;
+    const n = samples.count++;
+    const r = image.data[idx];
+    const g = image.data[idx + 1];
+    const b = image.data[idx + 2];
+    samples.lab.set(rgbToLab(r, g, b), n * 3);
+    samples.rgb.set([r, g, b], n * 3);
+    samples.weight[n] = alpha / 255;
+  }
+  return samples;
+};
+
+// Weighted mean of the samples in a box.
+const boxCentroid = (samples: PixelSamples, box: number[]): number[] => {
+  const centroid = [0, 0, 0];
+  let total = 0;
+  for (const i of box) {
+    const w = samples.weight[i];
+    for (let axis = 0; axis < 3; axis++) centroid[axis] += samples.lab[i * 3 + axis] * w;
+    total += w;
+  }
+  return centroid.map(value => value / total);
+};
+
+// Widest Lab axis of a box and the weighted squared error along it (how much a split would gain).
+// Boxes whose standard deviation stays below PALETTE_MIN_SPREAD report no error: they are one colour.
+const boxSpread = (samples: PixelSamples, box: number[]): { axis: number; error: number } => {
+  const centroid = boxCentroid(samples, box);
+  const errors = [0, 0, 0];
+  let total = 0;
+  for (const i of box) {
+    const w = samples.weight[i];
+    for (let axis = 0; axis < 3; axis++) {
+      const d = samples.lab[i * 3 + axis] - centroid[axis];
+      errors[axis] += d * d * w;
+    }
+    total += w;
+  }
+  const axis = errors.indexOf(Math.max(...errors));
+  const variance = errors[axis] / total;
+  return { axis, error: variance < PALETTE_MIN_SPREAD * PALETTE_MIN_SPREAD ? 0 : errors[axis] };
+};
+
+// Median cut: repeatedly split the box with the largest spread at its weighted median.
+const medianCut = (samples: PixelSamples, size: number): number[][] => {
+  const boxes: number[][] = [Array.from({ length: samples.count }, (_, i) => i)];
+  while (boxes.length < size) {
+    let target = -1;
+    let targetSpread = { axis: 0, error: 0 };
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const spread = boxSpread(samples, box);
+      if (spread.error > targetSpread.error) {
+        target = index;
+        targetSpread = spread;
+      }
+    });
+    if (target < 0) break; // Every remaining box is a single colour
+
+    const { axis } = targetSpread;
+    const box = boxes[target].sort((a, b) => samples.lab[a * 3 + axis] - samples.lab[b * 3 + axis]);
+    const halfWeight = box.reduce((sum, i) => sum + samples.weight[i], 0) / 2;
+    let split = 1;
+    for (let acc = samples.weight[box[0]]; split < box.length - 1 && acc < halfWeight; split++) {
+      acc += samples.weight[box[split]];
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+  return boxes;
+};
+
+// Lloyd's k-means on the samples, starting from the given centres. Returns each sample's cluster.
+const refineKMeans = (samples: PixelSamples, centroids: number[][]): Int32Array => {
+  const assignment = new Int32Array(samples.count).fill(-1);
+  for (let iteration = 0; iteration < PALETTE_KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    for (let i = 0; i < samples.count; i++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const dL = samples.lab[i * 3] - centroids[c][0];
+        const dA = samples.lab[i * 3 + 1] - centroids[c][1];
+        const dB = samples.lab[i * 3 + 2] - centroids[c][2];
+        const distance = dL * dL + dA * dA + dB * dB;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < samples.count; i++) {
+      const sum = sums[assignment[i]];
+      const w = samples.weight[i];
+      sum[0] += samples.lab[i * 3] * w;
+      sum[1] += samples.lab[i * 3 + 1] * w;
+      sum[2] += samples.lab[i * 3 + 2] * w;
+      sum[3] += w;
+    }
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centroids[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+  return assignment;
+};
+
+// Per category: 0.5 plus how far its colours' lightness sits from mid-grey, faded towards 0.5 when the
+// category covers less than an equal share of the image. Categories without colours stay neutral.
+const createCategoryActivations = (colors: PaletteColor[]): number[] =>
+  CATEGORY_LABELS_ORDERED.map(label => {
+    const members = colors.filter(color => color.category === label);
+    const share = members.reduce((sum, color) => sum + color.weight, 0);
+    if (share === 0) return 0.5;
+    const lightness = members.reduce((sum, color) => sum + color.weight * color.lab[0] / 100, 0) / share;
+    return 0.5 + (lightness - 0.5) * Math.min(1, share * CATEGORY_LABELS_ORDERED.length);
+  });
+
+export const extractPalette = (image: RgbaImage, size: number = PALETTE_SIZE): ColorPalette => {
+  const samples = samplePixels(image);
+  if (samples.count === 0) {
+    return { colors: [], activations: CATEGORY_LABELS_ORDERED.map(() => 0.5) };
+  }
+
+  const centroids = medianCut(samples, size).map(box => boxCentroid(samples, box));
+  const assignment = refineKMeans(samples, centroids);
+
+  // Weight and mean sRGB per cluster
+  const clusters = centroids.map(() => ({ weight: 0, r: 0, g: 0, b: 0 }));
+  let totalWeight = 0;
+  for (let i = 0; i < samples.count; i++) {
+    const cluster = clusters[assignment[i]];
+    const w = samples.weight[i];
+    cluster.weight += w;
+    cluster.r += samples.rgb[i * 3] * w;
+    cluster.g += samples.rgb[i * 3 + 1] * w;
+    cluster.b += samples.rgb[i * 3 + 2] * w;
+    totalWeight += w;
+  }
+
+  const colors: PaletteColor[] = [];
+  clusters.forEach((cluster, c) => {
+    if (cluster.weight === 0) return;
+    const r = Math.round(cluster.r / cluster.weight);
+    const g = Math.round(cluster.g / cluster.weight);
+    const b = Math.round(cluster.b / cluster.weight);
+    const lab = centroids[c] as [number, number, number];
+    const chroma = Math.hypot(lab[1], lab[2]);
+    const hue = rgbToHue(r, g, b);
+    colors.push({
+      r, g, b, lab, hue, chroma,
+      weight: cluster.weight / totalWeight,
+      category: chroma < PALETTE_NEUTRAL_CHROMA ? null : CATEGORY_LABELS_ORDERED[nearestCategory(hue)],
+    });
+  });
+  colors.sort((a, b) => b.weight - a.weight);
+
+  return { colors, activations: createCategoryActivations(colors) };
+};
+
+const labDistanceSquared = (p: number[], q: number[]): number =>
+  (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+
+// Pairs every extracted palette colour with its closest target colour (CIELAB ΔE).
+export const createPaletteRemap = (palette: ColorPalette, mapping: PaletteMapping): PaletteRemap | null => {
+  if (palette.colors.length === 0 || mapping.target.length === 0) return null;
+  const targets = mapping.target.map(color => rgbToLab(color.r, color.g, color.b));
+  const source = palette.colors.map(color => color.lab);
+  const offsets = source.map(lab => {
+    const nearest = targets.reduce((best, target) =>
+      labDistanceSquared(lab, target) < labDistanceSquared(lab, best) ? target : best);
+    return [nearest[0] - lab[0], nearest[1] - lab[1], nearest[2] - lab[2]] as [number, number, number];
+  });
+  return { source, offsets, strength: mapping.strength, knotInfluence: mapping.knotInfluence };
+};
+
+// Moves one pixel (sRGB 0-1) by the offsets of the palette colours it resembles: each palette
+// colour's offset is weighted by a Gaussian of its distance, relative to the closest one, so pixels
+// between two palette colours blend smoothly. `amount` (0-1) scales the move.
+export const applyPaletteRemap = (remap: PaletteRemap, r: number, g: number, b: number, amount: number): [number, number, number] => {
+  if (amount <= 0) return [r, g, b];
+  const lab = rgbToLab(Math.round(r * 255), Math.round(g * 255), Math.round(b * 255));
+  const distances = remap.source.map(source => labDistanceSquared(lab, source));
+  const nearest = Math.min(...distances);
+  const offset = [0, 0, 0];
+  let totalWeight = 0;
+  distances.forEach((distance, i) => {
+    const w = Math.exp(-(distance - nearest) / (2 * PALETTE_MAP_SPREAD * PALETTE_MAP_SPREAD));
+    offset[0] += remap.offsets[i][0] * w;
+    offset[1] += remap.offsets[i][1] * w;
+    offset[2] += remap.offsets[i][2] * w;
+    totalWeight += w;
+  });
+  const scale = amount / totalWeight;
+  return labToRgb(lab[0] + offset[0] * scale, lab[1] + offset[1] * scale, lab[2] + offset[2] * scale);
+};
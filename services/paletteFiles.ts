@@ -0,0 +1,143 @@
+// Target palette files for the palette mapping mode: GIMP (.gpl), Adobe Swatch Exchange (.ase)
+// and JSON (a list of hex strings or { r, g, b } objects, optionally wrapped in { name, colors }).
+// DOM-free, so the CLI reads the same files as the browser.
+import { RgbColor, TargetPalette } from '../types';
+import { TARGET_PALETTE_MAX_COLORS } from '../constants';
+import { clamp } from './mathHelpers';
+import { labToRgb } from './palette';
+
+export class PaletteFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaletteFileError';
+  }
+}
+
+const toByte = (value: number): number => Math.round(clamp(value, 0, 1) * 255);
+
+export const rgbToHex = ({ r, g, b }: RgbColor): string =>
+  '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+// "#rgb" or "#rrggbb" (the # is optional); null if the string is not a hex colour.
+export const parseHexColor = (value: string): RgbColor | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  return { r: parseInt(hex.slice(0, 2), 16), g: parseInt(hex.slice(2, 4), 16), b: parseInt(hex.slice(4, 6), 16) };
+};
+
+const finishPalette = (name: string, colors: RgbColor[]): TargetPalette => {
+  if (colors.length === 0) throw new PaletteFileError("The palette file contains no colours.");
+  return { name, colors: colors.slice(0, TARGET_PALETTE_MAX_COLORS) };
+};
+
+const parseGpl = (text: string, fallbackName: string): TargetPalette => {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== 'GIMP Palette') throw new PaletteFileError('Not a GIMP palette (missing "GIMP Palette" header).');
+  let name = fallbackName;
+  const colors: RgbColor[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) return;
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      return;
+    }
+    const [r, g, b] = trimmed.split(/\s+/).slice(0, 3).map(Number);
+    if (![r, g, b].every(v => Number.isInteger(v) && v >= 0 && v <= 255)) {
+      throw new PaletteFileError(`Line ${index + 2}: expected "R G B [name]" with values 0-255, got "${trimmed}".`);
+    }
+    colors.push({ r, g, b });
+  });
+  return finishPalette(name, colors);
+};
+
+// ASE: big-endian "ASEF" header, then blocks; colour entries carry a UTF-16 name, a colour model
+// and float32 components.
+const parseAse = (bytes: Uint8Array, fallbackName: string): TargetPalette => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 4)) !== 'ASEF') {
+    throw new PaletteFileError('Not an Adobe Swatch Exchange file (missing "ASEF" signature).');
+  }
+  const blockCount = view.getUint32(8);
+  const colors: RgbColor[] = [];
+  let offset = 12;
+  try {
+    for (let block = 0; block < blockCount; block++) {
+      const type = view.getUint16(offset);
+      const length = view.getUint32(offset + 2);
+      const start = offset + 6;
+      offset = start + length;
+      if (type !== 0x0001) continue; // Group start/end
+      const nameLength = view.getUint16(start);
+      const modelOffset = start + 2 + nameLength * 2;
+      const model = String.fromCharCode(...bytes.subarray(modelOffset, modelOffset + 4));
+      const component = (i: number) => view.getFloat32(modelOffset + 4 + i * 4);
+      switch (model) {
+        case 'RGB ':
+          colors.push({ r: toByte(component(0)), g: toByte(component(1)), b: toByte(component(2)) });
+          break;
+        case 'CMYK': {
+          const k = 1 - component(3);
+          colors.push({ r: toByte((1 - component(0)) * k), g: toByte((1 - component(1)) * k), b: toByte((1 - component(2)) * k) });
+          break;
+        }
+        case 'LAB ': {
+          const [r, g, b] = labToRgb(component(0) * 100, component(1), component(2));
+          colors.push({ r: toByte(r), g: toByte(g), b: toByte(b) });
+          break;
+        }
+        case 'Gray': {
+          const v = toByte(component(0));
+          colors.push({ r: v, g: v, b: v });
+          break;
+        }
+        default:
+          throw new PaletteFileError(`Unsupported colour model "${model.trim()}" in swatch ${block + 1}.`);
+      }
+    }
+  } catch (err) {
+    if (err instanceof RangeError) throw new PaletteFileError('The swatch file is truncated.');
+    throw err;
+  }
+  return finishPalette(fallbackName, colors);
+};
+
+const parseJsonColor = (value: unknown, index: number): RgbColor => {
+  if (typeof value === 'string') {
+    const color = parseHexColor(value);
+    if (color) return color;
+  } else if (value && typeof value === 'object') {
+    const { r, g, b } = value as Record<string, unknown>;
+    if ([r, g, b].every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 255)) {
+      return { r: Math.round(r as number), g: Math.round(g as number), b: Math.round(b as number) };
+    }
+  }
+  throw new PaletteFileError(`Colour ${index + 1}: expected a hex string or { "r", "g", "b" } with values 0-255, got ${JSON.stringify(value)}.`);
+};
+
+const parseJson = (text: string, fallbackName: string): TargetPalette => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new PaletteFileError(`Not a valid JSON file: ${(err as Error).message}`);
+  }
+  const wrapper = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : null;
+  const list = wrapper ? wrapper.colors : raw;
+  if (!Array.isArray(list)) throw new PaletteFileError('Expected a JSON array of colours or an object with a "colors" array.');
+  const name = wrapper && typeof wrapper.name === 'string' && wrapper.name.trim() ? wrapper.name.trim() : fallbackName;
+  return finishPalette(name, list.map(parseJsonColor));
+};
+
+// Picks the parser by file extension.
+export const parsePaletteFile = (fileName: string, bytes: Uint8Array): TargetPalette => {
+  const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+  const baseName = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  switch (extension) {
+    case 'gpl': return parseGpl(new TextDecoder().decode(bytes), baseName);
+    case 'ase': return parseAse(bytes, baseName);
+    case 'json': return parseJson(new TextDecoder().decode(bytes), baseName);
+    default: throw new PaletteFileError(`Unsupported palette file "${fileName}" (expected .gpl, .ase or .json).`);
+  }
+};
@@ -0,0 +1,269 @@
+import { SubQGParams, TransformationParams, RiemannStats, KnotMap, PipelineProgress, RgbaImage, ResolutionOption, AnimationParams, RegionMask, ColorPalette, PaletteMapping, EnsembleRequest, EnsembleStats, SweepParams, SweepCell, SimulationRecording } from '../types';
+import { FIELD_SIZE_MIN, FIELD_SIZE_MAX, FIELD_SIZE_STEP } from '../constants';
+import { clamp } from './mathHelpers';
+import { SubQGSimulator } from './subqg';
+import {
+  resizeKnotMap,
+  processImageWithSubQG,
+  applyPostProcessing,
+  resizeImageData
+} from './imageUtils';
+import { createStreamRandom, RANDOM_STREAM_TRANSFORM } from './random';
+import { createSimulationGuidance } from './imageGuidance';
+import { createStrengthMask } from './regionMask';
+import { extractPalette, createPaletteRemap } from './palette';
+import { renderTiled, shouldRenderTiled } from './tiledRender';
+import { runSimulationEnsemble } from './ensemble';
+import { applySweepValue, getSweepValues } from './sweep';
+
+// Field height that keeps the simulation grid at the image's aspect ratio for a given field width.
+export const fitFieldHeightToAspect = (fieldWidth: number, imageWidth: number, imageHeight: number): number => {
+  const height = Math.round((fieldWidth * imageHeight / imageWidth) / FIELD_SIZE_STEP) * FIELD_SIZE_STEP;
+  return clamp(height, FIELD_SIZE_MIN, FIELD_SIZE_MAX);
+};
+
+// Output size for a RESOLUTION_OPTIONS entry; "Original" (no width/height) keeps the input size.
+export const resolveTargetSize = (
+  option: ResolutionOption | undefined,
+  imageWidth: number,
+  imageHeight: number
+): { targetWidth: number; targetHeight: number } => {
+  if (option && option.width && option.height) {
+    return { targetWidth: option.width, targetHeight: option.height };
+  }
+  return { targetWidth: imageWidth, targetHeight: imageHeight };
+};
+
+export interface TransformPipelineResult {
+  imageData: RgbaImage;
+  knot_map: KnotMap;
+  stats: RiemannStats;
+  palette: ColorPalette;
+  ensemble: EnsembleStats | null;
+  recording: SimulationRecording | null;
+}
+
+// The full SubQG render: simulation -> Riemann analysis -> palette extraction -> pixel transform -> post-processing.
+// In ensemble mode the simulation runs once per ensemble seed and the selected run is rendered with its
+// own seed, so the result equals a single render with ensemble.seeds[ensemble.selected_run].
+// recordSimulation keeps every simulation step of the rendered run (see SubQGSimulator.runSimulation).
+// DOM-free, so it runs in the transform worker as well as in the Node CLI.
+export const runTransformPipeline = async (
+  originalImageData: RgbaImage,
+  subQGParams: SubQGParams,
+  transformParams: TransformationParams,
+  targetWidth: number,
+  targetHeight: number,
+  onProgress?: (progress: PipelineProgress) => void,
+  mask: RegionMask | null = null,
+  paletteMap: PaletteMapping | null = null, // Palette mapping transform mode; null = harmony colour mood
+  ensemble: EnsembleRequest | null = null,
+  recordSimulation = false
+): Promise<TransformPipelineResult> => {
+  const guidance = createSimulationGuidance(originalImageData, subQGParams.image_guidance, subQGParams.field_w, subQGParams.field_h);
+  let seed = subQGParams.seed;
+  let knot_map: KnotMap;
+  let stats: RiemannStats;
+  let ensembleStats: EnsembleStats | null = null;
+  let recording: SimulationRecording | null = null;
+  if (ensemble) {
+    const result = runSimulationEnsemble(subQGParams, guidance, ensemble, (done, total) => onProgress?.({ stage: 'ensemble', done, total }));
+    ({ seed, knot_map, stats, ensemble: ensembleStats } = result);
+    if (recordSimulation) {
+      // Replaying the selected seed reproduces its run step by step
+      recording = new SubQGSimulator({ ...subQGParams, seed }, undefined, guidance).runSimulation(undefined, true).recording;
+    }
+    onProgress?.({ stage: 'analysis', done: 0, total: 1 });
+  } else {
+    const simulator = new SubQGSimulator(subQGParams, undefined, guidance);
+    ({ knot_map, recording } = simulator.runSimulation((done, total) => onProgress?.({ stage: 'simulation', done, total }), recordSimulation));
+    onProgress?.({ stage: 'analysis', done: 0, total: 1 });
+    stats = simulator.analyzeRiemannProjection();
+  }
+  const palette = extractPalette(originalImageData);
+  const paletteRemap = paletteMap ? createPaletteRemap(palette, paletteMap) : null;
+  onProgress?.({ stage: 'analysis', done: 1, total: 1 });
+
+  if (shouldRenderTiled(originalImageData.width, originalImageData.height, targetWidth, targetHeight)) {
+    // Transform and post-processing run together per tile, so progress counts tiles instead of rows
+    const imageData = renderTiled(
+      originalImageData,
+      palette.activations,
+      transformParams,
+      knot_map,
+      stats.harmony_score,
+      seed,
+      targetWidth,
+      targetHeight,
+      mask,
+      paletteRemap,
+      (done, total) => onProgress?.({ stage: 'tiles', done, total })
+    );
+    return { imageData, knot_map, stats, palette, ensemble: ensembleStats, recording };
+  }
+
+  const resizedKnotMap = resizeKnotMap(knot_map, originalImageData.width, originalImageData.height);
+  const strengthMask = mask ? createStrengthMask(mask, originalImageData.width, originalImageData.height) : null;
+  let processedImageData = processImageWithSubQG(
+    originalImageData,
+    palette.activations,
+    transformParams,
+    resizedKnotMap,
+    stats.harmony_score,
+    createStreamRandom(seed, RANDOM_STREAM_TRANSFORM),
+    (done, total) => onProgress?.({ stage: 'transform', done, total }),
+    0,
+    strengthMask,
+    paletteRemap
+  );
+
+  onProgress?.({ stage: 'postprocess', done: 0, total: 1 });
+  processedImageData = applyPostProcessing(processedImageData, stats.harmony_score, transformParams, targetWidth, targetHeight, strengthMask);
+  onProgress?.({ stage: 'postprocess', done: 1, total: 1 });
+
+  return { imageData: processedImageData, knot_map, stats, palette, ensemble: ensembleStats, recording };
+};
+
+// Frame size for an animation: the output size scaled down to maxSize on its longer side.
+// Even dimensions keep video encoders happy.
+export const resolveAnimationSize = (targetWidth: number, targetHeight: number, maxSize: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxSize / Math.max(targetWidth, targetHeight));
+  return {
+    width: Math.max(2, Math.round(targetWidth * scale / 2) * 2),
+    height: Math.max(2, Math.round(targetHeight * scale / 2) * 2),
+  };
+};
+
+export interface AnimationPipelineResult {
+  knot_map: KnotMap;
+  stats: RiemannStats;
+  width: number;
+  height: number;
+  frameCount: number;
+  palette: ColorPalette;
+}
+
+// Renders an animation of the SubQG evolution. Every frame goes through processImageWithSubQG and
+// applyPostProcessing directly at the frame size; all frames share the final harmony score so the
+// colour mood stays stable. Frames are handed to onFrame one at a time and not retained.
+export const runAnimationPipeline = async (
+  originalImageData: RgbaImage,
+  subQGParams: SubQGParams,
+  transformParams: TransformationParams,
+  targetWidth: number,
+  targetHeight: number,
+  animation: AnimationParams,
+  onFrame: (frame: RgbaImage, index: number, total: number) => void | Promise<void>,
+  onProgress?: (progress: PipelineProgress) => void,
+  mask: RegionMask | null = null,
+  paletteMap: PaletteMapping | null = null // Palette mapping transform mode; null = harmony colour mood
+): Promise<AnimationPipelineResult> => {
+  const { width, height } = resolveAnimationSize(targetWidth, targetHeight, animation.max_size);
+  const byTimeStep = animation.mode === 'time_steps';
+  const frameCount = Math.max(1, byTimeStep ? Math.min(animation.frame_count, subQGParams.sim_duration) : animation.frame_count);
+
+  // Simulation step after which each frame's knot map is captured (strictly increasing).
+  const snapshotSteps = byTimeStep
+    ? Array.from({ length: frameCount }, (_, k) => Math.round((k + 1) * subQGParams.sim_duration / frameCount))
+    : [];
+  const snapshots: Float32Array[] = [];
+
+  const guidance = createSimulationGuidance(originalImageData, subQGParams.image_guidance, subQGParams.field_w, subQGParams.field_h);
+  const simulator = new SubQGSimulator(subQGParams, undefined, guidance);
+  const { knot_map } = simulator.runSimulation((done, total) => {
+    if (snapshots.length < snapshotSteps.length && snapshotSteps[snapshots.length] === done) {
+      snapshots.push(simulator.knot_map.data.slice());
+    }
+    onProgress?.({ stage: 'simulation', done, total });
+  });
+
+  onProgress?.({ stage: 'analysis', done: 0, total: 1 });
+  const stats = simulator.analyzeRiemannProjection();
+  const palette = extractPalette(originalImageData);
+  const paletteRemap = paletteMap ? createPaletteRemap(palette, paletteMap) : null;
+  const source = resizeImageData(originalImageData, width, height);
+  const finalKnotMap = byTimeStep ? null : resizeKnotMap(knot_map, width, height);
+  const strengthMask = mask ? createStrengthMask(mask, width, height) : null;
+  onProgress?.({ stage: 'analysis', done: 1, total: 1 });
+
+  for (let k = 0; k < frameCount; k++) {
+    const frameKnotMap = finalKnotMap
+      ?? resizeKnotMap({ width: knot_map.width, height: knot_map.height, data: snapshots[k] }, width, height);
+    const phaseShift = byTimeStep ? 0 : 2 * Math.PI * k / frameCount;
+    const processed = processImageWithSubQG(
+      source,
+      palette.activations,
+      transformParams,
+      frameKnotMap,
+      stats.harmony_score,
+      createStreamRandom(subQGParams.seed, RANDOM_STREAM_TRANSFORM), // Same seeded offsets every frame
+      undefined,
+      phaseShift,
+      strengthMask,
+      paletteRemap
+    );
+    await onFrame(applyPostProcessing(processed, stats.harmony_score, transformParams, width, height, strengthMask), k, frameCount);
+    onProgress?.({ stage: 'frames', done: k + 1, total: frameCount });
+  }
+
+  return { knot_map, stats, width, height, frameCount, palette };
+};
+
+// Renders every cell of a parameter sweep at thumbnail size (output aspect ratio, longest side
+// sweep.thumbnail_size), row by row. Cells share the seed, palette and mask, so they differ only by the
+// swept values, and each cell's stats equal those of a full render with its parameters.
+export const runSweepPipeline = async (
+  originalImageData: RgbaImage,
+  subQGParams: SubQGParams,
+  transformParams: TransformationParams,
+  targetWidth: number,
+  targetHeight: number,
+  sweep: SweepParams,
+  onCell: (cell: SweepCell) => void | Promise<void>,
+  onProgress?: (progress: PipelineProgress) => void,
+  mask: RegionMask | null = null,
+  paletteMap: PaletteMapping | null = null
+): Promise<{ columns: number; rows: number }> => {
+  const { width, height } = resolveAnimationSize(targetWidth, targetHeight, sweep.thumbnail_size);
+  const xValues = getSweepValues(sweep.x);
+  const yValues = sweep.y ? getSweepValues(sweep.y) : [null];
+  const total = xValues.length * yValues.length;
+
+  const palette = extractPalette(originalImageData);
+  const paletteRemap = paletteMap ? createPaletteRemap(palette, paletteMap) : null;
+  const source = resizeImageData(originalImageData, width, height);
+  const strengthMask = mask ? createStrengthMask(mask, width, height) : null;
+
+  for (let row = 0; row < yValues.length; row++) {
+    for (let column = 0; column < xValues.length; column++) {
+      let params = applySweepValue({ subQGParams, transformParams }, sweep.x, xValues[column]);
+      const yValue = yValues[row];
+      if (sweep.y && yValue !== null) params = applySweepValue(params, sweep.y, yValue);
+      const cellSubQG = params.subQGParams;
+      const cellTransform = params.transformParams;
+
+      const guidance = createSimulationGuidance(originalImageData, cellSubQG.image_guidance, cellSubQG.field_w, cellSubQG.field_h);
+      const simulator = new SubQGSimulator(cellSubQG, undefined, guidance);
+      const { knot_map } = simulator.runSimulation();
+      const stats = simulator.analyzeRiemannProjection();
+      const processed = processImageWithSubQG(
+        source,
+        palette.activations,
+        cellTransform,
+        resizeKnotMap(knot_map, width, height),
+        stats.harmony_score,
+        createStreamRandom(cellSubQG.seed, RANDOM_STREAM_TRANSFORM),
+        undefined,
+        0,
+        strengthMask,
+        paletteRemap
+      );
+      const image = applyPostProcessing(processed, stats.harmony_score, cellTransform, width, height, strengthMask);
+      await onCell({ column, row, subQGParams: cellSubQG, transformParams: cellTransform, stats, image });
+      onProgress?.({ stage: 'cells', done: row * xValues.length + column + 1, total });
+    }
+  }
+
+  return { columns: xValues.length, rows: yValues.length };
+};
+
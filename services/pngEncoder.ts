@@ -0,0 +1,138 @@
+// PNG writing in plain TypeScript, usable in workers and in Node: text chunks for embedding
+// metadata into existing PNG files, and 16-bit RGBA and grayscale encoders (canvas only writes 8-bit PNGs).
+// Compression uses the platform's CompressionStream, whose "deflate" format is the zlib stream PNG expects.
+import { RgbaImage } from '../types';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const FILTER_SUB = 1;
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_RGBA = 6;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 (IEEE), as used by PNG chunks and ZIP entries.
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const latin1Bytes = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length >= 8 && PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+// Length, type, data and the CRC over type + data.
+export const createPngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1Bytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// tEXt: Latin-1 keyword and text.
+export const createPngTextChunk = (keyword: string, text: string): Uint8Array =>
+  createPngChunk('tEXt', concatBytes([latin1Bytes(keyword), new Uint8Array(1), latin1Bytes(text)]));
+
+// iTXt: uncompressed UTF-8 text without language tag or translated keyword.
+export const createPngInternationalTextChunk = (keyword: string, text: string): Uint8Array =>
+  createPngChunk('iTXt', concatBytes([latin1Bytes(keyword), new Uint8Array(5), new TextEncoder().encode(text)]));
+
+// Inserts the chunks right before IEND.
+export const insertPngChunks = (png: Uint8Array, chunks: Uint8Array[]): Uint8Array => {
+  if (!isPng(png)) throw new Error("Not a PNG file.");
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    if (String.fromCharCode(...png.subarray(offset + 4, offset + 8)) === 'IEND') {
+      return concatBytes([png.subarray(0, offset), ...chunks, png.subarray(offset)]);
+    }
+    offset += 12 + length;
+  }
+  throw new Error("The PNG file has no IEND chunk.");
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Signature, 16-bit IHDR, one IDAT with the filtered rows and IEND.
+const assemblePng = async (width: number, height: number, colorType: number, filteredRows: Uint8Array): Promise<Uint8Array> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16; // Bit depth
+  header[9] = colorType; // Compression, filter and interlace method stay 0
+
+  return concatBytes([
+    Uint8Array.from(PNG_SIGNATURE),
+    createPngChunk('IHDR', header),
+    createPngChunk('IDAT', await deflate(filteredRows)),
+    createPngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+// 16 bit per channel RGBA. The pipeline works in 8 bit, so each value v is stored as v * 257,
+// which maps 0-255 exactly onto 0-65535 but adds no precision. Rows use the Sub filter (8 bytes per pixel).
+export const encodePng16 = async (image: RgbaImage): Promise<Uint8Array> => {
+  const { width, height, data } = image;
+  const stride = width * 8;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    raw[rowStart] = FILTER_SUB;
+    for (let i = 0; i < width * 4; i++) {
+      const value = data[y * width * 4 + i];
+      const previous = i >= 4 ? data[y * width * 4 + i - 4] : 0;
+      const delta = (value - previous) & 0xff;
+      // Both bytes of v * 257 equal v, so the filtered high and low bytes are the same difference
+      raw[rowStart + 1 + i * 2] = delta;
+      raw[rowStart + 2 + i * 2] = delta;
+    }
+  }
+
+  return assemblePng(width, height, COLOR_TYPE_RGBA, raw);
+};
+
+// 16-bit grayscale from arbitrary values, clamped to 0-65535 and rounded; for data exports
+// (e.g. raw knot counts) rather than pictures. Sub filter with 2 bytes per pixel.
+export const encodeGrayPng16 = async (width: number, height: number, values: ArrayLike<number>): Promise<Uint8Array> => {
+  const stride = width * 2;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    raw[rowStart] = FILTER_SUB;
+    let previous = 0;
+    for (let x = 0; x < width; x++) {
+      const value = Math.min(65535, Math.max(0, Math.round(values[y * width + x])));
+      raw[rowStart + 1 + x * 2] = ((value >> 8) - (previous >> 8)) & 0xff;
+      raw[rowStart + 2 + x * 2] = ((value & 0xff) - (previous & 0xff)) & 0xff;
+      previous = value;
+    }
+  }
+  return assemblePng(width, height, COLOR_TYPE_GRAY, raw);
+};
@@ -0,0 +1,24 @@
+// Persists user presets in localStorage, re-validating them on load like an imported file.
+import { ParameterPreset } from '../types';
+import { parsePresetFile, serializePresets } from './presets';
+
+const STORAGE_KEY = 'subqg-image-transformer.presets';
+
+export const loadUserPresets = (): ParameterPreset[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return parsePresetFile(stored).presets;
+  } catch (err) {
+    console.warn("Ignoring unreadable stored presets:", err);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: ParameterPreset[]): void => {
+  if (presets.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  }
+};
@@ -0,0 +1,374 @@
+// Named parameter presets and their versioned JSON file format. Parsing validates every field
+// against the SubQGParams / TransformationParams shapes and migrates files from older versions,
+// reporting problems by path instead of letting NaN reach the sliders.
+import { ParameterPreset, SubQGParams, TransformationParams, WaveModelParams, ImageGuidanceParams, GuidanceChannel, WaveModelId } from '../types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, FIELD_SIZE_MIN, FIELD_SIZE_MAX, SIM_DURATION_MAX } from '../constants';
+import { WAVE_MODELS, getDefaultWaveParams } from './waveModels';
+import { GUIDANCE_CHANNEL_LABELS } from './imageGuidance';
+import { normalizeSeed } from './random';
+
+export const PRESET_FILE_FORMAT = 'subqg-preset';
+// 0: unversioned JSON ({ subQGParams, transformParams } as in CLI configs and sidecars)
+// 1: { format, version, presets: [{ name, description?, subQGParams, transformParams }] }
+// 2: transformParams carries the full field response profile
+export const PRESET_FORMAT_VERSION = 2;
+
+export class PresetValidationError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `• ${issue}`).join('\n')}` : message);
+    this.name = 'PresetValidationError';
+  }
+}
+
+export interface PresetImportResult {
+  presets: ParameterPreset[];
+  notes: string[]; // Non-fatal migration remarks, e.g. fields filled with defaults
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === undefined ? 'no value' : JSON.stringify(value) ?? String(value);
+
+export interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+const SUBQG_NUMBER_RULES: Record<string, NumberRule> = {
+  sim_duration: { integer: true, min: 1, max: SIM_DURATION_MAX },
+  noise_factor: { min: 0 },
+  threshold_s: {},
+  decimal_precision: { integer: true, min: 0, max: 10 },
+  f_energy: {},
+  f_phase: {},
+  re_s_scaling_c: {},
+  field_w: { integer: true, min: FIELD_SIZE_MIN, max: FIELD_SIZE_MAX },
+  field_h: { integer: true, min: FIELD_SIZE_MIN, max: FIELD_SIZE_MAX },
+  seed: { integer: true, min: 0 },
+};
+
+const TRANSFORM_NUMBER_RULES: Record<keyof TransformationParams, NumberRule> = {
+  brightness_factor: {},
+  contrast_factor: { min: 0 },
+  activation_brightness: {},
+  activation_contrast: {},
+  wave_freq_x_base: {},
+  wave_freq_x_harmony: {},
+  wave_freq_y_base: {},
+  wave_freq_y_harmony: {},
+  knot_phase_influence: {},
+  field_color_modulation: {},
+  field_saturation_ratio: {},
+  field_brightness_variation: {},
+  color_temp_range: {},
+  saturation_range: {},
+  warm_shift_r: {},
+  warm_shift_g: {},
+  warm_shift_b: {},
+  cool_shift_r: {},
+  cool_shift_b: {},
+  post_enhance_threshold: { min: 0, max: 1 },
+  post_enhance_contrast: { min: 0 },
+  post_enhance_saturation: { min: 0 },
+  post_soften_threshold: { min: 0, max: 1 },
+  post_blur_scale: { min: 0 },
+  post_blur_max: { min: 0 },
+};
+
+// What a numeric SubQGParams / TransformationParams field accepts (empty for fields without limits).
+export const getNumberRule = (group: 'subQGParams' | 'transformParams', key: string): NumberRule =>
+  (group === 'subQGParams' ? SUBQG_NUMBER_RULES[key] : TRANSFORM_NUMBER_RULES[key as keyof TransformationParams]) ?? {};
+
+// Collects every problem of one preset before failing, so a broken file is fixed in one pass.
+class IssueCollector {
+  readonly issues: string[] = [];
+
+  constructor(private readonly prefix: string) {}
+
+  add(path: string, message: string): void {
+    this.issues.push(`${this.prefix}${path}: ${message}`);
+  }
+
+  number(path: string, value: unknown, rule: NumberRule): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.add(path, `expected a number, got ${describe(value)}`);
+      return NaN;
+    }
+    if (rule.integer && !Number.isInteger(value)) this.add(path, `expected an integer, got ${value}`);
+    if (rule.min !== undefined && value < rule.min) this.add(path, `must be at least ${rule.min}, got ${value}`);
+    if (rule.max !== undefined && value > rule.max) this.add(path, `must be at most ${rule.max}, got ${value}`);
+    return value;
+  }
+
+  unknownKeys(path: string, value: JsonObject, known: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) this.add(path ? `${path}.${key}` : key, 'unknown parameter');
+    }
+  }
+}
+
+const WAVE_MODEL_IDS = WAVE_MODELS.map(model => model.id);
+const GUIDANCE_CHANNELS = Object.keys(GUIDANCE_CHANNEL_LABELS) as GuidanceChannel[];
+
+const validateWaveParams = (issues: IssueCollector, modelId: WaveModelId, raw: unknown): WaveModelParams => {
+  if (!isObject(raw)) {
+    issues.add('subQGParams.wave_params', `expected an object, got ${describe(raw)}`);
+    return {};
+  }
+  const defaults = getDefaultWaveParams(modelId);
+  issues.unknownKeys('subQGParams.wave_params', raw, Object.keys(defaults));
+  const params: WaveModelParams = {};
+  for (const key of Object.keys(defaults)) {
+    params[key] = issues.number(`subQGParams.wave_params.${key}`, raw[key], {});
+  }
+  return params;
+};
+
+const validateImageGuidance = (issues: IssueCollector, raw: unknown): ImageGuidanceParams => {
+  const path = 'subQGParams.image_guidance';
+  if (!isObject(raw)) {
+    issues.add(path, `expected an object, got ${describe(raw)}`);
+    return DEFAULT_SUBQG_PARAMS.image_guidance;
+  }
+  issues.unknownKeys(path, raw, Object.keys(DEFAULT_SUBQG_PARAMS.image_guidance));
+  if (typeof raw.enabled !== 'boolean') issues.add(`${path}.enabled`, `expected true or false, got ${describe(raw.enabled)}`);
+  for (const key of ['energy_channel', 'phase_channel'] as const) {
+    if (!(GUIDANCE_CHANNELS as unknown[]).includes(raw[key])) {
+      issues.add(`${path}.${key}`, `expected one of ${GUIDANCE_CHANNELS.join(', ')}, got ${describe(raw[key])}`);
+    }
+  }
+  return {
+    enabled: raw.enabled === true,
+    energy_channel: raw.energy_channel as GuidanceChannel,
+    phase_channel: raw.phase_channel as GuidanceChannel,
+    strength: issues.number(`${path}.strength`, raw.strength, { min: 0, max: 1 }),
+  };
+};
+
+const validateSubQGParams = (issues: IssueCollector, raw: unknown): SubQGParams => {
+  if (!isObject(raw)) {
+    issues.add('subQGParams', `expected an object, got ${describe(raw)}`);
+    return DEFAULT_SUBQG_PARAMS;
+  }
+  issues.unknownKeys('subQGParams', raw, Object.keys(DEFAULT_SUBQG_PARAMS));
+  const numbers = Object.fromEntries(
+    Object.entries(SUBQG_NUMBER_RULES).map(([key, rule]) => [key, issues.number(`subQGParams.${key}`, raw[key], rule)])
+  );
+  let waveModel = raw.wave_model as WaveModelId;
+  if (!(WAVE_MODEL_IDS as unknown[]).includes(waveModel)) {
+    issues.add('subQGParams.wave_model', `expected one of ${WAVE_MODEL_IDS.join(', ')}, got ${describe(raw.wave_model)}`);
+    waveModel = DEFAULT_SUBQG_PARAMS.wave_model;
+  }
+  return {
+    ...(numbers as Omit<SubQGParams, 'wave_model' | 'wave_params' | 'image_guidance'>),
+    wave_model: waveModel,
+    wave_params: validateWaveParams(issues, waveModel, raw.wave_params),
+    image_guidance: validateImageGuidance(issues, raw.image_guidance),
+  };
+};
+
+const validateTransformParams = (issues: IssueCollector, raw: unknown): TransformationParams => {
+  if (!isObject(raw)) {
+    issues.add('transformParams', `expected an object, got ${describe(raw)}`);
+    return DEFAULT_TRANSFORMATION_PARAMS;
+  }
+  issues.unknownKeys('transformParams', raw, Object.keys(TRANSFORM_NUMBER_RULES));
+  return Object.fromEntries(
+    Object.entries(TRANSFORM_NUMBER_RULES).map(([key, rule]) => [key, issues.number(`transformParams.${key}`, raw[key], rule)])
+  ) as unknown as TransformationParams;
+};
+
+// Checks one preset in the current format; throws with every issue found.
+export const validatePreset = (raw: unknown, label = 'Preset'): ParameterPreset => {
+  const issues = new IssueCollector(`${label} → `);
+  if (!isObject(raw)) {
+    throw new PresetValidationError(`${label} must be a JSON object, got ${describe(raw)}.`);
+  }
+  issues.unknownKeys('', raw, ['name', 'description', 'subQGParams', 'transformParams']);
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) issues.add('name', `expected a non-empty string, got ${describe(raw.name)}`);
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    issues.add('description', `expected a string, got ${describe(raw.description)}`);
+  }
+  const preset: ParameterPreset = {
+    name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    subQGParams: validateSubQGParams(issues, raw.subQGParams),
+    transformParams: validateTransformParams(issues, raw.transformParams),
+  };
+  if (issues.issues.length > 0) {
+    throw new PresetValidationError(`${label} "${name || '(unnamed)'}" is invalid:`, issues.issues);
+  }
+  return preset;
+};
+
+// Version 0 → 1: wrap the bare parameter object into a named preset list and fill the fields
+// that were added after the original release (seed, grid size, wave model, image guidance).
+const migrateFromVersion0 = (raw: JsonObject, fileName: string, notes: string[]): JsonObject => {
+  const subQGParams = isObject(raw.subQGParams) ? { ...raw.subQGParams } : raw.subQGParams;
+  if (isObject(subQGParams)) {
+    const filled: string[] = [];
+    for (const key of ['field_w', 'field_h', 'seed'] as const) {
+      if (subQGParams[key] === undefined) {
+        subQGParams[key] = DEFAULT_SUBQG_PARAMS[key];
+        filled.push(key);
+      }
+    }
+    if (subQGParams.wave_model === undefined) {
+      subQGParams.wave_model = DEFAULT_SUBQG_PARAMS.wave_model;
+      filled.push('wave_model');
+    }
+    if (subQGParams.wave_params === undefined && (WAVE_MODEL_IDS as unknown[]).includes(subQGParams.wave_model)) {
+      subQGParams.wave_params = getDefaultWaveParams(subQGParams.wave_model as WaveModelId);
+      filled.push('wave_params');
+    }
+    if (subQGParams.image_guidance === undefined) {
+      subQGParams.image_guidance = DEFAULT_SUBQG_PARAMS.image_guidance;
+      filled.push('image_guidance');
+    }
+    if (filled.length > 0) {
+      notes.push(`Filled fields missing from the unversioned file with defaults: ${filled.join(', ')}.`);
+    }
+  }
+  const transformParams = raw.transformParams === undefined ? DEFAULT_TRANSFORMATION_PARAMS : raw.transformParams;
+  if (raw.transformParams === undefined) notes.push("No transformParams in the file; using the defaults.");
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name : fileName.replace(/\.json$/i, '') || 'Imported preset';
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    presets: [{ name, subQGParams, transformParams }],
+  };
+};
+
+// Version 1 → 2: presets only held brightness and contrast; the field response profile starts at
+// its defaults, which reproduce the earlier look.
+const migrateFromVersion1 = (raw: JsonObject, _fileName: string, notes: string[]): JsonObject => {
+  if (!Array.isArray(raw.presets)) return { ...raw, version: 2 };
+  let filled = false;
+  const presets = raw.presets.map(preset => {
+    if (!isObject(preset) || !isObject(preset.transformParams)) return preset;
+    const missing = Object.keys(DEFAULT_TRANSFORMATION_PARAMS).filter(key => (preset.transformParams as JsonObject)[key] === undefined);
+    if (missing.length === 0) return preset;
+    filled = true;
+    return { ...preset, transformParams: { ...DEFAULT_TRANSFORMATION_PARAMS, ...preset.transformParams } };
+  });
+  if (filled) notes.push("Filled the field response profile with its defaults.");
+  return { ...raw, version: 2, presets };
+};
+
+// Indexed by the version a migration starts from.
+const MIGRATIONS: ((raw: JsonObject, fileName: string, notes: string[]) => JsonObject)[] = [
+  migrateFromVersion0,
+  migrateFromVersion1,
+];
+
+export const parsePresetFile = (text: string, fileName = ''): PresetImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new PresetValidationError(`Not a valid JSON file: ${(err as Error).message}`);
+  }
+  if (!isObject(raw)) {
+    throw new PresetValidationError("A preset file must contain a JSON object.");
+  }
+  if (raw.format !== undefined && raw.format !== PRESET_FILE_FORMAT) {
+    throw new PresetValidationError(`Unsupported file format "${String(raw.format)}" (expected "${PRESET_FILE_FORMAT}").`);
+  }
+
+  const version = raw.version === undefined ? 0 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new PresetValidationError(`Invalid preset file version ${describe(raw.version)}.`);
+  }
+  if (version > PRESET_FORMAT_VERSION) {
+    throw new PresetValidationError(
+      `This preset file has version ${version}, but this app only understands up to version ${PRESET_FORMAT_VERSION}. Please update the app.`
+    );
+  }
+
+  const notes: string[] = [];
+  let current = raw;
+  for (let v = version; v < PRESET_FORMAT_VERSION; v++) {
+    current = MIGRATIONS[v](current, fileName, notes);
+  }
+  if (version < PRESET_FORMAT_VERSION) {
+    notes.unshift(`Migrated preset file from version ${version} to ${PRESET_FORMAT_VERSION}.`);
+  }
+
+  if (!Array.isArray(current.presets) || current.presets.length === 0) {
+    throw new PresetValidationError("The file contains no presets (expected a non-empty \"presets\" array).");
+  }
+  const presets: ParameterPreset[] = [];
+  const issues: string[] = [];
+  current.presets.forEach((entry, index) => {
+    try {
+      presets.push(validatePreset(entry, `Preset ${index + 1}`));
+    } catch (err) {
+      if (!(err instanceof PresetValidationError)) throw err;
+      issues.push(...(err.issues.length > 0 ? err.issues : [err.message]));
+    }
+  });
+  if (issues.length > 0) {
+    throw new PresetValidationError("The preset file could not be imported:", issues);
+  }
+  return { presets, notes };
+};
+
+export const serializePresets = (presets: ParameterPreset[]): string =>
+  JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FORMAT_VERSION,
+    presets: presets.map(({ name, description, subQGParams, transformParams }) => ({ name, description, subQGParams, transformParams })),
+  }, null, 2) + '\n';
+
+export const createPreset = (name: string, subQGParams: SubQGParams, transformParams: TransformationParams, description?: string): ParameterPreset => ({
+  name: name.trim(),
+  description,
+  subQGParams: { ...subQGParams, seed: normalizeSeed(subQGParams.seed) },
+  transformParams: { ...transformParams },
+});
+
+const builtIn = (name: string, description: string, subQG: Partial<SubQGParams>, transform: Partial<TransformationParams> = {}): ParameterPreset => ({
+  name,
+  description,
+  builtIn: true,
+  subQGParams: { ...DEFAULT_SUBQG_PARAMS, ...subQG },
+  transformParams: { ...DEFAULT_TRANSFORMATION_PARAMS, ...transform },
+});
+
+export const BUILT_IN_PRESETS: ParameterPreset[] = [
+  builtIn('Default', 'The original out-of-the-box settings.', {}),
+  builtIn(
+    'Calm Resonance',
+    'Low noise and broad radial rings: few, coherent knots and a high harmony score.',
+    { noise_factor: 0.01, threshold_s: 0.72, f_energy: 0.12, f_phase: 0.12, re_s_scaling_c: 0.13, sim_duration: 40, wave_model: 'radial', wave_params: { ...getDefaultWaveParams('radial'), rings: 2, falloff: 0.5 } },
+    { brightness_factor: 0.04, contrast_factor: 0.95 }
+  ),
+  builtIn(
+    'Chaotic Turbulence',
+    'Strong noise over interfering plane waves: scattered knots and a low harmony score.',
+    { noise_factor: 0.22, threshold_s: 0.65, f_energy: 0.31, f_phase: 0.29, re_s_scaling_c: 0.18, wave_model: 'plane_waves', wave_params: { ...getDefaultWaveParams('plane_waves'), wave_count: 4, frequency: 5 } },
+    { brightness_factor: -0.06, contrast_factor: 1.4 }
+  ),
+  builtIn(
+    'Fine Lattice',
+    'A dense 128×128 lattice at higher frequency for detailed, regular modulation.',
+    { field_w: 128, field_h: 128, wave_params: { frequency_x: 3, frequency_y: 3 }, threshold_s: 0.8 },
+    { contrast_factor: 1.15 }
+  ),
+  builtIn(
+    'Ripple Pool',
+    'Pulses spreading under the 2D wave equation, guided by the image edges.',
+    {
+      wave_model: 'wave_equation',
+      wave_params: { ...getDefaultWaveParams('wave_equation'), sources: 6, damping: 0.02 },
+      sim_duration: 50,
+      image_guidance: { ...DEFAULT_SUBQG_PARAMS.image_guidance, enabled: true, energy_channel: 'edges', phase_channel: 'luminance', strength: 0.4 },
+    }
+  ),
+];
@@ -0,0 +1,145 @@
+// Offline image provider: procedurally renders a deterministic image from the prompt, so the
+// generate-then-transform flow can be developed and tested without network access or API keys.
+// The same prompt and model always produce the same pixels.
+import { ImageProvider, RgbaImage } from '../types';
+import { IMAGE_ASPECT_RATIOS, IMAGE_CANDIDATE_COUNT_MAX } from '../constants';
+import { createRgbaImage } from './imageUtils';
+import { clamp } from './mathHelpers';
+import { deriveSeed } from './random';
+import { imageDataToDataURL } from './browserImageIO';
+
+export const PROCEDURAL_IMAGE_SIZE = 512;
+
+export const PROCEDURAL_MODELS = ['procedural-nebula', 'procedural-plasma', 'procedural-test-pattern'];
+
+// Integer hash of a lattice point -> [0, 1).
+const hash2 = (x: number, y: number, seed: number): number => {
+  let h = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ seed;
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+const valueNoise = (x: number, y: number, seed: number): number => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+  const top = hash2(x0, y0, seed) * (1 - tx) + hash2(x0 + 1, y0, seed) * tx;
+  const bottom = hash2(x0, y0 + 1, seed) * (1 - tx) + hash2(x0 + 1, y0 + 1, seed) * tx;
+  return top * (1 - ty) + bottom * ty;
+};
+
+const fbm = (x: number, y: number, seed: number, octaves: number): number => {
+  let sum = 0;
+  let amplitude = 0.5;
+  let frequency = 1;
+  for (let o = 0; o < octaves; o++) {
+    sum += valueNoise(x * frequency, y * frequency, seed + o * 1013) * amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return sum;
+};
+
+// HSV (all 0-1) to RGB bytes.
+const hsvToRgb = (h: number, s: number, v: number): [number, number, number] => {
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - f * s);
+  const t = v * (1 - (1 - f) * s);
+  const [r, g, b] = [[v, t, p], [q, v, p], [p, v, t], [p, q, v], [t, p, v], [v, p, q]][((i % 6) + 6) % 6];
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+};
+
+type PixelShader = (u: number, v: number) => [number, number, number];
+
+const nebulaShader = (seed: number): PixelShader => {
+  const baseHue = hash2(1, 2, seed);
+  const accentHue = (baseHue + 0.35 + hash2(3, 4, seed) * 0.3) % 1;
+  return (u, v) => {
+    const warp = fbm(u * 3, v * 3, seed + 7, 4);
+    const density = fbm(u * 4 + warp * 2, v * 4 - warp * 2, seed, 6);
+    const stars = hash2(Math.floor(u * 900), Math.floor(v * 900), seed + 99) > 0.9985 ? 1 : 0;
+    const glow = clamp((density - 0.35) * 2.2, 0, 1);
+    const hue = (baseHue + (accentHue - baseHue) * warp + 1) % 1;
+    const [r, g, b] = hsvToRgb(hue, 0.75, glow);
+    return [Math.max(r, stars * 255), Math.max(g, stars * 255), Math.max(b, stars * 255)];
+  };
+};
+
+const plasmaShader = (seed: number): PixelShader => {
+  const fx = 3 + hash2(5, 6, seed) * 6;
+  const fy = 3 + hash2(7, 8, seed) * 6;
+  const hueShift = hash2(9, 10, seed);
+  return (u, v) => {
+    const value = Math.sin(u * fx * Math.PI) + Math.sin(v * fy * Math.PI)
+      + Math.sin((u + v) * (fx + fy) * 0.5 * Math.PI) + Math.sin(Math.hypot(u - 0.5, v - 0.5) * fx * 2 * Math.PI);
+    return hsvToRgb((value / 8 + 0.5 + hueShift) % 1, 0.8, 0.95);
+  };
+};
+
+// Colour bars over a luminance ramp with a grid: stable reference input for checking transforms.
+const testPatternShader = (seed: number): PixelShader => {
+  const BAR_COLORS: [number, number, number][] = [
+    [255, 255, 255], [255, 255, 0], [0, 255, 255], [0, 255, 0], [255, 0, 255], [255, 0, 0], [0, 0, 255], [0, 0, 0],
+  ];
+  const offset = Math.floor(hash2(11, 12, seed) * BAR_COLORS.length);
+  return (u, v) => {
+    if ((Math.floor(u * 512) % 64 === 0) || (Math.floor(v * 512) % 64 === 0)) return [128, 128, 128];
+    if (v < 0.6) return BAR_COLORS[(Math.floor(u * BAR_COLORS.length) + offset) % BAR_COLORS.length];
+    const level = Math.round(u * 255);
+    return v < 0.8 ? [level, level, level] : hsvToRgb(u, 1, 1 - (v - 0.8) * 2.5);
+  };
+};
+
+// '16:9' -> 512x288: the longest side stays PROCEDURAL_IMAGE_SIZE.
+const sizeForAspectRatio = (aspectRatio: string): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!(w > 0 && h > 0)) return { width: PROCEDURAL_IMAGE_SIZE, height: PROCEDURAL_IMAGE_SIZE };
+  const scale = PROCEDURAL_IMAGE_SIZE / Math.max(w, h);
+  return { width: Math.round(w * scale), height: Math.round(h * scale) };
+};
+
+// DOM-free, so it can also feed the Node CLI or scripted checks. Candidate 0 keeps the
+// single-image result of a prompt; further candidates are independent variations.
+export const renderProceduralImage = (prompt: string, model: string, width = PROCEDURAL_IMAGE_SIZE, height = PROCEDURAL_IMAGE_SIZE, candidate = 0): RgbaImage => {
+  const key = `${model}:${prompt.trim().toLowerCase()}`;
+  const seed = deriveSeed(0, candidate === 0 ? key : `${key}#${candidate}`);
+  const shader = model === 'procedural-plasma' ? plasmaShader(seed)
+    : model === 'procedural-test-pattern' ? testPatternShader(seed)
+    : nebulaShader(seed);
+  const image = createRgbaImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = shader(x / width, y / height);
+      const idx = (y * width + x) * 4;
+      image.data[idx] = r;
+      image.data[idx + 1] = g;
+      image.data[idx + 2] = b;
+      image.data[idx + 3] = 255;
+    }
+  }
+  return image;
+};
+
+export const proceduralImageProvider: ImageProvider = {
+  id: 'procedural',
+  label: 'Offline Procedural (mock)',
+  description: 'Renders a deterministic image from the prompt locally. No network or API key needed.',
+  models: PROCEDURAL_MODELS,
+  requiresApiKey: false,
+  requiresEndpoint: false,
+  maxImages: IMAGE_CANDIDATE_COUNT_MAX,
+  aspectRatios: IMAGE_ASPECT_RATIOS,
+  supportsNegativePrompt: false,
+  generate: async ({ prompt, model, count, aspectRatio }) => {
+    const chosen = PROCEDURAL_MODELS.includes(model) ? model : PROCEDURAL_MODELS[0];
+    const { width, height } = sizeForAspectRatio(aspectRatio);
+    return Array.from({ length: count }, (_, candidate) =>
+      imageDataToDataURL(renderProceduralImage(prompt, chosen, width, height, candidate)));
+  },
+};
@@ -0,0 +1,64 @@
+// Seedable pseudo-random number generation.
+// Every stochastic step of the pipeline (simulator noise, wave-field phase offsets,
+// wave model details) draws from a RandomSource so a render can be reproduced from its seed.
+
+export interface RandomSource {
+  /** Returns a float in [0, 1). */
+  next(): number;
+}
+
+export type RandomSourceFactory = (seed: number) => RandomSource;
+
+export const MAX_SEED = 0xffffffff;
+
+// Mulberry32: tiny, fast and good enough for visual noise.
+export const createMulberry32 = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+};
+
+// The PRNG used by the pipeline. Swap this to plug in a different generator.
+export let createRandomSource: RandomSourceFactory = createMulberry32;
+
+export const setRandomSourceFactory = (factory: RandomSourceFactory): void => {
+  createRandomSource = factory;
+};
+
+// Derives an independent sub-seed for a named stream (FNV-1a over the stream name, mixed with the seed),
+// so e.g. the simulator and the pixel transform don't consume each other's random numbers.
+export const deriveSeed = (seed: number, stream: string): number => {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (let i = 0; i < stream.length; i++) {
+    hash ^= stream.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return hash >>> 0;
+};
+
+export const createStreamRandom = (seed: number, stream: string): RandomSource =>
+  createRandomSource(deriveSeed(seed, stream));
+
+// Fresh seed for a new, non-reproduced render.
+export const generateSeed = (): number => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+export const normalizeSeed = (value: number): number => {
+  if (!Number.isFinite(value)) return 0;
+  return Math.abs(Math.floor(value)) % (MAX_SEED + 1);
+};
+
+// Named streams used by the pipeline.
+export const RANDOM_STREAM_SIMULATION = 'simulation';
+export const RANDOM_STREAM_TRANSFORM = 'transform';
+export const RANDOM_STREAM_WAVE_MODEL = 'wave-model';
+export const RANDOM_STREAM_AUTO_TUNE = 'auto-tune';
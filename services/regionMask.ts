@@ -0,0 +1,136 @@
+// Region masks restrict the SubQG transform per pixel: 1 = full effect, 0 = original pixel.
+// Masks are painted or uploaded at up to MASK_MAX_SIZE and stretched over the input image, so the
+// same mask can be reused across renders at any resolution.
+import { RegionMask, RgbaImage, ScalarField } from '../types';
+import { MASK_MAX_SIZE } from '../constants';
+import { clamp } from './mathHelpers';
+import { createGaussianKernel, createRgbaImage, resizeImageData, resizeScalarField } from './imageUtils';
+
+// Mask size for an image: its aspect ratio, longest side capped at MASK_MAX_SIZE.
+export const resolveMaskSize = (imageWidth: number, imageHeight: number): { width: number; height: number } => {
+  const scale = Math.min(1, MASK_MAX_SIZE / Math.max(imageWidth, imageHeight));
+  return { width: Math.max(1, Math.round(imageWidth * scale)), height: Math.max(1, Math.round(imageHeight * scale)) };
+};
+
+// Grayscale mask from an uploaded image: luminance times alpha, so white = transform and
+// transparent or black = keep.
+export const maskFromImage = (image: RgbaImage): ScalarField => {
+  const { width, height } = resolveMaskSize(image.width, image.height);
+  const { data } = resizeImageData(image, width, height);
+  const field: ScalarField = { width, height, data: new Float32Array(width * height) };
+  for (let i = 0; i < field.data.length; i++) {
+    const idx = i * 4;
+    const luminance = (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2]) / 255;
+    field.data[i] = Math.round(luminance * data[idx + 3]) / 255; // 8-bit levels, like painted masks
+  }
+  return field;
+};
+
+const toLevel = (value: number): number => Math.round(clamp(value, 0, 1) * 255);
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Mask values as 8-bit levels, row by row, run-length encoded as (level, run length as unsigned LEB128)
+// pairs and base64'd. Painted and uploaded masks hold 8-bit levels, so they round-trip exactly.
+export const encodeMaskRle = (field: ScalarField): string => {
+  const bytes: number[] = [];
+  const { data } = field;
+  for (let i = 0; i < data.length;) {
+    const level = toLevel(data[i]);
+    let run = 1;
+    while (i + run < data.length && toLevel(data[i + run]) === level) run++;
+    bytes.push(level);
+    let rest = run;
+    while (rest >= 0x80) {
+      bytes.push((rest & 0x7f) | 0x80);
+      rest >>>= 7;
+    }
+    bytes.push(rest);
+    i += run;
+  }
+  return bytesToBase64(Uint8Array.from(bytes));
+};
+
+// Inverse of encodeMaskRle; throws if the runs do not cover exactly width × height values.
+export const decodeMaskRle = (rle: string, width: number, height: number): ScalarField => {
+  const bytes = Uint8Array.from(atob(rle), c => c.charCodeAt(0));
+  const field: ScalarField = { width, height, data: new Float32Array(width * height) };
+  let filled = 0;
+  for (let offset = 0; offset < bytes.length;) {
+    const level = bytes[offset++];
+    let run = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= bytes.length || shift > 28) throw new Error("Truncated mask run.");
+      const byte = bytes[offset++];
+      run += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) break;
+    }
+    if (filled + run > field.data.length) throw new Error("The mask runs exceed its size.");
+    field.data.fill(level / 255, filled, filled + run);
+    filled += run;
+  }
+  if (filled !== field.data.length) throw new Error(`The mask runs cover ${filled} of ${field.data.length} values.`);
+  return field;
+};
+
+// White = transformed, black = untouched.
+export const maskToGrayscaleImage = (field: ScalarField): RgbaImage => {
+  const image = createRgbaImage(field.width, field.height);
+  for (let i = 0; i < field.data.length; i++) {
+    const value = Math.round(clamp(field.data[i], 0, 1) * 255);
+    image.data[i * 4] = value;
+    image.data[i * 4 + 1] = value;
+    image.data[i * 4 + 2] = value;
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+};
+
+// Separable Gaussian blur of a field, edges clamped.
+const blurField = (field: ScalarField, sigma: number): ScalarField => {
+  if (sigma <= 0) return field;
+  const { width, height, data } = field;
+  const kernel = createGaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const horizontal = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += data[y * width + clamp(x + k, 0, width - 1)] * kernel[k + radius];
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+  const blurred = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += horizontal[clamp(y + k, 0, height - 1) * width + x] * kernel[k + radius];
+      }
+      blurred[y * width + x] = sum;
+    }
+  }
+  return { width, height, data: blurred };
+};
+
+// Feathers and inverts the mask at its own resolution (cheap even for 8K outputs).
+export const featherMask = (mask: RegionMask): ScalarField => {
+  const sigma = (mask.feather / 100) * Math.min(mask.field.width, mask.field.height);
+  const feathered = blurField(mask.field, sigma);
+  const data = new Float32Array(feathered.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const value = clamp(feathered.data[i], 0, 1);
+    data[i] = mask.invert ? 1 - value : value;
+  }
+  return { width: feathered.width, height: feathered.height, data };
+};
+
+// The feathered mask stretched to the image size: the per-pixel strength for processImageWithSubQG.
+export const createStrengthMask = (mask: RegionMask, width: number, height: number): ScalarField =>
+  resizeScalarField(featherMask(mask), width, height);
@@ -0,0 +1,80 @@
+// Playback of a recorded simulation run (SubQGSimulator.runSimulation with record = true):
+// per-step layer images and cell readouts for the timeline scrubber. DOM-free.
+import { KnotColormap, RgbaImage, SimulationLayer, SimulationRecording } from '../types';
+import { createRgbaImage } from './imageUtils';
+import { sampleColormap } from './knotMapAnalysis';
+
+const FIELD_COLORMAP: KnotColormap = 'viridis';
+const BELOW_THRESHOLD_BRIGHTNESS = 0.35;
+const NEW_KNOT_COLOR = [251, 191, 36]; // Amber, stands out against the grey knot counts
+
+export interface RecordedCell {
+  energy: number;
+  phase: number;
+  knots: number;      // Knots detected in this cell up to and including the step
+  new_knot: boolean;  // Detected in this very step
+}
+
+export const getRecordedKnotsPerStep = (recording: SimulationRecording): number[] =>
+  Array.from({ length: recording.steps }, (_, t) => recording.knot_offsets[t + 1] - recording.knot_offsets[t]);
+
+const getStepKnotCells = (recording: SimulationRecording, step: number): Uint32Array =>
+  recording.knot_cells.subarray(recording.knot_offsets[step], recording.knot_offsets[step + 1]);
+
+// Knot map accumulated over steps 0 ... step.
+export const getCumulativeKnotCounts = (recording: SimulationRecording, step: number): Uint32Array => {
+  const counts = new Uint32Array(recording.width * recording.height);
+  const cells = recording.knot_cells.subarray(0, recording.knot_offsets[step + 1]);
+  for (let i = 0; i < cells.length; i++) counts[cells[i]]++;
+  return counts;
+};
+
+const dequantize = (recording: SimulationRecording, value: number): number => value / 255 * recording.value_max;
+
+export const getRecordedCell = (recording: SimulationRecording, step: number, cell: number): RecordedCell => {
+  const offset = step * recording.width * recording.height + cell;
+  const cells = recording.knot_cells.subarray(0, recording.knot_offsets[step + 1]);
+  let knots = 0;
+  for (let i = 0; i < cells.length; i++) if (cells[i] === cell) knots++;
+  return {
+    energy: dequantize(recording, recording.energy[offset]),
+    phase: dequantize(recording, recording.phase[offset]),
+    knots,
+    new_knot: getStepKnotCells(recording, step).includes(cell),
+  };
+};
+
+// One pixel per cell. Energy and phase share one colour scale over 0..value_max so equal values look
+// equal; markThreshold dims the cells at or below threshold_s, where no knot can form. The knot layer
+// shows the counts accumulated so far relative to the final maximum, with this step's new knots in amber.
+export const renderRecordingLayer = (
+  recording: SimulationRecording,
+  layer: SimulationLayer,
+  step: number,
+  markThreshold: boolean
+): RgbaImage => {
+  const cellCount = recording.width * recording.height;
+  const image = createRgbaImage(recording.width, recording.height);
+  const { data } = image;
+
+  if (layer === 'knots') {
+    const counts = getCumulativeKnotCounts(recording, step);
+    const finalCounts = getCumulativeKnotCounts(recording, recording.steps - 1);
+    const max = finalCounts.reduce((peak, value) => Math.max(peak, value), 0) || 1;
+    for (let i = 0; i < cellCount; i++) {
+      const grey = Math.round(counts[i] / max * 255);
+      data.set([grey, grey, grey, 255], i * 4);
+    }
+    const fresh = getStepKnotCells(recording, step);
+    for (let i = 0; i < fresh.length; i++) data.set([...NEW_KNOT_COLOR, 255], fresh[i] * 4);
+    return image;
+  }
+
+  const values = (layer === 'energy' ? recording.energy : recording.phase).subarray(step * cellCount, (step + 1) * cellCount);
+  for (let i = 0; i < cellCount; i++) {
+    const [r, g, b] = sampleColormap(FIELD_COLORMAP, values[i] / 255);
+    const brightness = markThreshold && dequantize(recording, values[i]) <= recording.threshold_s ? BELOW_THRESHOLD_BRIGHTNESS : 1;
+    data.set([r * brightness, g * brightness, b * brightness, 255], i * 4);
+  }
+  return image;
+};
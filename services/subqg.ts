@@ -1,84 +1,152 @@
-
-import { SubQGParams, RiemannStats, KnotMap } from '../types';
-import { calculateMean, calculateMedian, calculateStdDev, calculatePtp, linspace, clamp } from './mathHelpers';
+import { SubQGParams, RiemannStats, KnotMap, ScalarField, SimulationRecording } from '../types';
+import { RE_S_TARGET, RE_S_TARGET_RADIUS, SIMULATION_RECORDING_BYTES_MAX } from '../constants';
+import { calculateMean, calculateMedian, calculateStdDev, calculatePtp, clamp } from './mathHelpers';
+import { RandomSource, createStreamRandom, RANDOM_STREAM_SIMULATION, RANDOM_STREAM_WAVE_MODEL } from './random';
+import { WaveField, getWaveModel } from './waveModels';
+import { SimulationGuidance } from './imageGuidance';
+
+// Knot energies are scaled by this factor (and re_s_scaling_c) onto the critical strip.
+const INTERNAL_PRESCALE_FACTOR = 5.0;
+
+// Energy and phase bytes a recording of these parameters holds; compare with SIMULATION_RECORDING_BYTES_MAX.
+export const getSimulationRecordingBytes = (params: Pick<SubQGParams, 'sim_duration' | 'field_w' | 'field_h'>): number =>
+  2 * params.sim_duration * params.field_w * params.field_h;
+
+export const createScalarField = (width: number, height: number): ScalarField => ({
+  width,
+  height,
+  data: new Float32Array(width * height),
+});
 
 export class SubQGSimulator {
   private params: SubQGParams;
-  private energy_field: number[][];
-  private phase_field: number[][];
+  private energy_field: ScalarField;
+  private phase_field: ScalarField;
   public knot_map: KnotMap;
+  private wave_field!: WaveField; // Created per run in runSimulation()
   private detected_knot_base_values: number[];
   private rounding_factor: number;
   private omega_energy: number;
   private omega_phase: number;
+  private random: RandomSource;
+  private guidance: SimulationGuidance | null;
 
-  constructor(params: SubQGParams) {
+  constructor(params: SubQGParams, random?: RandomSource, guidance: SimulationGuidance | null = null) {
     this.params = params;
+    this.guidance = guidance;
+    this.random = random ?? createStreamRandom(params.seed, RANDOM_STREAM_SIMULATION);
     this.rounding_factor = Math.pow(10, params.decimal_precision);
     this.omega_energy = params.f_energy * 2 * Math.PI;
     this.omega_phase = params.f_phase * 2 * Math.PI;
 
-    this.energy_field = Array(params.field_h).fill(null).map(() => Array(params.field_w).fill(0));
-    this.phase_field = Array(params.field_h).fill(null).map(() => Array(params.field_w).fill(0));
-    this.knot_map = Array(params.field_h).fill(null).map(() => Array(params.field_w).fill(0));
+    this.energy_field = createScalarField(params.field_w, params.field_h);
+    this.phase_field = createScalarField(params.field_w, params.field_h);
+    this.knot_map = createScalarField(params.field_w, params.field_h);
     this.detected_knot_base_values = [];
   }
 
+  // Fresh per run: time-integrated models (wave equation) carry state between steps.
+  private createWaveField(): WaveField {
+    const { wave_model, wave_params, field_w, field_h, seed } = this.params;
+    return getWaveModel(wave_model).create(field_w, field_h, wave_params, createStreamRandom(seed, RANDOM_STREAM_WAVE_MODEL));
+  }
+
   private updateWaves(t: number): void {
-    const { field_w, field_h, sim_duration, noise_factor } = this.params;
+    const { sim_duration, noise_factor } = this.params;
     
     const time_component_energy = Math.sin(this.omega_energy * t / sim_duration);
     const time_component_phase = Math.sin(this.omega_phase * t / sim_duration);
-
-    const xCoords = linspace(0, 2 * Math.PI, field_w);
-    const yCoords = linspace(0, 2 * Math.PI, field_h);
-
-    for (let r = 0; r < field_h; r++) {
-      for (let c = 0; c < field_w; c++) {
-        const xv = xCoords[c]; // Equivalent to meshgrid indexing='xy' where xv changes with column
-        const yv = yCoords[r]; // Equivalent to meshgrid indexing='xy' where yv changes with row
-        const spatial_component = Math.sin(xv) * Math.cos(yv);
-
-        this.energy_field[r][c] = (Math.abs(time_component_energy + spatial_component) / 2 +
-                                  Math.random() * noise_factor);
-        this.phase_field[r][c] = (Math.abs(time_component_phase + spatial_component) / 2 +
-                                   Math.random() * noise_factor);
-        
-        this.energy_field[r][c] = clamp(this.energy_field[r][c], 0, 1.0 + noise_factor);
-        this.phase_field[r][c] = clamp(this.phase_field[r][c], 0, 1.0 + noise_factor);
-      }
+    const max_value = 1.0 + noise_factor;
+
+    const energy = this.energy_field.data;
+    const phase = this.phase_field.data;
+    const basis = this.wave_field.spatial(t);
+    // Image guidance shifts each cell by strength * (guide - 0.5): bright/edgy regions are lifted
+    // towards the knot threshold, dark/flat regions pushed away from it.
+    const energy_guide = this.guidance?.energy ?? null;
+    const phase_guide = this.guidance?.phase ?? null;
+    const guide_strength = this.guidance?.strength ?? 0;
+    for (let i = 0; i < basis.length; i++) {
+      const spatial_component = basis[i];
+      // Draw order (energy, then phase, per cell) is part of the seed contract.
+      const energy_noise = this.random.next() * noise_factor;
+      const phase_noise = this.random.next() * noise_factor;
+      const energy_offset = energy_guide ? guide_strength * (energy_guide[i] - 0.5) : 0;
+      const phase_offset = phase_guide ? guide_strength * (phase_guide[i] - 0.5) : 0;
+      energy[i] = clamp(Math.abs(time_component_energy + spatial_component) / 2 + energy_noise + energy_offset, 0, max_value);
+      phase[i] = clamp(Math.abs(time_component_phase + spatial_component) / 2 + phase_noise + phase_offset, 0, max_value);
     }
   }
 
-  public runSimulation(): { knot_map: KnotMap; total_knots: number } {
-    this.knot_map = Array(this.params.field_h).fill(null).map(() => Array(this.params.field_w).fill(0));
+  // With record = true every step's fields and new knots are kept as well; recording only reads the
+  // fields, so the knot map and stats are identical either way. Runs above SIMULATION_RECORDING_BYTES_MAX
+  // are refused rather than recorded.
+  public runSimulation(
+    onStep?: (t: number, total: number) => void,
+    record = false
+  ): { knot_map: KnotMap; total_knots: number; recording: SimulationRecording | null } {
+    if (record && getSimulationRecordingBytes(this.params) > SIMULATION_RECORDING_BYTES_MAX) {
+      const { sim_duration, field_w, field_h } = this.params;
+      throw new Error(`Recording ${sim_duration} steps of a ${field_w}x${field_h} field exceeds the ${SIMULATION_RECORDING_BYTES_MAX / 1024 / 1024} MB recording budget.`);
+    }
+    this.knot_map = createScalarField(this.params.field_w, this.params.field_h);
+    this.wave_field = this.createWaveField();
     this.detected_knot_base_values = [];
     let total_knots_detected = 0;
 
-    for (let t = 0; t < this.params.sim_duration; t++) {
+    const energy = this.energy_field.data;
+    const phase = this.phase_field.data;
+    const knots = this.knot_map.data;
+    const { threshold_s, sim_duration, noise_factor } = this.params;
+    const value_max = 1.0 + noise_factor;
+    const recorded = record
+      ? { energy: new Uint8Array(sim_duration * knots.length), phase: new Uint8Array(sim_duration * knots.length), knot_cells: [] as number[], knot_offsets: [0] }
+      : null;
+
+    for (let t = 0; t < sim_duration; t++) {
       this.updateWaves(t);
+      if (recorded) {
+        const offset = t * knots.length;
+        for (let i = 0; i < knots.length; i++) {
+          recorded.energy[offset + i] = Math.round(energy[i] / value_max * 255);
+          recorded.phase[offset + i] = Math.round(phase[i] / value_max * 255);
+        }
+      }
       let num_knots_in_step = 0;
-      for (let r = 0; r < this.params.field_h; r++) {
-        for (let c = 0; c < this.params.field_w; c++) {
-          const rounded_energy = Math.round(this.energy_field[r][c] * this.rounding_factor) / this.rounding_factor;
-          const rounded_phase = Math.round(this.phase_field[r][c] * this.rounding_factor) / this.rounding_factor;
-
-          const condition1 = this.energy_field[r][c] > this.params.threshold_s;
-          const condition2 = this.phase_field[r][c] > this.params.threshold_s;
-          const condition3 = rounded_energy === rounded_phase;
-          
-          const detected_knot_this_step = condition1 && condition2 && condition3;
-
-          if (detected_knot_this_step) {
-            this.knot_map[r][c] += 1;
-            num_knots_in_step++;
-            this.detected_knot_base_values.push(this.energy_field[r][c]);
-          }
+      for (let i = 0; i < knots.length; i++) {
+        const e = energy[i];
+        const p = phase[i];
+        // Knot: both fields above threshold and equal at the configured decimal precision.
+        if (e > threshold_s && p > threshold_s &&
+            Math.round(e * this.rounding_factor) === Math.round(p * this.rounding_factor)) {
+          knots[i] += 1;
+          num_knots_in_step++;
+          this.detected_knot_base_values.push(e);
+          recorded?.knot_cells.push(i);
         }
       }
       total_knots_detected += num_knots_in_step;
+      recorded?.knot_offsets.push(recorded.knot_cells.length);
+      onStep?.(t + 1, sim_duration);
     }
-    return { knot_map: this.knot_map, total_knots: total_knots_detected };
+
+    const recording: SimulationRecording | null = recorded && {
+      width: this.knot_map.width,
+      height: this.knot_map.height,
+      steps: sim_duration,
+      value_max,
+      threshold_s,
+      energy: recorded.energy,
+      phase: recorded.phase,
+      knot_cells: Uint32Array.from(recorded.knot_cells),
+      knot_offsets: Uint32Array.from(recorded.knot_offsets),
+    };
+    return { knot_map: this.knot_map, total_knots: total_knots_detected, recording };
+  }
+
+  // Knot energies of the last run projected onto the critical strip: Re(s) = e · prescale · C.
+  public getProjectedReS(): number[] {
+    return this.detected_knot_base_values.map(val => (val * INTERNAL_PRESCALE_FACTOR) * this.params.re_s_scaling_c);
   }
 
   public analyzeRiemannProjection(): RiemannStats {
@@ -90,16 +158,15 @@ export class SubQGSimulator {
       };
     }
 
-    const internal_prescale_factor = 5.0;
-    const projected_re_s_values = this.detected_knot_base_values.map(val => (val * internal_prescale_factor) * this.params.re_s_scaling_c);
+    const projected_re_s_values = this.getProjectedReS();
 
     const mean_re_s = calculateMean(projected_re_s_values);
     const median_re_s = calculateMedian(projected_re_s_values);
     // Python: std_dev_re_s = np.std(projected_re_s_values) if projected_re_s_values.size > 1 and projected_re_s_values.ptp() > 0 else 1.0
     const std_dev_re_s = (projected_re_s_values.length > 1 && calculatePtp(projected_re_s_values) > 0) ? calculateStdDev(projected_re_s_values) : 1.0;
     
-    const target_re_s = 0.5;
-    const interval_radius = 0.05;
+    const target_re_s = RE_S_TARGET;
+    const interval_radius = RE_S_TARGET_RADIUS;
     const count_near_target = projected_re_s_values.filter(val => val >= target_re_s - interval_radius && val <= target_re_s + interval_radius).length;
 
     const mean_proximity_score = 1.0 - Math.min(1.0, Math.abs(mean_re_s - target_re_s) / (target_re_s * 0.5));
@@ -111,7 +178,7 @@ export class SubQGSimulator {
       count_near_0_5: count_near_target,
       total_projected_knots: projected_re_s_values.length,
       harmony_score,
-      internal_prescale_factor_used: internal_prescale_factor
+      internal_prescale_factor_used: INTERNAL_PRESCALE_FACTOR
     };
   }
 }
@@ -0,0 +1,82 @@
+// Parameter sweep: one or two numeric SubQGParams/TransformationParams fields stepped over a range,
+// every combination rendered as a thumbnail (see runSweepPipeline). This module holds the axis logic
+// and the CSV export; DOM-free.
+import { SubQGParams, SweepAxis, SweepCell, SweepParamGroup, SweepParams, TransformationParams } from '../types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, FIELD_SIZE_STEP } from '../constants';
+import { clamp, linspace } from './mathHelpers';
+import { getNumberRule } from './presets';
+
+export interface SweepParamSet {
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+}
+
+// Sweepable fields per group. The seed is left out: the sweep keeps it fixed so cells differ only by
+// the swept values.
+export const SWEEP_FIELDS: Record<SweepParamGroup, string[]> = {
+  subQGParams: Object.keys(DEFAULT_SUBQG_PARAMS)
+    .filter(key => key !== 'seed' && typeof DEFAULT_SUBQG_PARAMS[key as keyof SubQGParams] === 'number'),
+  transformParams: Object.keys(DEFAULT_TRANSFORMATION_PARAMS),
+};
+
+const FIELD_SIZE_KEYS = ['field_w', 'field_h'];
+
+// Snaps a value to what the field accepts: the preset spec's range, whole numbers for integer fields and
+// grid sizes in FIELD_SIZE_STEP increments.
+const normalizeSweepValue = (group: SweepParamGroup, key: string, value: number): number => {
+  const rule = getNumberRule(group, key);
+  const snapped = FIELD_SIZE_KEYS.includes(key)
+    ? Math.round(value / FIELD_SIZE_STEP) * FIELD_SIZE_STEP
+    : rule.integer ? Math.round(value) : value;
+  return clamp(snapped, rule.min ?? -Infinity, rule.max ?? Infinity);
+};
+
+export const getSweepValues = (axis: SweepAxis): number[] => {
+  const steps = Math.max(1, Math.round(axis.steps));
+  const values = steps === 1 ? [axis.min] : linspace(axis.min, axis.max, steps);
+  return values.map(value => normalizeSweepValue(axis.group, axis.key, value));
+};
+
+export const getSweepFieldValue = (params: SweepParamSet, group: SweepParamGroup, key: string): number =>
+  (params[group] as unknown as Record<string, number>)[key];
+
+export const applySweepValue = (params: SweepParamSet, axis: SweepAxis, value: number): SweepParamSet => ({
+  ...params,
+  [axis.group]: { ...params[axis.group], [axis.key]: value },
+});
+
+// Axis for a newly picked field: ±50% around its current value (±0.5 around zero), kept within the field's range.
+export const createSweepAxis = (params: SweepParamSet, group: SweepParamGroup, key: string, steps: number): SweepAxis => {
+  const current = getSweepFieldValue(params, group, key);
+  const spread = current === 0 ? 0.5 : Math.abs(current) * 0.5;
+  return {
+    group,
+    key,
+    min: normalizeSweepValue(group, key, current - spread),
+    max: normalizeSweepValue(group, key, current + spread),
+    steps,
+  };
+};
+
+export const formatSweepValue = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 1 ? 3 : 2);
+
+// One row per cell with the swept values and the cell's Riemann statistics.
+export const sweepToCsv = (sweep: SweepParams, cells: SweepCell<unknown>[]): string => {
+  const axes = sweep.y ? [sweep.x, sweep.y] : [sweep.x];
+  const header = ['column', 'row', ...axes.map(axis => axis.key), 'harmony_score', 'mean_re_s', 'median_re_s', 'std_dev_re_s', 'count_near_0_5', 'total_projected_knots'];
+  const rows = [...cells]
+    .sort((a, b) => a.row - b.row || a.column - b.column)
+    .map(cell => [
+      cell.column,
+      cell.row,
+      ...axes.map(axis => getSweepFieldValue(cell, axis.group, axis.key)),
+      cell.stats.harmony_score,
+      cell.stats.mean_re_s,
+      cell.stats.median_re_s,
+      cell.stats.std_dev_re_s,
+      cell.stats.count_near_0_5,
+      cell.stats.total_projected_knots,
+    ].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
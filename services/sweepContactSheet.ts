@@ -0,0 +1,57 @@
+// Browser-only: draws a rendered parameter sweep as one labelled contact sheet — axis names, the swept
+// values along the top and left edge and the harmony score under every thumbnail.
+import { SweepCell, SweepParams } from '../types';
+import { formatSweepValue, getSweepValues } from './sweep';
+import { rgbaImageToImageData } from './browserImageIO';
+
+const GAP = 6;
+const CAPTION_HEIGHT = 16;
+const HEADER_HEIGHT = 44;
+const ROW_LABEL_WIDTH = 84;
+const BACKGROUND = '#0f172a';
+const TEXT = '#cbd5e1';
+const ACCENT = '#38bdf8';
+
+export const renderSweepContactSheet = (sweep: SweepParams, cells: SweepCell[]): Promise<Blob> => {
+  if (cells.length === 0) return Promise.reject(new Error("The sweep has no rendered cells."));
+  const xValues = getSweepValues(sweep.x);
+  const yValues = sweep.y ? getSweepValues(sweep.y) : [];
+  const { width: cellWidth, height: cellHeight } = cells[0].image;
+  const left = sweep.y ? ROW_LABEL_WIDTH : GAP;
+  const pitchX = cellWidth + GAP;
+  const pitchY = cellHeight + CAPTION_HEIGHT + GAP;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = left + xValues.length * pitchX;
+  canvas.height = HEADER_HEIGHT + Math.max(1, yValues.length) * pitchY;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error("Could not get canvas context"));
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = 'bold 12px sans-serif';
+  ctx.fillStyle = ACCENT;
+  ctx.textBaseline = 'top';
+  ctx.fillText(`${sweep.x.key} →${sweep.y ? `   ${sweep.y.key} ↓` : ''}`, GAP, GAP);
+
+  ctx.font = '11px sans-serif';
+  ctx.fillStyle = TEXT;
+  ctx.textAlign = 'center';
+  xValues.forEach((value, column) => ctx.fillText(formatSweepValue(value), left + column * pitchX + cellWidth / 2, HEADER_HEIGHT - 16));
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  yValues.forEach((value, row) => ctx.fillText(formatSweepValue(value), left - GAP, HEADER_HEIGHT + row * pitchY + cellHeight / 2));
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  for (const cell of cells) {
+    const x = left + cell.column * pitchX;
+    const y = HEADER_HEIGHT + cell.row * pitchY;
+    ctx.putImageData(rgbaImageToImageData(cell.image), x, y);
+    ctx.fillText(`H ${cell.stats.harmony_score.toFixed(3)}`, x + cellWidth / 2, y + cellHeight + 2);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode image")), 'image/png');
+  });
+};
@@ -0,0 +1,89 @@
+// Tiled rendering for very large outputs (2K and up, 8K prints). The output is produced tile by
+// tile, each from just the part of the input it depends on, so no full-size knot map, strength mask,
+// resampling buffer or blur buffer is ever allocated; only the input and the final image are full size.
+// Every tile is padded by the blur radius and by the resampling kernel's reach and cropped when
+// stitched, which makes the result byte-identical to the untiled pipeline.
+import { ImageRegion, KnotMap, PaletteRemap, RegionMask, RgbaImage, TransformationParams } from '../types';
+import { RENDER_TILE_SIZE, TILED_RENDER_MIN_PIXELS } from '../constants';
+import {
+  applyPostProcessing,
+  createKnotMapResizer,
+  createRgbaImage,
+  cropImage,
+  getFinishingFilterMargin,
+  getResampleSourceRegion,
+  processImageWithSubQG,
+  resizeScalarField,
+} from './imageUtils';
+import { featherMask } from './regionMask';
+import { createStreamRandom, RANDOM_STREAM_TRANSFORM } from './random';
+
+export const shouldRenderTiled = (inputWidth: number, inputHeight: number, targetWidth: number, targetHeight: number): boolean =>
+  Math.max(inputWidth * inputHeight, targetWidth * targetHeight) >= TILED_RENDER_MIN_PIXELS;
+
+const padRegion = (region: ImageRegion, margin: number, width: number, height: number): ImageRegion => {
+  const x = Math.max(0, region.x - margin);
+  const y = Math.max(0, region.y - margin);
+  return {
+    x,
+    y,
+    width: Math.min(width, region.x + region.width + margin) - x,
+    height: Math.min(height, region.y + region.height + margin) - y,
+  };
+};
+
+// processImageWithSubQG + applyPostProcessing over the whole image, tile by tile.
+export const renderTiled = (
+  originalImageData: RgbaImage,
+  categoryActivations: number[],
+  transformParams: TransformationParams,
+  knotMap: KnotMap,
+  harmonyScore: number,
+  seed: number,
+  targetWidth: number,
+  targetHeight: number,
+  mask: RegionMask | null = null,
+  paletteRemap: PaletteRemap | null = null,
+  onTileDone?: (tilesDone: number, totalTiles: number) => void,
+  tileSize: number = RENDER_TILE_SIZE
+): RgbaImage => {
+  const { width: inputWidth, height: inputHeight } = originalImageData;
+  const output = createRgbaImage(targetWidth, targetHeight);
+  const margin = getFinishingFilterMargin(harmonyScore, transformParams);
+  const resizeKnots = createKnotMapResizer(knotMap, inputWidth, inputHeight);
+  const featheredMask = mask ? featherMask(mask) : null;
+  const columns = Math.ceil(targetWidth / tileSize);
+  const totalTiles = columns * Math.ceil(targetHeight / tileSize);
+
+  for (let tileIndex = 0; tileIndex < totalTiles; tileIndex++) {
+    const x = (tileIndex % columns) * tileSize;
+    const y = Math.floor(tileIndex / columns) * tileSize;
+    const tile: ImageRegion = { x, y, width: Math.min(tileSize, targetWidth - x), height: Math.min(tileSize, targetHeight - y) };
+    const padded = padRegion(tile, margin, targetWidth, targetHeight);
+    const source = getResampleSourceRegion(inputWidth, inputHeight, targetWidth, targetHeight, padded);
+    const window = { x: source.x, y: source.y, fullWidth: inputWidth, fullHeight: inputHeight };
+
+    const strengthMask = featheredMask ? resizeScalarField(featheredMask, inputWidth, inputHeight, source) : null;
+    const processed = processImageWithSubQG(
+      cropImage(originalImageData, source),
+      categoryActivations,
+      transformParams,
+      resizeKnots(source),
+      harmonyScore,
+      createStreamRandom(seed, RANDOM_STREAM_TRANSFORM), // Same seeded phase offsets in every tile
+      undefined,
+      0,
+      strengthMask,
+      paletteRemap,
+      window
+    );
+    const finished = applyPostProcessing(processed, harmonyScore, transformParams, targetWidth, targetHeight, strengthMask, padded, window);
+
+    for (let row = 0; row < tile.height; row++) {
+      const start = ((tile.y - padded.y + row) * padded.width + tile.x - padded.x) * 4;
+      output.data.set(finished.data.subarray(start, start + tile.width * 4), ((tile.y + row) * targetWidth + tile.x) * 4);
+    }
+    onTileDone?.(tileIndex + 1, totalTiles);
+  }
+  return output;
+};
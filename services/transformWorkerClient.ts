@@ -0,0 +1,126 @@
+import {
+  TransformJobRequest,
+  TransformJobResult,
+  AnimationJobRequest,
+  AnimationJobResult,
+  SweepJobRequest,
+  SweepJobResult,
+  SweepCell,
+  AutoTuneJobRequest,
+  AutoTuneResult,
+  PipelineProgress,
+  TransferableImage,
+  TransformWorkerRequest,
+  TransformWorkerResponse,
+} from '../types';
+
+export class TransformCancelledError extends Error {
+  constructor() {
+    super("Transformation was cancelled.");
+    this.name = 'TransformCancelledError';
+  }
+}
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type TransformJob = WorkerJob<TransformJobResult>;
+export type AnimationJob = WorkerJob<AnimationJobResult>;
+export type SweepJob = WorkerJob<SweepJobResult>;
+export type AutoTuneJob = WorkerJob<AutoTuneResult>;
+
+let nextJobId = 1;
+
+// Starts a job in a dedicated worker. The input buffer is transferred (and therefore detached
+// on the calling side). cancel() terminates the worker, which aborts the job immediately.
+// handleMessage returns the final value once the job's result message has arrived.
+const startWorkerJob = <T>(
+  message: TransformWorkerRequest,
+  handleMessage: (message: TransformWorkerResponse) => { value: T } | undefined
+): WorkerJob<T> => {
+  const worker = new Worker(new URL('../workers/transform.worker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectJob: (reason: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+    worker.onmessage = (event: MessageEvent<TransformWorkerResponse>) => {
+      const response = event.data;
+      if (response.jobId !== message.jobId || settled) return;
+      if (response.type === 'error') {
+        settled = true;
+        worker.terminate();
+        reject(new Error(response.message));
+        return;
+      }
+      const result = handleMessage(response);
+      if (result) {
+        settled = true;
+        worker.terminate();
+        resolve(result.value);
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || "Transform worker crashed."));
+    };
+  });
+
+  worker.postMessage(message, [message.request.image.buffer]);
+
+  const cancel = () => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+    rejectJob(new TransformCancelledError());
+  };
+
+  return { promise, cancel };
+};
+
+export const startTransformJob = (
+  request: TransformJobRequest,
+  onProgress?: (progress: PipelineProgress) => void
+): TransformJob =>
+  startWorkerJob<TransformJobResult>({ type: 'run', jobId: nextJobId++, request }, (response) => {
+    if (response.type === 'progress') onProgress?.(response.progress);
+    return response.type === 'result' ? { value: response.result } : undefined;
+  });
+
+// onFrame receives each rendered frame for WebM output; GIFs come back fully encoded.
+export const startAnimationJob = (
+  request: AnimationJobRequest,
+  onProgress?: (progress: PipelineProgress) => void,
+  onFrame?: (frame: TransferableImage, index: number) => void
+): AnimationJob =>
+  startWorkerJob<AnimationJobResult>({ type: 'animate', jobId: nextJobId++, request }, (response) => {
+    if (response.type === 'progress') onProgress?.(response.progress);
+    if (response.type === 'frame') onFrame?.(response.frame, response.index);
+    return response.type === 'animation' ? { value: response.result } : undefined;
+  });
+
+// onCell receives each grid cell as soon as it is rendered.
+export const startSweepJob = (
+  request: SweepJobRequest,
+  onProgress?: (progress: PipelineProgress) => void,
+  onCell?: (cell: SweepCell<TransferableImage>) => void
+): SweepJob =>
+  startWorkerJob<SweepJobResult>({ type: 'sweep', jobId: nextJobId++, request }, (response) => {
+    if (response.type === 'progress') onProgress?.(response.progress);
+    if (response.type === 'sweepCell') onCell?.(response.cell);
+    return response.type === 'sweep' ? { value: response.result } : undefined;
+  });
+
+export const startAutoTuneJob = (
+  request: AutoTuneJobRequest,
+  onProgress?: (progress: PipelineProgress) => void
+): AutoTuneJob =>
+  startWorkerJob<AutoTuneResult>({ type: 'tune', jobId: nextJobId++, request }, (response) => {
+    if (response.type === 'progress') onProgress?.(response.progress);
+    return response.type === 'tune' ? { value: response.result } : undefined;
+  });
+
@@ -0,0 +1,222 @@
+// Spatial wave patterns for the SubQG simulator. Each model produces the spatial term that
+// updateWaves() combines with the temporal oscillation of the energy and phase fields.
+import { WaveModelId, WaveModelParams } from '../types';
+import { linspace, clamp } from './mathHelpers';
+import { RandomSource } from './random';
+
+export interface WaveModelParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  valueLabels?: string[]; // Names for integer-valued choices (index = value)
+}
+
+export interface WaveField {
+  // Spatial component for simulation step t, roughly in [-1, 1], row-major field_w x field_h.
+  // Static models may return the same array on every call; callers must not modify it.
+  spatial(t: number): Float32Array;
+}
+
+export interface WaveModel {
+  id: WaveModelId;
+  label: string;
+  description: string;
+  params: WaveModelParamSpec[];
+  create(width: number, height: number, params: WaveModelParams, random: RandomSource): WaveField;
+}
+
+const staticField = (basis: Float32Array): WaveField => ({ spatial: () => basis });
+
+// Parameter value with the spec default as fallback, clamped to the spec range.
+const readParam = (model: WaveModel, params: WaveModelParams, key: string): number => {
+  const spec = model.params.find(p => p.key === key);
+  if (!spec) throw new Error(`Wave model "${model.id}" has no parameter "${key}".`);
+  const value = params[key];
+  return Number.isFinite(value) ? clamp(value, spec.min, spec.max) : spec.defaultValue;
+};
+
+const latticeModel: WaveModel = {
+  id: 'lattice',
+  label: 'Lattice (sin·cos)',
+  description: 'The classic sin(x)·cos(y) standing-wave lattice.',
+  params: [
+    { key: 'frequency_x', label: 'Lattice Frequency X', min: 0.5, max: 6, step: 0.5, defaultValue: 1 },
+    { key: 'frequency_y', label: 'Lattice Frequency Y', min: 0.5, max: 6, step: 0.5, defaultValue: 1 },
+  ],
+  create(width, height, params) {
+    const fx = readParam(this, params, 'frequency_x');
+    const fy = readParam(this, params, 'frequency_y');
+    const xTerms = linspace(0, 2 * Math.PI, width).map(x => Math.sin(x * fx));
+    const yTerms = linspace(0, 2 * Math.PI, height).map(y => Math.cos(y * fy));
+    const basis = new Float32Array(width * height);
+    for (let r = 0; r < height; r++) {
+      for (let c = 0; c < width; c++) {
+        basis[r * width + c] = xTerms[c] * yTerms[r];
+      }
+    }
+    return staticField(basis);
+  },
+};
+
+const radialModel: WaveModel = {
+  id: 'radial',
+  label: 'Radial / Concentric',
+  description: 'Concentric rings around a configurable centre, optionally fading outwards.',
+  params: [
+    { key: 'rings', label: 'Rings', min: 1, max: 16, step: 0.5, defaultValue: 4 },
+    { key: 'center_x', label: 'Centre X', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+    { key: 'center_y', label: 'Centre Y', min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+    { key: 'falloff', label: 'Radial Falloff', min: 0, max: 3, step: 0.1, defaultValue: 0 },
+  ],
+  create(width, height, params) {
+    const rings = readParam(this, params, 'rings');
+    const cx = readParam(this, params, 'center_x');
+    const cy = readParam(this, params, 'center_y');
+    const falloff = readParam(this, params, 'falloff');
+    const basis = new Float32Array(width * height);
+    for (let r = 0; r < height; r++) {
+      const dy = r / Math.max(1, height - 1) - cy;
+      for (let c = 0; c < width; c++) {
+        const dx = c / Math.max(1, width - 1) - cx;
+        const radius = Math.sqrt(dx * dx + dy * dy); // ~0..1.41 in normalized units
+        basis[r * width + c] = Math.cos(radius * rings * 2 * Math.PI) * Math.exp(-falloff * radius);
+      }
+    }
+    return staticField(basis);
+  },
+};
+
+const MAX_PLANE_WAVES = 4;
+
+const planeWavesModel: WaveModel = {
+  id: 'plane_waves',
+  label: 'Superposed Plane Waves',
+  description: 'Up to four plane waves with individual directions, summed into an interference pattern.',
+  params: [
+    { key: 'wave_count', label: 'Wave Count', min: 1, max: MAX_PLANE_WAVES, step: 1, defaultValue: 3 },
+    { key: 'frequency', label: 'Wave Frequency', min: 0.5, max: 8, step: 0.5, defaultValue: 2 },
+    { key: 'angle_1', label: 'Direction 1 (°)', min: 0, max: 180, step: 5, defaultValue: 0 },
+    { key: 'angle_2', label: 'Direction 2 (°)', min: 0, max: 180, step: 5, defaultValue: 60 },
+    { key: 'angle_3', label: 'Direction 3 (°)', min: 0, max: 180, step: 5, defaultValue: 120 },
+    { key: 'angle_4', label: 'Direction 4 (°)', min: 0, max: 180, step: 5, defaultValue: 90 },
+  ],
+  create(width, height, params) {
+    const count = Math.round(readParam(this, params, 'wave_count'));
+    const frequency = readParam(this, params, 'frequency');
+    const directions = Array.from({ length: count }, (_, i) => {
+      const angle = readParam(this, params, `angle_${i + 1}`) * Math.PI / 180;
+      return { kx: Math.cos(angle) * frequency * 2 * Math.PI, ky: Math.sin(angle) * frequency * 2 * Math.PI };
+    });
+    const basis = new Float32Array(width * height);
+    for (let r = 0; r < height; r++) {
+      const y = r / Math.max(1, height - 1);
+      for (let c = 0; c < width; c++) {
+        const x = c / Math.max(1, width - 1);
+        let sum = 0;
+        for (const { kx, ky } of directions) {
+          sum += Math.cos(kx * x + ky * y);
+        }
+        basis[r * width + c] = sum / count;
+      }
+    }
+    return staticField(basis);
+  },
+};
+
+const BOUNDARY_FIXED = 0;
+const BOUNDARY_REFLECTIVE = 1;
+
+const waveEquationModel: WaveModel = {
+  id: 'wave_equation',
+  label: '2D Wave Equation',
+  description: 'Gaussian pulses propagating under the damped 2D wave equation (leapfrog integration).',
+  params: [
+    { key: 'wave_speed', label: 'Wave Speed (Courant)', min: 0.05, max: 0.7, step: 0.05, defaultValue: 0.4 },
+    { key: 'damping', label: 'Damping', min: 0, max: 0.2, step: 0.005, defaultValue: 0.01 },
+    { key: 'sources', label: 'Initial Pulses', min: 1, max: 12, step: 1, defaultValue: 4 },
+    { key: 'pulse_width', label: 'Pulse Width (cells)', min: 1, max: 16, step: 0.5, defaultValue: 4 },
+    { key: 'substeps', label: 'Substeps per Sim Step', min: 1, max: 16, step: 1, defaultValue: 4 },
+    { key: 'boundary', label: 'Boundary', min: 0, max: 2, step: 1, defaultValue: BOUNDARY_REFLECTIVE, valueLabels: ['Fixed', 'Reflective', 'Periodic'] },
+  ],
+  create(width, height, params, random) {
+    const speed = readParam(this, params, 'wave_speed');
+    const damping = readParam(this, params, 'damping');
+    const sources = Math.round(readParam(this, params, 'sources'));
+    const pulseWidth = readParam(this, params, 'pulse_width');
+    const substeps = Math.round(readParam(this, params, 'substeps'));
+    const boundary = Math.round(readParam(this, params, 'boundary'));
+
+    let previous = new Float32Array(width * height);
+    let current = new Float32Array(width * height);
+    let next = new Float32Array(width * height);
+    for (let s = 0; s < sources; s++) {
+      const px = random.next() * width;
+      const py = random.next() * height;
+      for (let r = 0; r < height; r++) {
+        for (let c = 0; c < width; c++) {
+          const d2 = (c - px) ** 2 + (r - py) ** 2;
+          current[r * width + c] += Math.exp(-d2 / (2 * pulseWidth * pulseWidth));
+        }
+      }
+    }
+    previous.set(current); // Start at rest
+
+    const neighbour = (r: number, c: number): number => {
+      if (r >= 0 && r < height && c >= 0 && c < width) return current[r * width + c];
+      if (boundary === BOUNDARY_FIXED) return 0;
+      if (boundary === BOUNDARY_REFLECTIVE) {
+        return current[clamp(r, 0, height - 1) * width + clamp(c, 0, width - 1)];
+      }
+      return current[((r + height) % height) * width + ((c + width) % width)]; // Periodic
+    };
+
+    const c2 = speed * speed;
+    const dampingHalf = damping / 2;
+    const step = () => {
+      for (let r = 0; r < height; r++) {
+        for (let c = 0; c < width; c++) {
+          const i = r * width + c;
+          const laplacian = neighbour(r - 1, c) + neighbour(r + 1, c) + neighbour(r, c - 1) + neighbour(r, c + 1) - 4 * current[i];
+          next[i] = (2 * current[i] - previous[i] * (1 - dampingHalf) + c2 * laplacian) / (1 + dampingHalf);
+        }
+      }
+      [previous, current, next] = [current, next, previous];
+    };
+
+    const output = new Float32Array(width * height);
+    let stepsTaken = 0;
+    return {
+      spatial: (t: number) => {
+        // Integrate up to step t; the simulator visits t = 0, 1, 2, ... in order.
+        while (stepsTaken < t * substeps) {
+          step();
+          stepsTaken++;
+        }
+        // Rescale to unit peak so spreading pulses stay comparable to the static models.
+        let peak = 0;
+        for (let i = 0; i < current.length; i++) {
+          peak = Math.max(peak, Math.abs(current[i]));
+        }
+        const scale = peak > 1e-6 ? 1 / peak : 0;
+        for (let i = 0; i < output.length; i++) {
+          output[i] = current[i] * scale;
+        }
+        return output;
+      },
+    };
+  },
+};
+
+export const WAVE_MODELS: WaveModel[] = [latticeModel, radialModel, planeWavesModel, waveEquationModel];
+
+export const getWaveModel = (id: WaveModelId): WaveModel => {
+  const model = WAVE_MODELS.find(m => m.id === id);
+  if (!model) throw new Error(`Unknown wave model "${id}".`);
+  return model;
+};
+
+export const getDefaultWaveParams = (id: WaveModelId): WaveModelParams =>
+  Object.fromEntries(getWaveModel(id).params.map(spec => [spec.key, spec.defaultValue]));
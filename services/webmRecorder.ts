@@ -0,0 +1,53 @@
+// Browser-only WebM encoding of rendered frames via canvas.captureStream() and MediaRecorder.
+import { RgbaImage } from '../types';
+import { rgbaImageToImageData } from './browserImageIO';
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const WEBM_BITRATE = 8_000_000;
+
+const pickMimeType = (): string | null =>
+  typeof MediaRecorder === 'undefined' ? null : WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const isWebmRecordingSupported = (): boolean =>
+  typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype && pickMimeType() !== null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// MediaRecorder timestamps frames by wall-clock time, so the frames are played into the stream
+// in real time: recording takes frameCount / fps seconds.
+export const recordWebm = async (frames: RgbaImage[], fps: number): Promise<Blob> => {
+  const mimeType = pickMimeType();
+  if (!mimeType || frames.length === 0) {
+    throw new Error("WebM recording is not supported in this browser.");
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error("WebM recording failed."));
+  });
+
+  const frameDuration = 1000 / fps;
+  ctx.putImageData(rgbaImageToImageData(frames[0]), 0, 0);
+  recorder.start();
+  for (const frame of frames) {
+    ctx.putImageData(rgbaImageToImageData(frame), 0, 0);
+    track.requestFrame();
+    await wait(frameDuration);
+  }
+  recorder.stop();
+  track.stop();
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
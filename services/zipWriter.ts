@@ -0,0 +1,82 @@
+// Minimal ZIP archive writer (stored entries, no compression: the images are compressed already).
+// Names are UTF-8; archives are limited to 65535 entries and 4 GiB, as without ZIP64.
+import { crc32 } from './pngEncoder';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, "/"-separated
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;      // 2.0: the lowest version that knows directories
+const UTF8_NAME_FLAG = 0x0800;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+// MS-DOS date and time, in local time with two-second resolution.
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZipArchive = (entries: ZipEntry[], modified: Date = new Date()): Blob => {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP archive holds at most ${MAX_ENTRIES} files.`);
+  const { time, date } = toDosDateTime(modified);
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, UTF8_NAME_FLAG, true);
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, ZIP_VERSION, true); // Made by
+    centralView.setUint16(6, ZIP_VERSION, true); // Needed to extract
+    centralView.setUint16(8, UTF8_NAME_FLAG, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    centralHeaders.push(central);
+    offset += local.length + size;
+    if (offset > MAX_OFFSET) throw new Error("The ZIP archive would exceed 4 GiB.");
+  }
+
+  const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], { type: 'application/zip' });
+};
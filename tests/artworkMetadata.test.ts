@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import jpeg from 'jpeg-js';
+import { ArtworkMetadata, EnsembleStats, PaletteMapping, RegionMask, RenderSettings, RiemannStatKey, RiemannStats, StatSummary } from '../types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS, RENDER_PIPELINE_REVISION } from '../constants';
+import {
+  ArtworkMetadataError,
+  createArtworkMetadata,
+  embedArtworkMetadata,
+  getArtworkRenderInputs,
+  getArtworkRestoreWarnings,
+  readArtworkMetadata,
+} from '../services/artworkMetadata';
+import { RIEMANN_STAT_KEYS } from '../services/ensemble';
+import { createRgbaImage } from '../services/imageUtils';
+import { encodePng16 } from '../services/pngEncoder';
+
+const settings: RenderSettings = {
+  subQGParams: { ...DEFAULT_SUBQG_PARAMS, seed: 424242 },
+  transformParams: DEFAULT_TRANSFORMATION_PARAMS,
+  resolution: 'Original',
+};
+const stats: RiemannStats = {
+  mean_re_s: 0.5,
+  median_re_s: 0.49,
+  std_dev_re_s: 0.1,
+  count_near_0_5: 12,
+  total_projected_knots: 40,
+  harmony_score: 0.8125,
+  internal_prescale_factor_used: 1,
+};
+const summary: StatSummary = { mean: 0.8, std_dev: 0.05, ci_low: 0.72, ci_high: 0.88 };
+const ensemble: EnsembleStats = {
+  seeds: [424242, 17, 99],
+  harmony_scores: [0.75, 0.8125, 0.86],
+  summary: Object.fromEntries(RIEMANN_STAT_KEYS.map(key => [key, summary])) as Record<RiemannStatKey, StatSummary>,
+  histogram: { min: 0.3, max: 0.7, counts: [1, 4, 2] },
+  selection: 'target',
+  target_harmony: 0.8,
+  selected_run: 1,
+};
+const paletteMap: PaletteMapping = { target: [{ r: 10, g: 20, b: 30 }, { r: 250, g: 128, b: 0 }], strength: 0.7, knotInfluence: 0.4 };
+
+// 8-bit levels, as painted and uploaded masks hold them; noisy so the run-length encoding cannot shrink it much.
+const createMask = (width: number, height: number): RegionMask => {
+  const data = new Float32Array(width * height);
+  data.forEach((_, i) => { data[i] = (((i * 2654435761) >>> 24) & 255) / 255; });
+  return { field: { width, height, data }, invert: true, feather: 2.5 };
+};
+
+const createPng = () => encodePng16(createRgbaImage(4, 4));
+const createJpeg = () => {
+  const image = createRgbaImage(8, 8);
+  return new Uint8Array(jpeg.encode({ width: 8, height: 8, data: Buffer.from(image.data) }, 90).data);
+};
+// Lossless WebP with a minimal (not decodable) VP8L payload; the metadata only needs the RIFF structure.
+const createWebp = () => {
+  const webp = new Uint8Array(12 + 8 + 6);
+  const view = new DataView(webp.buffer);
+  webp.set([...'RIFF'].map(c => c.charCodeAt(0)), 0);
+  view.setUint32(4, webp.length - 8, true);
+  webp.set([...'WEBPVP8L'].map(c => c.charCodeAt(0)), 8);
+  view.setUint32(16, 6, true);
+  webp.set([0x2f, 0x03, 0xc0, 0x00, 0x00, 0x00], 20);
+  return webp;
+};
+
+const readBack = (bytes: Uint8Array): ArtworkMetadata => {
+  const metadata = readArtworkMetadata(bytes);
+  assert.ok(metadata, 'no metadata found');
+  return metadata;
+};
+
+for (const [format, create] of [['png', createPng], ['webp', createWebp], ['jpeg', createJpeg]] as const) {
+  test(`settings, mask, palette mapping and ensemble round-trip through ${format}`, async () => {
+    const mask = createMask(24, 16);
+    const metadata = createArtworkMetadata(settings, stats, 4, 4, {
+      preset: 'Calm Resonance',
+      inputs: { mask, paletteMap },
+      ensemble,
+    });
+    const read = readBack(embedArtworkMetadata(await create(), format, metadata));
+    assert.equal(read.pipeline_revision, RENDER_PIPELINE_REVISION);
+    assert.equal(read.preset, 'Calm Resonance');
+    assert.deepEqual(read.subQGParams, settings.subQGParams);
+    assert.deepEqual(read.transformParams, settings.transformParams);
+    assert.deepEqual(read.ensemble, { runs: 3, selection: 'target', target_harmony: 0.8, selected_run: 1 });
+    assert.equal(read.missing_inputs, undefined);
+    const inputs = getArtworkRenderInputs(read);
+    assert.ok(inputs);
+    assert.deepEqual(inputs.paletteMap, paletteMap);
+    assert.equal(inputs.mask?.invert, true);
+    assert.equal(inputs.mask?.feather, 2.5);
+    assert.deepEqual(inputs.mask?.field, mask.field);
+  });
+}
+
+test('a mask too large for the JPEG XMP segment is left out and listed as missing', () => {
+  const metadata = createArtworkMetadata(settings, stats, 8, 8, { inputs: { mask: createMask(400, 300), paletteMap } });
+  const read = readBack(embedArtworkMetadata(createJpeg(), 'jpeg', metadata));
+  assert.equal(read.mask, undefined);
+  assert.deepEqual(read.palette_map, paletteMap);
+  assert.equal(read.missing_inputs?.length, 1);
+  assert.match(getArtworkRestoreWarnings(read, settings.subQGParams, { mask: null, paletteMap: null }).join('\n'), /does not hold the region mask/);
+});
+
+test('version 1 files keep the current mask and palette mapping and warn about it', async () => {
+  const metadata = createArtworkMetadata(settings, stats, 4, 4);
+  const { pipeline_revision: _revision, ...version1 } = { ...metadata, version: 1 };
+  const read = readBack(embedArtworkMetadata(await createPng(), 'png', version1));
+  assert.equal(getArtworkRenderInputs(read), null);
+  const warnings = getArtworkRestoreWarnings(read, settings.subQGParams, { mask: null, paletteMap: null });
+  assert.match(warnings[0], /does not record the render pipeline revision/);
+  assert.match(warnings[1], /does not record the region mask and palette mapping/);
+});
+
+test('a corrupt mask is rejected', async () => {
+  const metadata = createArtworkMetadata(settings, stats, 4, 4, { inputs: { mask: createMask(8, 8), paletteMap: null } });
+  assert.ok(metadata.mask);
+  const broken = { ...metadata, mask: { ...metadata.mask, height: 9 } };
+  const png = embedArtworkMetadata(await createPng(), 'png', broken);
+  assert.throws(() => readArtworkMetadata(png), ArtworkMetadataError);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SUBQG_PARAMS, ENSEMBLE_HISTOGRAM_BINS } from '../constants';
+import { createReSHistogram, getEnsembleSeed, runSimulationEnsemble, selectEnsembleRun, summarizeStat } from '../services/ensemble';
+import { SubQGSimulator } from '../services/subqg';
+
+test('the confidence interval uses the Student t quantile for the number of runs', () => {
+  const summary = summarizeStat([1, 2, 3, 4]);
+  const stdDev = Math.sqrt(5 / 3);
+  assert.equal(summary.mean, 2.5);
+  assert.ok(Math.abs(summary.std_dev - stdDev) < 1e-12);
+  const halfWidth = 3.182 * stdDev / 2; // t(0.975, 3 degrees of freedom)
+  assert.ok(Math.abs(summary.ci_high - summary.mean - halfWidth) < 1e-12);
+  assert.ok(Math.abs(summary.mean - summary.ci_low - halfWidth) < 1e-12);
+  // A single run has no spread; beyond the table the normal quantile applies
+  assert.deepEqual(summarizeStat([0.7]), { mean: 0.7, std_dev: 0, ci_low: 0.7, ci_high: 0.7 });
+  const many = summarizeStat(Array.from({ length: 40 }, (_, i) => i % 2));
+  assert.ok(Math.abs(many.ci_high - many.mean - 1.96 * many.std_dev / Math.sqrt(40)) < 1e-12);
+});
+
+test('the median selection takes the lower median for an even number of runs', () => {
+  assert.equal(selectEnsembleRun([0.9, 0.3, 0.1, 0.5], 'median', 0), 1);
+  assert.equal(selectEnsembleRun([0.9, 0.3, 0.1], 'median', 0), 1);
+  assert.equal(selectEnsembleRun([0.5, 0.5, 0.5, 0.5], 'median', 0), 1); // Equal scores keep run order
+});
+
+test('the target selection takes the run closest to the target harmony, the earliest on a tie', () => {
+  assert.equal(selectEnsembleRun([0.9, 0.3, 0.1, 0.5], 'target', 0.45), 3);
+  assert.equal(selectEnsembleRun([0.4, 0.6], 'target', 0.5), 0);
+});
+
+test('the Re(s) histogram spans the values and the target band, with the maximum in the last bin', () => {
+  const empty = createReSHistogram([[], []]);
+  assert.equal(empty.min, 0.45);
+  assert.equal(empty.max, 0.55);
+  assert.equal(empty.counts.reduce((sum, count) => sum + count, 0), 0);
+
+  const histogram = createReSHistogram([[0.5], [0, 1]]);
+  assert.equal(histogram.min, 0);
+  assert.equal(histogram.max, 1);
+  assert.equal(histogram.counts.length, ENSEMBLE_HISTOGRAM_BINS);
+  assert.equal(histogram.counts[0], 1);
+  assert.equal(histogram.counts[ENSEMBLE_HISTOGRAM_BINS / 2], 1);
+  assert.equal(histogram.counts[ENSEMBLE_HISTOGRAM_BINS - 1], 1);
+});
+
+test('run 0 uses the base seed and the selected run matches a single render with its seed', () => {
+  const params = { ...DEFAULT_SUBQG_PARAMS, field_w: 16, field_h: 16, sim_duration: 8, seed: 77 };
+  assert.equal(getEnsembleSeed(params.seed, 0), params.seed);
+  const result = runSimulationEnsemble(params, null, { runs: 4, selection: 'median', targetHarmony: 0.5 });
+  assert.equal(result.ensemble.seeds[0], params.seed);
+  assert.equal(new Set(result.ensemble.seeds).size, 4);
+  assert.equal(result.seed, result.ensemble.seeds[result.ensemble.selected_run]);
+
+  const single = new SubQGSimulator({ ...params, seed: result.seed }, undefined, null);
+  assert.deepEqual(single.runSimulation().knot_map, result.knot_map);
+  assert.deepEqual(single.analyzeRiemannProjection(), result.stats);
+});
@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RgbaImage } from '../types';
+import { createGifEncoder } from '../services/gifEncoder';
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  loops: boolean;
+  delays: number[];       // Centiseconds per frame
+  frames: Uint8Array[];   // RGB per pixel
+}
+
+const decodeLzw = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output = new Uint8Array(pixelCount);
+  let written = 0;
+  let codeSize = minCodeSize + 1;
+  let dictionary: number[][] = [];
+  const reset = () => {
+    dictionary = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  for (let i = 0; i < data.length; i++) {
+    bitBuffer |= data[i] << bitCount;
+    bitCount += 8;
+    while (bitCount >= codeSize) {
+      const code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>>= codeSize;
+      bitCount -= codeSize;
+      if (code === clearCode) {
+        reset();
+        previous = null;
+        continue;
+      }
+      if (code === endCode) return output.subarray(0, written);
+      const entry: number[] = code < dictionary.length ? dictionary[code] : [...previous!, previous![0]];
+      output.set(entry, written);
+      written += entry.length;
+      if (previous && dictionary.length < 4096) dictionary.push([...previous, entry[0]]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+      previous = entry;
+    }
+  }
+  return output.subarray(0, written);
+};
+
+// Enough of GIF89a for what the encoder writes: colour tables, graphic control and NETSCAPE extensions.
+const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  assert.equal(String.fromCharCode(...bytes.subarray(0, 6)), 'GIF89a');
+  const word = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+  const width = word(6);
+  const height = word(8);
+  let offset = 13;
+  let globalTable: Uint8Array | null = null;
+  if (bytes[10] & 0x80) {
+    const size = 3 * (2 << (bytes[10] & 7));
+    globalTable = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+  const readSubBlocks = (): Uint8Array => {
+    const parts: number[] = [];
+    while (bytes[offset] !== 0) {
+      parts.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += 1 + bytes[offset];
+    }
+    offset++;
+    return Uint8Array.from(parts);
+  };
+
+  const gif: DecodedGif = { width, height, loops: false, delays: [], frames: [] };
+  while (bytes[offset] !== 0x3b) {
+    const introducer = bytes[offset++];
+    if (introducer === 0x21) {
+      const label = bytes[offset++];
+      if (label === 0xf9) gif.delays.push(word(offset + 2));
+      if (label === 0xff && String.fromCharCode(...bytes.subarray(offset + 1, offset + 12)) === 'NETSCAPE2.0') gif.loops = true;
+      readSubBlocks();
+    } else {
+      assert.equal(introducer, 0x2c, `unexpected block 0x${introducer.toString(16)}`);
+      assert.deepEqual([word(offset), word(offset + 2), word(offset + 4), word(offset + 6)], [0, 0, width, height]);
+      const packed = bytes[offset + 8];
+      offset += 9;
+      let table = globalTable;
+      if (packed & 0x80) {
+        const size = 3 * (2 << (packed & 7));
+        table = bytes.subarray(offset, offset + size);
+        offset += size;
+      }
+      assert.ok(table, 'frame without colour table');
+      const minCodeSize = bytes[offset++];
+      const indices = decodeLzw(readSubBlocks(), minCodeSize, width * height);
+      assert.equal(indices.length, width * height);
+      const rgb = new Uint8Array(width * height * 3);
+      indices.forEach((index, p) => rgb.set(table!.subarray(index * 3, index * 3 + 3), p * 3));
+      gif.frames.push(rgb);
+    }
+  }
+  return gif;
+};
+
+const solidFrame = (width: number, height: number, color: (x: number, y: number) => [number, number, number]): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const maxChannelError = (image: RgbaImage, rgb: Uint8Array): number => {
+  let max = 0;
+  for (let p = 0; p < rgb.length / 3; p++) {
+    for (let c = 0; c < 3; c++) max = Math.max(max, Math.abs(image.data[p * 4 + c] - rgb[p * 3 + c]));
+  }
+  return max;
+};
+
+test('frames decode back to their pixels', () => {
+  // Few enough colours per frame that every one gets its own palette entry
+  const frames = [
+    solidFrame(40, 30, (x, y) => [x < 20 ? 200 : 20, y < 15 ? 40 : 160, 90]),
+    solidFrame(40, 30, (x) => [x * 4, 255 - x * 4, 128]),
+  ];
+  const encoder = createGifEncoder(40, 30, { delayMs: 120, loop: true });
+  frames.forEach(frame => encoder.addFrame(frame));
+  const gif = decodeGif(encoder.finish());
+  assert.equal(gif.width, 40);
+  assert.equal(gif.height, 30);
+  assert.equal(gif.loops, true);
+  assert.deepEqual(gif.delays, [12, 12]);
+  assert.equal(gif.frames.length, 2);
+  // Colours are quantized through a 6-bit histogram, so values may move by up to half a bin
+  frames.forEach((frame, i) => assert.ok(maxChannelError(frame, gif.frames[i]) <= 2, `frame ${i}`));
+});
+
+test('colours that only appear in later frames keep their own palette entries', () => {
+  const encoder = createGifEncoder(16, 16, { delayMs: 100, loop: false });
+  const frames = [
+    solidFrame(16, 16, () => [0, 0, 255]),
+    solidFrame(16, 16, (x) => x < 8 ? [255, 0, 0] : [0, 255, 0]),
+  ];
+  frames.forEach(frame => encoder.addFrame(frame));
+  const gif = decodeGif(encoder.finish());
+  assert.equal(gif.loops, false);
+  assert.ok(maxChannelError(frames[1], gif.frames[1]) <= 2);
+});
+
+test('frames of the wrong size and empty animations are rejected', () => {
+  const encoder = createGifEncoder(8, 8, { delayMs: 100, loop: true });
+  assert.throws(() => encoder.addFrame(solidFrame(4, 4, () => [0, 0, 0])), /expected 8x8/);
+  assert.throws(() => encoder.finish(), /without frames/);
+});
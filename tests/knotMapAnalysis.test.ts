@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KnotMap } from '../types';
+import { KNOT_HISTOGRAM_BINS_MAX } from '../constants';
+import { computeKnotContours, computeKnotHistogram, getContourLevels } from '../services/knotMapAnalysis';
+
+// Rows from the top, as the simulator stores them.
+const createKnotMap = (rows: number[][]): KnotMap => ({
+  width: rows[0].length,
+  height: rows.length,
+  data: Float32Array.from(rows.flat()),
+});
+
+const round = (values: number[]) => values.map(value => Math.round(value * 1e9) / 1e9);
+
+test('a contour crosses each square edge where the level is interpolated, in cell-centre coordinates', () => {
+  const [{ level, segments }] = computeKnotContours(createKnotMap([[0, 10], [0, 10]]), [5]);
+  assert.equal(level, 5);
+  assert.deepEqual(round(segments), [1, 0.5, 1, 1.5]);
+  assert.deepEqual(computeKnotContours(createKnotMap([[3, 3], [3, 3]]), [5])[0].segments, []);
+});
+
+test('saddle squares are split by the average of their corners', () => {
+  const saddle = createKnotMap([[10, 0], [0, 10]]);
+  // Average 5 is above level 4: the two high corners stay connected, the low corners are cut off
+  assert.deepEqual(round(computeKnotContours(saddle, [4])[0].segments), [1.1, 0.5, 1.5, 0.9, 0.9, 1.5, 0.5, 1.1]);
+  // Average 5 is below level 6: the high corners are cut off instead
+  assert.deepEqual(round(computeKnotContours(saddle, [6])[0].segments), [0.5, 0.9, 0.9, 0.5, 1.5, 1.1, 1.1, 1.5]);
+});
+
+test('contour levels lie strictly between the smallest and the largest count', () => {
+  assert.deepEqual(getContourLevels(createKnotMap([[0, 10], [5, 2]]), 4), [2, 4, 6, 8]);
+  assert.deepEqual(getContourLevels(createKnotMap([[3, 3]]), 4), []);
+});
+
+test('the histogram uses one bin per count up to the bin limit and wider bins beyond', () => {
+  assert.deepEqual(computeKnotHistogram(createKnotMap([[0, 1, 1], [5, 0, 0]])), { bin_width: 1, counts: [3, 2, 0, 0, 0, 1] });
+
+  const wide = computeKnotHistogram(createKnotMap([[0, 2, 3, 100]]));
+  const binWidth = Math.ceil(101 / KNOT_HISTOGRAM_BINS_MAX);
+  assert.equal(wide.bin_width, binWidth);
+  assert.equal(wide.counts.length, Math.floor(100 / binWidth) + 1);
+  assert.equal(wide.counts[0], 2); // 0 and 2 share the first bin
+  assert.equal(wide.counts[1], 1);
+  assert.equal(wide.counts[wide.counts.length - 1], 1);
+  assert.ok(wide.counts.length <= KNOT_HISTOGRAM_BINS_MAX);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaletteFileError, parsePaletteFile } from '../services/paletteFiles';
+
+type Swatch = { name: string; model: string; values: number[] }; // model: four-character tag, e.g. 'RGB '
+
+// Big-endian ASE writer: colour entries inside a group, as Adobe apps export them.
+const createAse = (swatches: Swatch[]): Uint8Array => {
+  const blocks: { type: number; body: number[] }[] = [];
+  const utf16 = (text: string) => [...text, '\0'].flatMap(c => [c.charCodeAt(0) >> 8, c.charCodeAt(0) & 255]);
+  const groupName = utf16('Group');
+  blocks.push({ type: 0xc001, body: [0, groupName.length / 2, ...groupName] });
+  for (const { name, model, values } of swatches) {
+    const encodedName = utf16(name);
+    const components = new Uint8Array(values.length * 4);
+    values.forEach((value, i) => new DataView(components.buffer).setFloat32(i * 4, value));
+    blocks.push({
+      type: 0x0001,
+      body: [0, encodedName.length / 2, ...encodedName, ...[...model].map(c => c.charCodeAt(0)), ...components, 0, 2],
+    });
+  }
+  blocks.push({ type: 0xc002, body: [] });
+  const bytes = new Uint8Array(12 + blocks.reduce((sum, block) => sum + 6 + block.body.length, 0));
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x41, 0x53, 0x45, 0x46, 0, 1, 0, 0]);
+  view.setUint32(8, blocks.length);
+  let offset = 12;
+  for (const { type, body } of blocks) {
+    view.setUint16(offset, type);
+    view.setUint32(offset + 2, body.length);
+    bytes.set(body, offset + 6);
+    offset += 6 + body.length;
+  }
+  return bytes;
+};
+
+const encodeText = (text: string) => new TextEncoder().encode(text);
+
+test('.ase swatches in the RGB, CMYK, LAB and Gray models are converted to RGB', () => {
+  const palette = parsePaletteFile('brand colours.ase', createAse([
+    { name: 'Ocean', model: 'RGB ', values: [0.2, 0.4, 0.6] },
+    { name: 'Signal', model: 'CMYK', values: [0, 1, 1, 0] },
+    { name: 'Paper', model: 'LAB ', values: [1, 0, 0] },
+    { name: 'Mittelgrau', model: 'Gray', values: [0.5] },
+  ]));
+  assert.deepEqual(palette, {
+    name: 'brand colours',
+    colors: [{ r: 51, g: 102, b: 153 }, { r: 255, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }, { r: 128, g: 128, b: 128 }],
+  });
+});
+
+test('truncated .ase files and unknown colour models are rejected', () => {
+  const ase = createAse([{ name: 'Ocean', model: 'RGB ', values: [0.2, 0.4, 0.6] }]);
+  assert.throws(() => parsePaletteFile('cut.ase', ase.subarray(0, ase.length - 12)), { name: 'PaletteFileError', message: /truncated/ });
+  assert.throws(() => parsePaletteFile('plain.ase', encodeText('not a swatch file')), /ASEF/);
+  const hsv = createAse([{ name: 'Odd', model: 'HSV ', values: [0, 0, 0] }]);
+  assert.throws(() => parsePaletteFile('odd.ase', hsv), /Unsupported colour model "HSV"/);
+});
+
+test('.gpl files take the Name: line and skip comments and the Columns: line', () => {
+  const gpl = [
+    'GIMP Palette',
+    'Name: Sunset',
+    'Columns: 4',
+    '# exported by hand',
+    '',
+    '255 128   0\tOrange',
+    ' 20  20  60 Night blue',
+  ].join('\r\n');
+  assert.deepEqual(parsePaletteFile('palettes/sunset.gpl', encodeText(gpl)), {
+    name: 'Sunset',
+    colors: [{ r: 255, g: 128, b: 0 }, { r: 20, g: 20, b: 60 }],
+  });
+  assert.equal(parsePaletteFile('dusk.gpl', encodeText('GIMP Palette\n1 2 3\n')).name, 'dusk');
+  assert.throws(() => parsePaletteFile('bad.gpl', encodeText('GIMP Palette\n1 2 300\n')), /Line 2/);
+  assert.throws(() => parsePaletteFile('none.gpl', encodeText('Palette\n')), PaletteFileError);
+});
+
+test('JSON palettes are read as a plain list or wrapped with a name', () => {
+  assert.deepEqual(parsePaletteFile('list.json', encodeText('["#f80", "0a141e", {"r": 1, "g": 2.4, "b": 254.6}]')), {
+    name: 'list',
+    colors: [{ r: 255, g: 136, b: 0 }, { r: 10, g: 20, b: 30 }, { r: 1, g: 2, b: 255 }],
+  });
+  assert.deepEqual(parsePaletteFile('wrapped.json', encodeText('{"name": " Forest ", "colors": ["#228b22"]}')), {
+    name: 'Forest',
+    colors: [{ r: 34, g: 139, b: 34 }],
+  });
+  assert.throws(() => parsePaletteFile('empty.json', encodeText('{"colors": []}')), /no colours/);
+  assert.throws(() => parsePaletteFile('bad.json', encodeText('["#12345"]')), /Colour 1/);
+  assert.throws(() => parsePaletteFile('palette.aco', new Uint8Array(0)), /Unsupported palette file/);
+});
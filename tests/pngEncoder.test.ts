@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PNG } from 'pngjs';
+import { createRgbaImage } from '../services/imageUtils';
+import { createPngInternationalTextChunk, createPngTextChunk, encodeGrayPng16, encodePng16, insertPngChunks } from '../services/pngEncoder';
+
+// pngjs checks every chunk CRC and the zlib stream; skipRescale keeps 16-bit samples as they are stored.
+const decode = (png: Uint8Array) => PNG.sync.read(Buffer.from(png), { skipRescale: true });
+
+const createTestImage = (width: number, height: number) => {
+  const image = createRgbaImage(width, height);
+  image.data.forEach((_, i) => { image.data[i] = (i * 37 + (i >> 5)) & 255; });
+  return image;
+};
+
+test('16-bit RGBA PNGs store every 8-bit value v as v * 257', async () => {
+  const image = createTestImage(23, 11);
+  const decoded = decode(await encodePng16(image));
+  assert.equal(decoded.width, 23);
+  assert.equal(decoded.height, 11);
+  assert.equal(decoded.depth, 16);
+  assert.deepEqual(Array.from(decoded.data as unknown as Uint16Array), Array.from(image.data, value => value * 257));
+});
+
+test('16-bit grey PNGs store values rounded and clamped to 0-65535', async () => {
+  const values = [0, 1, 255, 256, 1000.4, 65535, 70000, -5, 12345.6, 40000, 2, 3];
+  const decoded = decode(await encodeGrayPng16(4, 3, values));
+  assert.equal(decoded.depth, 16);
+  // pngjs expands grey to RGBA
+  const grey = Array.from(decoded.data as unknown as Uint16Array).filter((_, i) => i % 4 === 0);
+  assert.deepEqual(grey, [0, 1, 255, 256, 1000, 65535, 65535, 0, 12346, 40000, 2, 3]);
+});
+
+test('inserted text chunks keep the file valid and end up before IEND', async () => {
+  const png = await encodePng16(createTestImage(5, 5));
+  const withText = insertPngChunks(png, [
+    createPngTextChunk('Software', 'SubQG'),
+    createPngInternationalTextChunk('Comment', 'Grüße ✓'),
+  ]);
+  const decoded = decode(withText);
+  assert.equal(decoded.width, 5);
+  assert.deepEqual(Array.from(withText.subarray(-12)), Array.from(png.subarray(-12)));
+  const text = new TextDecoder().decode(withText);
+  assert.ok(text.includes('Software\0SubQG'));
+  assert.ok(text.includes('Comment\0\0\0\0\0Grüße ✓'));
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS } from '../constants';
+import { BUILT_IN_PRESETS, PRESET_FORMAT_VERSION, PresetValidationError, parsePresetFile, serializePresets } from '../services/presets';
+import { getDefaultWaveParams } from '../services/waveModels';
+
+// Fields of the original release, before seed, grid size, wave models and image guidance existed.
+const { sim_duration, noise_factor, threshold_s, decimal_precision, f_energy, f_phase, re_s_scaling_c } = DEFAULT_SUBQG_PARAMS;
+const VERSION_0_SUBQG_PARAMS = { sim_duration, noise_factor, threshold_s, decimal_precision, f_energy, f_phase, re_s_scaling_c };
+
+test('serialized presets parse back unchanged', () => {
+  const { presets, notes } = parsePresetFile(serializePresets(BUILT_IN_PRESETS));
+  assert.deepEqual(presets, BUILT_IN_PRESETS.map(({ name, description, subQGParams, transformParams }) => ({ name, description, subQGParams, transformParams })));
+  assert.deepEqual(notes, []);
+});
+
+test('version 0 files are wrapped, named after the file and filled with defaults', () => {
+  const file = JSON.stringify({ subQGParams: { ...VERSION_0_SUBQG_PARAMS, sim_duration: 40 }, transformParams: { brightness_factor: 1.1, contrast_factor: 0.9 } });
+  const { presets, notes } = parsePresetFile(file, 'calm.json');
+  assert.equal(presets.length, 1);
+  assert.equal(presets[0].name, 'calm');
+  assert.deepEqual(presets[0].subQGParams, {
+    ...VERSION_0_SUBQG_PARAMS,
+    sim_duration: 40,
+    field_w: DEFAULT_SUBQG_PARAMS.field_w,
+    field_h: DEFAULT_SUBQG_PARAMS.field_h,
+    seed: DEFAULT_SUBQG_PARAMS.seed,
+    wave_model: DEFAULT_SUBQG_PARAMS.wave_model,
+    wave_params: getDefaultWaveParams(DEFAULT_SUBQG_PARAMS.wave_model),
+    image_guidance: DEFAULT_SUBQG_PARAMS.image_guidance,
+  });
+  assert.deepEqual(presets[0].transformParams, { ...DEFAULT_TRANSFORMATION_PARAMS, brightness_factor: 1.1, contrast_factor: 0.9 });
+  assert.equal(notes[0], `Migrated preset file from version 0 to ${PRESET_FORMAT_VERSION}.`);
+});
+
+test('version 1 files get the default field response profile', () => {
+  const file = JSON.stringify({
+    format: 'subqg-preset',
+    version: 1,
+    presets: [{ name: 'Old', subQGParams: DEFAULT_SUBQG_PARAMS, transformParams: { brightness_factor: 1.2, contrast_factor: 1.05 } }],
+  });
+  const { presets, notes } = parsePresetFile(file);
+  assert.deepEqual(presets[0].transformParams, { ...DEFAULT_TRANSFORMATION_PARAMS, brightness_factor: 1.2, contrast_factor: 1.05 });
+  assert.deepEqual(notes, [`Migrated preset file from version 1 to ${PRESET_FORMAT_VERSION}.`, 'Filled the field response profile with its defaults.']);
+});
+
+test('invalid values are reported by path', () => {
+  const file = JSON.stringify({
+    format: 'subqg-preset',
+    version: PRESET_FORMAT_VERSION,
+    presets: [{ name: 'Broken', subQGParams: { ...DEFAULT_SUBQG_PARAMS, sim_duration: 2.5, noise_factor: -1 }, transformParams: DEFAULT_TRANSFORMATION_PARAMS }],
+  });
+  assert.throws(() => parsePresetFile(file), (err: unknown) => {
+    assert.ok(err instanceof PresetValidationError);
+    assert.equal(err.issues.length, 2);
+    assert.match(err.issues[0], /subQGParams\.sim_duration/);
+    assert.match(err.issues[1], /subQGParams\.noise_factor/);
+    return true;
+  });
+});
+
+test('newer file versions are rejected', () => {
+  assert.throws(() => parsePresetFile(JSON.stringify({ format: 'subqg-preset', version: PRESET_FORMAT_VERSION + 1, presets: [] })), PresetValidationError);
+});
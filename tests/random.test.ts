@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SUBQG_PARAMS } from '../constants';
+import { createMulberry32, deriveSeed } from '../services/random';
+import { SubQGSimulator } from '../services/subqg';
+
+const simulate = (seed: number) =>
+  new SubQGSimulator({ ...DEFAULT_SUBQG_PARAMS, field_w: 32, field_h: 32, sim_duration: 10, seed }).runSimulation().knot_map;
+
+test('the same seed gives the same knot map, a different seed a different one', () => {
+  const knotMap = simulate(1234567);
+  assert.deepEqual(simulate(1234567), knotMap);
+  assert.notDeepEqual(simulate(7654321), knotMap);
+});
+
+test('the PRNG and derived seeds are reproducible', () => {
+  const draw = (seed: number) => {
+    const random = createMulberry32(seed);
+    return Array.from({ length: 5 }, () => random.next());
+  };
+  assert.deepEqual(draw(42), draw(42));
+  assert.notDeepEqual(draw(42), draw(43));
+  assert.ok(draw(42).every(value => value >= 0 && value < 1));
+  assert.equal(deriveSeed(42, 'transform'), deriveSeed(42, 'transform'));
+  assert.notEqual(deriveSeed(42, 'transform'), deriveSeed(42, 'simulation'));
+});
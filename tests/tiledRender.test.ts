@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KnotMap, PaletteRemap, RegionMask, RgbaImage } from '../types';
+import { DEFAULT_SUBQG_PARAMS, DEFAULT_TRANSFORMATION_PARAMS } from '../constants';
+import { SubQGSimulator } from '../services/subqg';
+import { applyPostProcessing, createRgbaImage, processImageWithSubQG, resizeKnotMap } from '../services/imageUtils';
+import { createStrengthMask } from '../services/regionMask';
+import { createPaletteRemap, extractPalette } from '../services/palette';
+import { createStreamRandom, RANDOM_STREAM_TRANSFORM } from '../services/random';
+import { renderTiled } from '../services/tiledRender';
+
+const SEED = 1234;
+
+// Smooth gradients with a hash-based texture, so resampling, blur and sharpening all have work to do.
+const createTestImage = (width: number, height: number): RgbaImage => {
+  const image = createRgbaImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const noise = ((x * 73856093) ^ (y * 19349663)) & 63;
+      image.data.set([(x * 255 / width + noise) & 255, (y * 255 / height) & 255, (x + y + noise * 2) & 255, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+};
+
+const knotMap: KnotMap = new SubQGSimulator({ ...DEFAULT_SUBQG_PARAMS, field_w: 16, field_h: 16, sim_duration: 20, seed: SEED }).runSimulation().knot_map;
+
+const createTestMask = (): RegionMask => {
+  const field = { width: 20, height: 15, data: new Float32Array(20 * 15) };
+  field.data.forEach((_, i) => { field.data[i] = (i % 20) < 12 ? 1 : 0; });
+  return { field, invert: false, feather: 3 };
+};
+
+// The untiled path of runTransformPipeline.
+const renderUntiled = (
+  image: RgbaImage,
+  activations: number[],
+  harmony: number,
+  targetWidth: number,
+  targetHeight: number,
+  mask: RegionMask | null,
+  paletteRemap: PaletteRemap | null
+): RgbaImage => {
+  const strengthMask = mask ? createStrengthMask(mask, image.width, image.height) : null;
+  const processed = processImageWithSubQG(
+    image,
+    activations,
+    DEFAULT_TRANSFORMATION_PARAMS,
+    resizeKnotMap(knotMap, image.width, image.height),
+    harmony,
+    createStreamRandom(SEED, RANDOM_STREAM_TRANSFORM),
+    undefined,
+    0,
+    strengthMask,
+    paletteRemap
+  );
+  return applyPostProcessing(processed, harmony, DEFAULT_TRANSFORMATION_PARAMS, targetWidth, targetHeight, strengthMask);
+};
+
+const CASES = [
+  { name: 'upscaled, sharpened', input: [90, 70], target: [157, 123], harmony: 0.9, tileSize: 48, mask: false, palette: false },
+  { name: 'downscaled, blurred', input: [120, 96], target: [61, 47], harmony: 0.1, tileSize: 32, mask: false, palette: false },
+  { name: 'same size with mask and palette mapping', input: [80, 64], target: [80, 64], harmony: 0.5, tileSize: 24, mask: true, palette: true },
+];
+
+for (const { name, input, target, harmony, tileSize, mask, palette } of CASES) {
+  test(`tiled render is byte-identical to the untiled one (${name})`, () => {
+    const image = createTestImage(input[0], input[1]);
+    const extracted = extractPalette(image);
+    const regionMask = mask ? createTestMask() : null;
+    const paletteRemap = palette
+      ? createPaletteRemap(extracted, { target: [{ r: 230, g: 80, b: 40 }, { r: 30, g: 60, b: 200 }], strength: 0.8, knotInfluence: 0.5 })
+      : null;
+
+    const untiled = renderUntiled(image, extracted.activations, harmony, target[0], target[1], regionMask, paletteRemap);
+    let tiles = 0;
+    const tiled = renderTiled(
+      image, extracted.activations, DEFAULT_TRANSFORMATION_PARAMS, knotMap, harmony, SEED, target[0], target[1],
+      regionMask, paletteRemap, (done) => { tiles = done; }, tileSize
+    );
+    assert.ok(tiles > 1, 'expected more than one tile');
+    assert.equal(tiled.width, untiled.width);
+    assert.equal(tiled.height, untiled.height);
+    assert.ok(Buffer.from(tiled.data).equals(Buffer.from(untiled.data)), 'pixels differ');
+  });
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createZipArchive } from '../services/zipWriter';
+import { crc32 } from '../services/pngEncoder';
+
+interface ReadEntry {
+  name: string;
+  flags: number;
+  crc: number;
+  time: number;
+  date: number;
+  data: Uint8Array;
+}
+
+// Reads the archive the way unzip does: end of central directory first, then each central header and
+// the local header it points to; the two headers must agree.
+const readZip = (zip: Uint8Array): ReadEntry[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  assert.equal(view.getUint16(end + 8, true), count);
+  const centralSize = view.getUint32(end + 12, true);
+  let position = view.getUint32(end + 16, true);
+  assert.equal(position + centralSize, end);
+
+  return Array.from({ length: count }, () => {
+    assert.equal(view.getUint32(position, true), 0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    const flags = view.getUint16(position + 8, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const offset = view.getUint32(position + 42, true);
+    assert.equal(view.getUint16(position + 10, true), 0); // Stored
+    assert.equal(view.getUint32(position + 20, true), size);
+
+    assert.equal(view.getUint32(offset, true), 0x04034b50);
+    assert.equal(view.getUint16(offset + 6, true), flags);
+    assert.equal(view.getUint32(offset + 14, true), crc);
+    assert.equal(view.getUint32(offset + 18, true), size);
+    assert.equal(decoder.decode(zip.subarray(offset + 30, offset + 30 + view.getUint16(offset + 26, true))), name);
+    const dataStart = offset + 30 + nameLength;
+    const entry = {
+      name, flags, crc,
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true),
+      data: zip.slice(dataStart, dataStart + size),
+    };
+    position += 46 + nameLength;
+    return entry;
+  });
+};
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+test('entries round-trip with names, CRCs and data', async () => {
+  const entries = [
+    { name: 'manifest.json', data: new TextEncoder().encode('{"items":[]}\n') },
+    { name: 'images/0001_Prüfung_ä.png', data: Uint8Array.from({ length: 1000 }, (_, i) => (i * 37) & 255) },
+    { name: 'empty.txt', data: new Uint8Array(0) },
+  ];
+  const read = readZip(await toBytes(createZipArchive(entries)));
+  assert.deepEqual(read.map(entry => entry.name), entries.map(entry => entry.name));
+  read.forEach((entry, i) => {
+    assert.deepEqual(entry.data, entries[i].data);
+    assert.equal(entry.crc, crc32(entries[i].data));
+    assert.equal(entry.flags & 0x0800, 0x0800); // UTF-8 names
+  });
+});
+
+test('the modification time is stored as MS-DOS date and time', async () => {
+  const [entry] = readZip(await toBytes(createZipArchive([{ name: 'a.txt', data: new Uint8Array([1]) }], new Date(2024, 2, 15, 13, 45, 31))));
+  assert.deepEqual(
+    { hours: entry.time >> 11, minutes: (entry.time >> 5) & 63, seconds: (entry.time & 31) * 2 },
+    { hours: 13, minutes: 45, seconds: 30 },
+  );
+  assert.deepEqual({ year: 1980 + (entry.date >> 9), month: (entry.date >> 5) & 15, day: entry.date & 31 }, { year: 2024, month: 3, day: 15 });
+});
+
+test('an empty archive is just the end of central directory record', async () => {
+  const zip = await toBytes(createZipArchive([]));
+  assert.equal(zip.length, 22);
+  assert.deepEqual(readZip(zip), []);
+});
+
+test('more than 65535 entries are refused', () => {
+  const entry = { name: 'a', data: new Uint8Array(0) };
+  assert.throws(() => createZipArchive(new Array(0x10000).fill(entry)), /at most 65535/);
+});
@@ -1,3 +1,18 @@
+export type WaveModelId = 'lattice' | 'radial' | 'plane_waves' | 'wave_equation';
+
+// Model-specific parameters, keyed by WaveModelParamSpec.key (see services/waveModels.ts).
+export type WaveModelParams = Record<string, number>;
+
+// Image property that seeds a simulation field (see services/imageGuidance.ts).
+export type GuidanceChannel = 'none' | 'luminance' | 'edges' | 'hue';
+
+export interface ImageGuidanceParams {
+  enabled: boolean;
+  energy_channel: GuidanceChannel;
+  phase_channel: GuidanceChannel;
+  strength: number; // 0-1: how far the image pulls the fields up (bright/edgy/hue-high) or down
+}
+
 export interface SubQGParams {
   sim_duration: number;
   noise_factor: number;
@@ -8,6 +23,10 @@ export interface SubQGParams {
   re_s_scaling_c: number;
   field_w: number;
   field_h: number;
+  seed: number; // Seeds the simulator noise and the wave-field phase offsets
+  wave_model: WaveModelId; // Spatial wave pattern driving the energy and phase fields
+  wave_params: WaveModelParams;
+  image_guidance: ImageGuidanceParams;
 }
 
 export interface RiemannStats {
@@ -21,9 +40,121 @@ export interface RiemannStats {
   knot_map_visual_uri?: string; // For displaying the raw knot map
 }
 
+// --- Ensemble statistics ---
+
+// Numeric RiemannStats fields, summarised across ensemble runs.
+export type RiemannStatKey = Exclude<keyof RiemannStats, 'knot_map_visual_uri'>;
+
+// Which ensemble run is rendered: the one with the median harmony score, or the one closest to a target harmony.
+export type EnsembleSelection = 'median' | 'target';
+
+// Ensemble mode: the simulation is repeated with N seeds so the harmony score comes with its spread.
+export interface EnsembleParams {
+  enabled: boolean;
+  runs: number;
+  selection: EnsembleSelection;
+  target_harmony: number; // 0-1, used by 'target'
+}
+
+export interface EnsembleRequest {
+  runs: number;
+  selection: EnsembleSelection;
+  targetHarmony: number;
+}
+
+export interface StatSummary {
+  mean: number;
+  std_dev: number; // Sample standard deviation across runs
+  ci_low: number;  // 95% confidence interval of the mean (Student's t)
+  ci_high: number;
+}
+
+// Projected Re(s) values of all runs, binned evenly over [min, max].
+export interface ReSHistogram {
+  min: number;
+  max: number;
+  counts: number[];
+}
+
+export interface EnsembleStats {
+  seeds: number[];           // Per run; run 0 uses the render's own seed
+  harmony_scores: number[];  // Per run
+  summary: Record<RiemannStatKey, StatSummary>;
+  histogram: ReSHistogram;
+  selection: EnsembleSelection;
+  target_harmony: number;
+  selected_run: number;      // Index of the rendered run
+}
+
+// Global sliders plus the "field response" profile: every tunable of processImageWithSubQG and
+// applyPostProcessing. The defaults reproduce the original hard-coded look.
 export interface TransformationParams {
   brightness_factor: number;
   contrast_factor: number;
+  // Per colour-category activation (centred on 0.5)
+  activation_brightness: number;  // Brightness added per unit of activation
+  activation_contrast: number;    // Relative contrast change per unit of activation
+  // Wave field: frequency = base + harmony · harmony_gain (cycles across the image)
+  wave_freq_x_base: number;
+  wave_freq_x_harmony: number;
+  wave_freq_y_base: number;
+  wave_freq_y_harmony: number;
+  knot_phase_influence: number;   // Phase shift (radians) at full knot density
+  field_color_modulation: number; // Field modulation of the colour mood, scaled by (1 − harmony)
+  field_saturation_ratio: number; // Share of the colour modulation applied to saturation
+  field_brightness_variation: number; // Field brightness ripple, scaled by (1 − harmony)
+  // Colour mood: shift = (harmony − 0.5) · range
+  color_temp_range: number;
+  saturation_range: number;
+  warm_shift_r: number; // Channel weights of a warm (positive) temperature shift
+  warm_shift_g: number;
+  warm_shift_b: number;
+  cool_shift_r: number; // Channel weights of a cool (negative) temperature shift
+  cool_shift_b: number;
+  // Post-processing
+  post_enhance_threshold: number;  // Harmony above which contrast/saturation are lifted
+  post_enhance_contrast: number;
+  post_enhance_saturation: number;
+  post_soften_threshold: number;   // Harmony below which the image is blurred
+  post_blur_scale: number;         // Blur radius = (1 − harmony) · scale, capped at post_blur_max
+  post_blur_max: number;
+}
+
+// Everything the controls hold that determines a render (the seed lives in subQGParams).
+export interface RenderSettings {
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+  resolution: string; // RESOLUTION_OPTIONS label
+}
+
+// Named snapshot of the controls (see services/presets.ts for the file format).
+export interface ParameterPreset {
+  name: string;
+  description?: string;
+  builtIn?: boolean; // Shipped with the app; not stored, exported or deletable
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+}
+
+// One entry of the persisted session history (IndexedDB).
+export interface RenderHistoryEntry {
+  id: string;
+  createdAt: number; // Epoch ms
+  settings: RenderSettings;
+  stats: RiemannStats;
+  thumbnail: string;      // Small PNG data URL of the result
+  knotMapVisual: string;  // Data URL of the raw knot map rendering
+  knotMap?: KnotMap;      // Raw knot map for the comparison overlay (absent in older entries)
+  image: Blob;            // Full-resolution PNG of the result
+  width: number;
+  height: number;
+  inputWidth: number;
+  inputHeight: number;
+  inputSource?: InputSource; // Absent in older entries
+  palette?: ColorPalette;     // Absent in older entries
+  ensemble?: EnsembleStats;   // Ensemble renders only
+  presetName?: string;        // Last applied preset at render time
+  inputs?: RenderInputs;      // Absent in older entries, whose mask and palette mapping are unknown
 }
 
 export interface ResolutionOption {
@@ -32,14 +163,112 @@ export interface ResolutionOption {
   height?: number; // Optional for "Original"
 }
 
-export interface MainColor {
-  r: number;
+// One colour of the extracted palette (a k-means cluster in CIELAB).
+export interface PaletteColor {
+  r: number; // sRGB 0-255 (mean of the cluster's pixels)
   g: number;
   b: number;
-  activation: number;
+  lab: [number, number, number]; // Cluster centre: L* 0-100, a*, b*
+  weight: number;   // Share of the image's pixels, 0-1 (all colours sum to 1)
+  hue: number;      // HSV hue in degrees
+  chroma: number;   // CIELAB chroma; low values are near-grey
+  category: string | null; // Nearest CATEGORY_LABELS_ORDERED entry by hue; null for near-grey colours
+}
+
+export interface ColorPalette {
+  colors: PaletteColor[]; // Sorted by weight, largest first
+  activations: number[];  // Per CATEGORY_LABELS_ORDERED entry; 0.5 = neutral
+}
+
+// Row-major 2D grid of floats (index = row * width + col).
+export interface ScalarField {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Knot counts per simulation cell.
+export type KnotMap = ScalarField;
+
+// Region mask: how strongly the SubQG transform applies per pixel (0 = untouched, 1 = full effect).
+export interface MaskParams {
+  enabled: boolean;
+  invert: boolean;
+  feather: number; // Gaussian softening, % of the mask's shorter side
 }
 
-export type KnotMap = number[][];
+export interface RegionMask {
+  field: ScalarField; // Painted/uploaded mask at its own resolution, stretched over the image
+  invert: boolean;
+  feather: number;
+}
+
+// --- Palette mapping ---
+
+export interface RgbColor {
+  r: number; // 0-255
+  g: number;
+  b: number;
+}
+
+// Colours the image is recoloured towards: picked by hand, taken from a reference image or loaded from a file.
+export interface TargetPalette {
+  name: string;
+  colors: RgbColor[];
+}
+
+// Palette mapping transform mode: replaces the harmony-driven colour mood with a recolouring of the
+// extracted palette towards a target palette.
+export interface PaletteMapParams {
+  enabled: boolean;
+  strength: number;       // 0-1, how far colours move towards their targets
+  knot_influence: number; // 0-1, how much the knot field modulates the strength (0 = uniform)
+}
+
+export interface PaletteMapping {
+  target: RgbColor[];
+  strength: number;
+  knotInfluence: number;
+}
+
+// Render inputs outside the settings: the region mask and palette mapping a render used (null = off).
+export interface RenderInputs {
+  mask: RegionMask | null;
+  paletteMap: PaletteMapping | null;
+}
+
+// Palette mapping prepared for the pixel transform: the extracted palette's Lab centres and the Lab
+// offset that moves each of them onto its target colour.
+export interface PaletteRemap {
+  source: [number, number, number][];
+  offsets: [number, number, number][];
+  strength: number;
+  knotInfluence: number;
+}
+
+// Raw RGBA pixels, row-major, 4 bytes per pixel. Structurally compatible with the DOM's ImageData,
+// but usable where ImageData doesn't exist (Node CLI).
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Rectangle in pixel coordinates.
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a tile (an image or field holding only part of the picture) sits inside the full-size picture.
+export interface TileWindow {
+  x: number;
+  y: number;
+  fullWidth: number;
+  fullHeight: number;
+}
 
 // Defines the structure for a point in 2D space
 export interface Point {
@@ -51,4 +280,322 @@ export interface Point {
 export interface ImageDimensions {
   width: number;
   height: number;
-}
\ No newline at end of file
+}
+// --- Image generation providers (see services/imageProviders.ts) ---
+
+export type ImageProviderId = 'gemini' | 'procedural' | 'http';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  model: string;
+  apiKey: string;   // Entered at runtime; empty when the provider needs none
+  endpoint: string; // Base URL for self-hosted providers
+  count: number;    // Number of candidates, clamped to the provider's maxImages
+  aspectRatio: string;    // e.g. '16:9'; ignored when the provider lists no aspectRatios
+  negativePrompt: string; // Ignored unless supportsNegativePrompt
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  description: string;
+  models: string[]; // Suggestions for the model field; the first one is the default
+  requiresApiKey: boolean;
+  requiresEndpoint: boolean;
+  maxImages: number;      // Candidates per request
+  aspectRatios: string[]; // Supported ratios; empty = provider decides
+  supportsNegativePrompt: boolean;
+  generate(request: ImageGenerationRequest): Promise<string[]>; // Candidates as data URLs
+}
+
+// Provider choice and credentials as entered in the UI.
+export interface ImageProviderSettings {
+  providerId: ImageProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string;
+  rememberApiKey: boolean; // Persist the key in localStorage instead of only for this tab
+  candidateCount: number;
+  aspectRatio: string;
+}
+
+// How the input image of a render was obtained.
+export type InputSource =
+  | { kind: 'upload'; fileName: string }
+  | {
+      kind: 'generated';
+      providerId: ImageProviderId;
+      model: string;
+      prompt: string;
+      negativePrompt?: string;
+      aspectRatio?: string;
+      candidateIndex: number; // 0-based position in the generated set
+      candidateCount: number;
+    };
+
+// --- Transform pipeline / worker protocol ---
+
+export type PipelineStage = 'simulation' | 'ensemble' | 'analysis' | 'transform' | 'postprocess' | 'tiles' | 'frames' | 'cells' | 'tuning';
+
+export interface PipelineProgress {
+  stage: PipelineStage;
+  done: number;  // e.g. simulation step t, or transformed rows
+  total: number; // e.g. sim_duration, or image height
+}
+
+// Raw RGBA pixels that can be transferred to/from a worker without copying.
+export interface TransferableImage {
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+export interface TransformJobRequest {
+  image: TransferableImage;
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+  targetWidth: number;
+  targetHeight: number;
+  mask?: RegionMask | null;
+  paletteMap?: PaletteMapping | null;
+  ensemble?: EnsembleRequest | null; // Transform jobs only
+  record_simulation?: boolean;       // Transform jobs only
+}
+
+export interface TransformJobResult {
+  image: TransferableImage;
+  knot_map: KnotMap;
+  stats: RiemannStats; // Of the rendered run
+  palette: ColorPalette;
+  ensemble: EnsembleStats | null;
+  recording: SimulationRecording | null; // Requested with record_simulation
+}
+
+export interface AnimationJobRequest extends TransformJobRequest {
+  animation: AnimationParams;
+}
+
+export interface AnimationJobResult {
+  gif: ArrayBuffer | null; // Encoded GIF for format 'gif'; WebM frames arrive as 'frame' messages instead
+  width: number;
+  height: number;
+  frame_count: number;
+  stats: RiemannStats;
+}
+
+export interface SweepJobRequest extends TransformJobRequest {
+  sweep: SweepParams;
+}
+
+export interface SweepJobResult {
+  columns: number;
+  rows: number;
+}
+
+export interface AutoTuneJobRequest {
+  image: TransferableImage; // Only read when image guidance is enabled
+  subQGParams: SubQGParams;
+  tune: AutoTuneParams;
+}
+
+export type TransformWorkerRequest =
+  | { type: 'run'; jobId: number; request: TransformJobRequest }
+  | { type: 'animate'; jobId: number; request: AnimationJobRequest }
+  | { type: 'sweep'; jobId: number; request: SweepJobRequest }
+  | { type: 'tune'; jobId: number; request: AutoTuneJobRequest };
+
+export type TransformWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: PipelineProgress }
+  | { type: 'result'; jobId: number; result: TransformJobResult }
+  | { type: 'frame'; jobId: number; index: number; frame: TransferableImage }
+  | { type: 'animation'; jobId: number; result: AnimationJobResult }
+  | { type: 'sweepCell'; jobId: number; cell: SweepCell<TransferableImage> }
+  | { type: 'sweep'; jobId: number; result: SweepJobResult }
+  | { type: 'tune'; jobId: number; result: AutoTuneResult }
+  | { type: 'error'; jobId: number; message: string };
+
+// --- Animation ---
+
+// time_steps: one frame per (evenly spaced) simulation step, using the knot map accumulated so far.
+// phase_cycle: the final knot map with the global wave phase swept once around 2π (seamless loop).
+export type AnimationMode = 'time_steps' | 'phase_cycle';
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationParams {
+  mode: AnimationMode;
+  format: AnimationFormat;
+  frame_count: number;
+  fps: number;
+  loop: boolean;
+  max_size: number; // Longest frame side in pixels; frames keep the output aspect ratio
+}
+
+// --- Parameter sweep ---
+
+export type SweepParamGroup = 'subQGParams' | 'transformParams';
+
+// One axis of the sweep grid: a numeric field stepped evenly from min to max (both included).
+export interface SweepAxis {
+  group: SweepParamGroup;
+  key: string;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SweepParams {
+  x: SweepAxis;
+  y: SweepAxis | null; // null = a single row
+  thumbnail_size: number; // Longest cell side in pixels
+}
+
+// One rendered grid cell; the image is an RgbaImage in the pipeline and a TransferableImage on the wire.
+export interface SweepCell<TImage = RgbaImage> {
+  column: number;
+  row: number;
+  subQGParams: SubQGParams;
+  transformParams: TransformationParams;
+  stats: RiemannStats;
+  image: TImage;
+}
+
+// --- Target-harmony auto-tuner ---
+
+export type AutoTuneTarget = 'harmony_score' | 'mean_re_s';
+export type AutoTuneKey = 'f_energy' | 'f_phase' | 'threshold_s' | 'noise_factor' | 're_s_scaling_c';
+
+export interface AutoTuneParams {
+  target: AutoTuneTarget;
+  target_value: number;
+  keys: AutoTuneKey[];   // SubQGParams fields the search may change
+  max_iterations: number;
+  time_budget_s: number;
+}
+
+// One objective evaluation; iteration 0 is the starting parameters.
+export interface AutoTuneStep {
+  iteration: number;
+  value: number;      // The target statistic of this candidate
+  best_value: number; // Of the best candidate so far
+  best_error: number; // |best_value - target_value|
+}
+
+export type AutoTuneStopReason = 'converged' | 'iterations' | 'time';
+
+export interface AutoTuneResult {
+  params: AutoTuneParams;
+  start: SubQGParams;
+  best: SubQGParams;
+  steps: AutoTuneStep[];
+  stop_reason: AutoTuneStopReason;
+  elapsed_ms: number;
+}
+
+
+// --- Artwork export ---
+
+export type ExportFormat = 'png' | 'png16' | 'jpeg' | 'webp';
+
+export interface ExportParams {
+  format: ExportFormat;
+  quality: number;         // JPEG/WebP encoder quality, 0-1
+  embed_metadata: boolean; // Provenance in PNG text chunks / XMP
+}
+
+// Provenance embedded in exported artwork: everything needed to re-load and reproduce the render.
+export interface ArtworkMetadata {
+  format: 'subqg-artwork';
+  version: number;
+  app_version: string; // package.json version of the app that rendered it
+  pipeline_revision?: number; // RENDER_PIPELINE_REVISION of the render (version 2+)
+  created_at: string;  // ISO 8601
+  preset?: string;     // Name of the last applied preset
+  resolution: string;
+  width: number;
+  height: number;
+  subQGParams: SubQGParams; // seed is the seed that reproduces the image
+  transformParams: TransformationParams;
+  stats: RiemannStats;      // Without knot_map_visual_uri
+  mask?: SerializedRegionMask;  // Region mask the render used (version 2+)
+  palette_map?: PaletteMapping; // Palette mapping the render used (version 2+)
+  ensemble?: { runs: number; selection: EnsembleSelection; target_harmony: number; selected_run: number }; // The seed above is the selected run's
+  missing_inputs?: string[];    // Inputs the render used that the file could not hold, e.g. a mask too large for JPEG
+}
+
+// Region mask in artwork metadata: values as 8-bit levels, run-length encoded and base64'd (see encodeMaskRle).
+export interface SerializedRegionMask {
+  width: number;
+  height: number;
+  invert: boolean;
+  feather: number;
+  rle: string;
+}
+
+// --- Batch queue ---
+
+// A queued input file; `path` is relative to a dropped folder, or just the file name.
+export interface BatchSource {
+  file: File;
+  path: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem extends BatchSource {
+  id: string;
+  overrides: RenderSettings | null; // Pinned settings; null renders with the settings at batch start
+  overridesPreset?: string;         // Last applied preset when the settings were pinned
+  status: BatchItemStatus;
+  settings?: RenderSettings;        // What it was rendered with (seed that reproduces it)
+  preset?: string;                  // Last applied preset of those settings
+  stats?: RiemannStats;
+  thumbnail?: string;               // Small PNG data URL of the result
+  output?: Blob;                    // Encoded with the export settings
+  outputExtension?: string;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+// --- Knot map inspector ---
+
+export type KnotColormap = 'viridis' | 'magma' | 'diverging';
+
+export type KnotMapExportFormat = 'csv' | 'json' | 'png16';
+
+export interface KnotMapViewParams {
+  colormap: KnotColormap;
+  show_contours: boolean;
+  contour_levels: number; // Evenly spaced between the smallest and the largest count
+}
+
+// Number of cells per knot count range: bin i covers counts i * bin_width ... (i + 1) * bin_width - 1.
+export interface KnotHistogram {
+  bin_width: number;
+  counts: number[];
+}
+
+// Iso-line of one knot count; segments holds x0, y0, x1, y1 per segment in cell units (cell centres at +0.5).
+export interface KnotContour {
+  level: number;
+  segments: number[];
+}
+
+// --- Simulation recording ---
+
+export type SimulationLayer = 'energy' | 'phase' | 'knots';
+
+// Every step of one simulation run, for the timeline scrubber. Energy and phase are stored per step and
+// cell (index = step * width * height + cell), quantised to 8 bit over 0..value_max, the clamp range of
+// both fields. The knots detected in step t are knot_cells[knot_offsets[t]] ... knot_cells[knot_offsets[t + 1] - 1].
+export interface SimulationRecording {
+  width: number;
+  height: number;
+  steps: number;
+  value_max: number;   // 1 + noise_factor
+  threshold_s: number;
+  energy: Uint8Array;
+  phase: Uint8Array;
+  knot_cells: Uint32Array;
+  knot_offsets: Uint32Array; // steps + 1 entries
+}
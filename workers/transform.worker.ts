@@ -0,0 +1,117 @@
+// Runs the SubQG transform pipeline off the main thread.
+// The input and output pixels travel as transferable ArrayBuffers; cancellation is done by the
+// client terminating this worker.
+import { TransformWorkerRequest, TransformWorkerResponse, TransformJobRequest, AnimationJobRequest, SweepJobRequest, AutoTuneJobRequest } from '../types';
+import { runTransformPipeline, runAnimationPipeline, runSweepPipeline, resolveAnimationSize } from '../services/pipeline';
+import { createGifEncoder } from '../services/gifEncoder';
+import { runAutoTune } from '../services/autoTune';
+
+const post = (message: TransformWorkerResponse, transfer: Transferable[] = []): void => {
+  self.postMessage(message, { transfer });
+};
+
+const toRgbaImage = ({ image }: TransformJobRequest | AutoTuneJobRequest) =>
+  ({ width: image.width, height: image.height, data: new Uint8ClampedArray(image.buffer) });
+
+const runTransform = async (jobId: number, request: TransformJobRequest): Promise<void> => {
+  const { subQGParams, transformParams, targetWidth, targetHeight, mask, paletteMap, ensemble, record_simulation } = request;
+  const { imageData, knot_map, stats, palette, ensemble: ensembleStats, recording } = await runTransformPipeline(
+    toRgbaImage(request),
+    subQGParams,
+    transformParams,
+    targetWidth,
+    targetHeight,
+    (progress) => post({ type: 'progress', jobId, progress }),
+    mask,
+    paletteMap,
+    ensemble,
+    record_simulation
+  );
+
+  const buffer = imageData.data.buffer as ArrayBuffer;
+  const recordingBuffers = recording
+    ? [recording.energy, recording.phase, recording.knot_cells, recording.knot_offsets].map(array => array.buffer as ArrayBuffer)
+    : [];
+  post(
+    { type: 'result', jobId, result: { image: { width: imageData.width, height: imageData.height, buffer }, knot_map, stats, palette, ensemble: ensembleStats, recording } },
+    [buffer, knot_map.data.buffer as ArrayBuffer, ...recordingBuffers]
+  );
+};
+
+// GIFs are encoded here frame by frame; WebM frames are streamed to the page, which owns MediaRecorder.
+const runAnimation = async (jobId: number, request: AnimationJobRequest): Promise<void> => {
+  const { subQGParams, transformParams, targetWidth, targetHeight, animation, mask, paletteMap } = request;
+  const frameSize = resolveAnimationSize(targetWidth, targetHeight, animation.max_size);
+  const gifEncoder = animation.format === 'gif'
+    ? createGifEncoder(frameSize.width, frameSize.height, { delayMs: 1000 / animation.fps, loop: animation.loop })
+    : null;
+
+  const { stats, width, height, frameCount } = await runAnimationPipeline(
+    toRgbaImage(request),
+    subQGParams,
+    transformParams,
+    targetWidth,
+    targetHeight,
+    animation,
+    (frame, index) => {
+      if (gifEncoder) {
+        gifEncoder.addFrame(frame);
+      } else {
+        const buffer = frame.data.buffer as ArrayBuffer;
+        post({ type: 'frame', jobId, index, frame: { width: frame.width, height: frame.height, buffer } }, [buffer]);
+      }
+    },
+    (progress) => post({ type: 'progress', jobId, progress }),
+    mask,
+    paletteMap
+  );
+
+  const gif = gifEncoder ? gifEncoder.finish().buffer as ArrayBuffer : null;
+  post({ type: 'animation', jobId, result: { gif, width, height, frame_count: frameCount, stats } }, gif ? [gif] : []);
+};
+
+// Cells are streamed to the page as they finish so the grid fills in progressively.
+const runSweep = async (jobId: number, request: SweepJobRequest): Promise<void> => {
+  const { subQGParams, transformParams, targetWidth, targetHeight, sweep, mask, paletteMap } = request;
+  const result = await runSweepPipeline(
+    toRgbaImage(request),
+    subQGParams,
+    transformParams,
+    targetWidth,
+    targetHeight,
+    sweep,
+    ({ image, ...cell }) => {
+      const buffer = image.data.buffer as ArrayBuffer;
+      post({ type: 'sweepCell', jobId, cell: { ...cell, image: { width: image.width, height: image.height, buffer } } }, [buffer]);
+    },
+    (progress) => post({ type: 'progress', jobId, progress }),
+    mask,
+    paletteMap
+  );
+  post({ type: 'sweep', jobId, result });
+};
+
+const runTune = (jobId: number, request: AutoTuneJobRequest): void => {
+  const { subQGParams, tune } = request;
+  const result = runAutoTune(toRgbaImage(request), subQGParams, tune, (step) => {
+    post({ type: 'progress', jobId, progress: { stage: 'tuning', done: step.iteration, total: tune.max_iterations } });
+  });
+  post({ type: 'tune', jobId, result });
+};
+
+self.onmessage = async (event: MessageEvent<TransformWorkerRequest>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'animate') {
+      await runAnimation(message.jobId, message.request);
+    } else if (message.type === 'sweep') {
+      await runSweep(message.jobId, message.request);
+    } else if (message.type === 'tune') {
+      runTune(message.jobId, message.request);
+    } else {
+      await runTransform(message.jobId, message.request);
+    }
+  } catch (err) {
+    post({ type: 'error', jobId: message.jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+};